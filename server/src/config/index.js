@@ -37,6 +37,23 @@ function parseApiKeys(envValue) {
   }).filter(entry => entry.key);
 }
 
+/**
+ * Parse self-hosted git host types from environment variable
+ * Format: comma-separated "host=type" pairs, type is gitlab or gitea
+ */
+function parseGitHosts(envValue) {
+  if (!envValue) return {};
+
+  const hosts = {};
+  for (const part of envValue.split(',')) {
+    const [host, type] = part.trim().split('=');
+    if (host && type) {
+      hosts[host.toLowerCase()] = type.trim().toLowerCase();
+    }
+  }
+  return hosts;
+}
+
 export const config = {
   // Chunking settings
   chunkSize: 350,
@@ -123,6 +140,7 @@ export const config = {
   dataDir: join(homedir(), '.productwiki'),
   vectorsDir: join(homedir(), '.productwiki', 'vectors'),
   metaDir: join(homedir(), '.productwiki', 'meta'),
+  wikisDir: join(homedir(), '.productwiki', 'wikis'),
 
   // Embedding settings
   embeddingBatchSize: 100,
@@ -137,6 +155,22 @@ export const config = {
   // RAG settings for wiki generation
   topK: 20, // Number of chunks to retrieve per section query
 
+  // Retrieval mode for RAG queries: 'hybrid' (keyword + vector), 'vector' or 'keyword'
+  ragSearchMode: process.env.RAG_SEARCH_MODE || 'hybrid',
+
+  // Reranker applied to retrieved chunks: 'lexical' (local heuristic), 'llm' (active preset's model) or 'none'
+  ragReranker: process.env.RAG_RERANKER || 'lexical',
+
+  // Ask the LLM for extra search queries per wiki page (symbols, file names, concepts) and merge their results
+  wikiQueryExpansion: process.env.WIKI_QUERY_EXPANSION === 'true',
+
+  // Token budget for retrieved code in a prompt (halved in low TPM mode)
+  // The model's context window minus the prompt and reserved output caps it further
+  ragContextTokens: parseInt(process.env.RAG_CONTEXT_TOKENS) || 8000,
+
+  // Max wiki pages generated at once; fewer API keys or a low TPM budget lower it further
+  wikiPageConcurrency: parseInt(process.env.WIKI_PAGE_CONCURRENCY) || 4,
+
   // Provider selection: 'gemini' or 'ollama'
   llmProvider: process.env.LLM_PROVIDER || 'gemini',
 
@@ -155,6 +189,33 @@ export const config = {
   groqApiKeys: parseApiKeys(process.env.GROQ_API_KEYS) ||
     (process.env.GROQ_API_KEY ? [{ key: process.env.GROQ_API_KEY, label: 'Default' }] : []),
 
+  // GitHub personal access token (used when the user doesn't provide one)
+  // Enables private repositories and raises the API rate limit from 60 to 5000 requests/hour
+  githubToken: process.env.GITHUB_TOKEN || null,
+
+  // How GitHub file contents are fetched:
+  // 'tarball' downloads the repository archive once, 'raw' requests each file separately
+  githubFetchStrategy: process.env.GITHUB_FETCH_STRATEGY || 'tarball',
+
+  // Tokens for other git hosts (private repositories)
+  gitlabToken: process.env.GITLAB_TOKEN || null,
+  bitbucketToken: process.env.BITBUCKET_TOKEN || null, // access token, or "username:app_password"
+  giteaToken: process.env.GITEA_TOKEN || null,
+
+  // Self-hosted instances, mapped to their API type: "git.example.com=gitlab,code.example.org=gitea"
+  // Hosts not listed here (and not a known public host) are fetched with `git clone`
+  gitHosts: parseGitHosts(process.env.GIT_HOSTS),
+
+  // Time limit for each git command when cloning plain git remotes
+  gitTimeout: parseInt(process.env.GIT_TIMEOUT_MS) || 300000,
+
+  // Server directories that POST /index/path may index (comma-separated absolute paths)
+  // Server path indexing is disabled unless at least one root is configured
+  localIndexRoots: (process.env.LOCAL_INDEX_ROOTS || '')
+    .split(',')
+    .map(root => root.trim())
+    .filter(Boolean),
+
   // Server
   port: 3847,
 };
@@ -15,6 +15,8 @@ export const PRESETS = {
     generation: {
       provider: 'gemini',
       model: 'gemini-2.0-flash',
+      contextWindow: 1048576,
+      maxOutputTokens: 8192,
     },
     requiresApiKey: 'google',
   },
@@ -31,6 +33,8 @@ export const PRESETS = {
     generation: {
       provider: 'groq',
       model: 'meta-llama/llama-4-scout-17b-16e-instruct',
+      contextWindow: 131072,
+      maxOutputTokens: 8192,
     },
     requiresApiKey: null, // Server provides fallback keys
   },
@@ -47,6 +51,8 @@ export const PRESETS = {
     generation: {
       provider: 'ollama',
       model: 'qwen2.5-coder:3b',
+      contextWindow: 32000, // num_ctx requested by ollama-llm.js
+      maxOutputTokens: 4096,
     },
     requiresApiKey: null,
   },
@@ -11,6 +11,8 @@ import { generateRoutes } from './routes/generate.js';
 import { wikiRoutes } from './routes/wiki.js';
 import { logsRoutes } from './routes/logs.js';
 import { jobsRoutes } from './routes/jobs.js';
+import { chatRoutes } from './routes/chat.js';
+import { configRoutes } from './routes/config.js';
 import { mkdir } from 'fs/promises';
 
 const app = new Hono();
@@ -57,6 +59,9 @@ app.use('*', async (c, next) => {
   }
   c.set('groqApiKeys', groqApiKeys);
 
+  // GitHub token (for private repos and higher rate limits, server env var as fallback)
+  c.set('githubToken', c.req.header('x-github-token') || config.githubToken);
+
   // TPM rate limit settings (for gemini/gemma presets)
   c.set('lowTpmMode', c.req.header('x-low-tpm-mode') === 'true');
   c.set('tpmLimit', parseInt(c.req.header('x-tpm-limit') || '0', 10) || 15000);
@@ -67,6 +72,7 @@ app.use('*', async (c, next) => {
 // Ensure data directories exist
 await mkdir(config.vectorsDir, { recursive: true });
 await mkdir(config.metaDir, { recursive: true });
+await mkdir(config.wikisDir, { recursive: true });
 
 // Health check
 app.get('/health', (c) => {
@@ -80,6 +86,8 @@ app.route('/', generateRoutes);
 app.route('/', wikiRoutes);
 app.route('/', logsRoutes);
 app.route('/', jobsRoutes);
+app.route('/', chatRoutes);
+app.route('/', configRoutes);
 
 // Serve static files from dist directory
 app.use('/*', serveStatic({ root: '../dist' }));
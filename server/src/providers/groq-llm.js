@@ -1,6 +1,7 @@
 import { config } from '../config/index.js';
 import { logError } from '../services/errorLog.js';
 import { getKeyPool, isRateLimitError, sleep } from './api-key-pool.js';
+import { countChatTokens } from './tokenizer.js';
 
 const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
 const GROQ_MODEL = 'meta-llama/llama-4-scout-17b-16e-instruct';
@@ -49,8 +50,8 @@ async function* streamChatWithKey(systemPrompt, messages, apiKey) {
   // Log request size
   const totalChars = (systemPrompt?.length || 0) +
     messages.reduce((sum, m) => sum + (m.content?.length || 0), 0);
-  const estimatedTokens = Math.ceil(totalChars / 4);
-  console.log(`[Groq] Request to ${GROQ_MODEL}: ~${totalChars} chars (~${estimatedTokens} tokens)`);
+  const promptTokens = countChatTokens(systemPrompt, messages, 'groq');
+  console.log(`[Groq] Request to ${GROQ_MODEL}: ${totalChars} chars (~${promptTokens} tokens)`);
 
   const response = await fetch(GROQ_API_URL, {
     method: 'POST',
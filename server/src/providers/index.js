@@ -1,3 +1,4 @@
+import { config } from '../config/index.js';
 import { getPreset, DEFAULT_PRESET } from '../config/presets.js';
 import * as geminiLlm from './llm.js';
 import * as geminiEmbeddings from './embeddings.js';
@@ -45,6 +46,21 @@ export function resolvePreset(options = {}) {
   return preset;
 }
 
+/**
+ * Number of API keys the preset's generation provider can rotate through
+ * (the request's keys, else the server's); local providers have none
+ */
+export function getGenerationKeyCount(options = {}) {
+  const { generation } = resolvePreset(options);
+  if (generation.provider === 'ollama') {
+    return 0;
+  }
+
+  const isGroq = generation.provider === 'groq';
+  const keys = (isGroq ? options.groqApiKeys : options.apiKeys) || [];
+  return keys.length || (isGroq ? config.groqApiKeys : config.googleApiKeys).length;
+}
+
 /**
  * Stream chat using the preset's generation provider
  */
@@ -2,7 +2,8 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import { config } from '../config/index.js';
 import { logError } from '../services/errorLog.js';
 import { getKeyPool, isRateLimitError, sleep } from './api-key-pool.js';
-import { checkTpmAllowance, recordTokenUsage, estimateTokens } from './tpm-tracker.js';
+import { checkTpmAllowance, recordTokenUsage } from './tpm-tracker.js';
+import { countTokens, countChatTokens } from './tokenizer.js';
 
 /**
  * Check if a model is a Gemma model (doesn't support systemInstruction)
@@ -75,8 +76,8 @@ async function* streamChatWithKey(systemPrompt, messages, apiKey, model) {
   // Log prompt size for debugging
   const totalChars = (systemPrompt?.length || 0) +
     processedMessages.reduce((sum, m) => sum + (m.content?.length || 0), 0);
-  const estimatedTokens = Math.ceil(totalChars / 4);
-  console.log(`[LLM] Request to ${modelName}: ~${totalChars} chars (~${estimatedTokens} tokens)`);
+  const promptTokens = countChatTokens(systemPrompt, processedMessages, 'gemini');
+  console.log(`[LLM] Request to ${modelName}: ${totalChars} chars (~${promptTokens} tokens)`);
 
   // Start chat
   const chat = llm.startChat({ history });
@@ -90,6 +91,13 @@ async function* streamChatWithKey(systemPrompt, messages, apiKey, model) {
       yield text;
     }
   }
+
+  // Token usage as counted by Gemini
+  const { usageMetadata } = await result.response;
+  if (usageMetadata) {
+    console.log(`[LLM] Usage: ${usageMetadata.promptTokenCount} prompt + ${usageMetadata.candidatesTokenCount} output tokens`);
+  }
+  return usageMetadata?.totalTokenCount;
 }
 
 /**
@@ -122,9 +130,7 @@ export async function* streamChat(systemPrompt, messages, apiKeys, model, tpmOpt
   const MAX_STREAM_RETRIES = 2;
 
   // Calculate estimated tokens for TPM tracking
-  const inputChars = (systemPrompt?.length || 0) +
-    messages.reduce((sum, m) => sum + (m.content?.length || 0), 0);
-  const estimatedInputTokens = estimateTokens(inputChars);
+  const estimatedInputTokens = countChatTokens(systemPrompt, messages, 'gemini');
   // Estimate output as roughly equal to input (conservative)
   const estimatedTotalTokens = estimatedInputTokens * 2;
 
@@ -158,15 +164,18 @@ export async function* streamChat(systemPrompt, messages, apiKeys, model, tpmOpt
     console.log(`[LLM] Using "${label}" (index ${index})`);
 
     try {
-      let outputChars = 0;
-      for await (const chunk of streamChatWithKey(systemPrompt, messages, key, model)) {
-        outputChars += chunk.length;
-        yield chunk;
+      let output = '';
+      const stream = streamChatWithKey(systemPrompt, messages, key, model);
+      let result = await stream.next();
+      while (!result.done) {
+        output += result.value;
+        yield result.value;
+        result = await stream.next();
       }
 
-      // Record actual token usage after successful streaming
+      // Record actual token usage after successful streaming (counted locally if Gemini did not report it)
       if (lowTpmMode) {
-        const actualTokens = estimateTokens(inputChars + outputChars);
+        const actualTokens = result.value ?? estimatedInputTokens + countTokens(output, 'gemini');
         recordTokenUsage(keyId, actualTokens);
       }
 
@@ -0,0 +1,52 @@
+/**
+ * Token counting per generation provider
+ * Counts are made locally with the BPE vocabulary closest to each provider's model, so prompt
+ * budgets and TPM tracking no longer rely on a chars / 4 guess (which undercounts code badly)
+ */
+import { countTokens as countO200k } from 'gpt-tokenizer/encoding/o200k_base';
+import { countTokens as countCl100k } from 'gpt-tokenizer/encoding/cl100k_base';
+
+/**
+ * Token counter per generation provider
+ * - groq: Llama 4 uses a 200k-entry tiktoken vocabulary, close to o200k_base
+ * - ollama: Qwen 2.5 (and Llama 3) extend cl100k_base
+ * - gemini: its SentencePiece vocabulary is not published for local use; o200k_base is the
+ *   nearest match for code and English. Gemini reports exact usage with each response
+ */
+const COUNTERS = {
+  gemini: countO200k,
+  groq: countO200k,
+  ollama: countCl100k,
+};
+
+/**
+ * Tokens added by the chat template around each message (role markers, separators)
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Count the tokens of a text for a generation provider
+ * @param {string} text - Text to count
+ * @param {string} [provider] - Generation provider ('gemini', 'groq' or 'ollama')
+ * @returns {number} Token count
+ */
+export function countTokens(text, provider = 'gemini') {
+  if (!text) return 0;
+  const count = COUNTERS[provider] || COUNTERS.gemini;
+  return count(text);
+}
+
+/**
+ * Count the tokens of a chat request (system prompt and messages)
+ * @param {string} systemPrompt - System prompt
+ * @param {Array<{role: string, content: string}>} messages - Chat messages
+ * @param {string} [provider] - Generation provider
+ * @returns {number} Token count
+ */
+export function countChatTokens(systemPrompt, messages, provider = 'gemini') {
+  let tokens = systemPrompt ? countTokens(systemPrompt, provider) + MESSAGE_OVERHEAD_TOKENS : 0;
+  for (const message of messages) {
+    tokens += countTokens(message.content, provider) + MESSAGE_OVERHEAD_TOKENS;
+  }
+  return tokens;
+}
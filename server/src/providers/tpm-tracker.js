@@ -98,13 +98,3 @@ export function getCurrentUsage(keyId) {
   cleanupWindow(tracker);
   return tracker.totalInWindow;
 }
-
-/**
- * Estimate tokens from character count
- * Uses same formula as llm.js: ~4 chars per token
- * @param {number} chars - Character count
- * @returns {number} Estimated tokens
- */
-export function estimateTokens(chars) {
-  return Math.ceil(chars / 4);
-}
@@ -0,0 +1,61 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { chatWithCodebase } from '../services/chat.js';
+import { logError } from '../services/errorLog.js';
+import { resolveSnapshot } from '../services/snapshots.js';
+
+export const chatRoutes = new Hono();
+
+/**
+ * Check that messages is a non-empty conversation ending with a user question
+ */
+function isValidConversation(messages) {
+  if (!Array.isArray(messages) || messages.length === 0) return false;
+
+  const validMessages = messages.every(m =>
+    m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string'
+  );
+
+  return validMessages && messages[messages.length - 1].role === 'user';
+}
+
+/**
+ * Ask a question about an indexed repository (SSE streaming)
+ * Body: { messages: [{ role, content }], snapshot? } - full conversation, last message is the question
+ */
+chatRoutes.post('/chat/:owner/:repo', async (c) => {
+  const { owner, repo } = c.req.param();
+  const { messages, snapshot: requestedSnapshot } = await c.req.json();
+
+  if (!isValidConversation(messages)) {
+    return c.json({ error: 'Messages must be a non-empty array ending with a user message' }, 400);
+  }
+
+  const snapshot = await resolveSnapshot(owner, repo, requestedSnapshot);
+  if (!snapshot) {
+    return c.json({ error: requestedSnapshot ? 'Snapshot not found' : 'Project not found' }, 404);
+  }
+
+  const options = {
+    preset: c.get('preset'),
+    apiKeys: c.get('apiKeys'),
+    groqApiKeys: c.get('groqApiKeys'),
+    lowTpmMode: c.get('lowTpmMode'),
+    tpmLimit: c.get('tpmLimit'),
+    snapshot,
+  };
+
+  return streamSSE(c, async (stream) => {
+    try {
+      for await (const event of chatWithCodebase(owner, repo, messages, options)) {
+        await stream.writeSSE({ data: JSON.stringify(event) });
+      }
+    } catch (err) {
+      logError(`Chat error: ${err.message}`);
+      console.error(err);
+      await stream.writeSSE({ data: JSON.stringify({ type: 'error', message: err.message }) });
+    }
+
+    await stream.writeSSE({ data: '[DONE]' });
+  });
+});
@@ -0,0 +1,9 @@
+import { Hono } from 'hono';
+import { getIndexingDefaults } from '../services/indexingConfig.js';
+
+export const configRoutes = new Hono();
+
+// Default indexing settings (chunking, file filters, max file size) for new projects
+configRoutes.get('/config/indexing-defaults', (c) => {
+  return c.json(getIndexingDefaults());
+});
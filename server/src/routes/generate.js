@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import { streamSSE } from 'hono/streaming';
 import { generateDocumentation, generatePackagePrompt, generateReimplementPrompt } from '../services/rag.js';
 import { logError } from '../services/errorLog.js';
+import { resolveSnapshot } from '../services/snapshots.js';
+import { WIKI_TYPES, docsFromEvents, saveWiki } from '../services/wikiStore.js';
 import {
   createJob,
   getJob,
@@ -19,16 +21,24 @@ export const generateRoutes = new Hono();
  * Helper to create a simple content generation handler with job tracking
  * @param {string} type - Generation type (docs, package-prompt, reimplement-prompt)
  * @param {Function} generator - Generator function to use
+ *
+ * Body: { owner, repo, snapshot? } - snapshot defaults to the project's most recently indexed snapshot
  */
 function createGenerateHandler(type, generator) {
   return async (c) => {
-    const { owner, repo } = await c.req.json();
+    const { owner, repo, snapshot: requestedSnapshot } = await c.req.json();
 
     if (!owner || !repo) {
       return c.json({ error: 'Owner and repo are required' }, 400);
     }
 
-    const jobId = `generate_${type}_${owner}_${repo}`;
+    const snapshot = await resolveSnapshot(owner, repo, requestedSnapshot);
+    if (!snapshot) {
+      return c.json({ error: requestedSnapshot ? 'Snapshot not found' : 'Project not found' }, 404);
+    }
+
+    // Each snapshot gets its own job so docs for different refs can generate side by side
+    const jobId = `generate_${type}_${owner}_${repo}@${snapshot}`;
 
     // Check for existing running job
     if (isJobRunning(jobId)) {
@@ -78,6 +88,7 @@ function createGenerateHandler(type, generator) {
       groqApiKeys: c.get('groqApiKeys'),
       lowTpmMode: c.get('lowTpmMode'),
       tpmLimit: c.get('tpmLimit'),
+      snapshot,
     };
 
     // Start generation in background
@@ -86,6 +97,14 @@ function createGenerateHandler(type, generator) {
         for await (const chunk of generator(owner, repo, options)) {
           pushEvent(jobId, { content: chunk });
         }
+
+        // Quick documentation is kept with the wikis so it can be loaded without generating again
+        const docs = WIKI_TYPES.includes(type) && docsFromEvents(getBufferedEvents(jobId));
+        if (docs) {
+          await saveWiki(owner, repo, snapshot, type, docs, options).catch((err) => {
+            logError(`Failed to save ${type}: ${err.message}`);
+          });
+        }
         completeJob(jobId);
       } catch (err) {
         logError(`${type} generation error: ${err.message}`);
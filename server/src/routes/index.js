@@ -1,20 +1,54 @@
 import { Hono } from 'hono';
 import { streamSSE } from 'hono/streaming';
 import { indexRepositoryWithProgress } from '../services/indexer.js';
-import { indexLocalFilesWithProgress } from '../services/localIndexer.js';
+import { indexLocalFilesWithProgress, indexServerPathWithProgress, resolveServerPath } from '../services/localIndexer.js';
 import { isIndexed } from '../services/vectorStore.js';
+import { resolveSnapshot } from '../services/snapshots.js';
+import { isValidGitRef } from '../services/gitRemote.js';
 import { logError } from '../services/errorLog.js';
+import { normalizeIndexingSettings } from '../services/indexingConfig.js';
+import { config } from '../config/index.js';
 
 export const indexRoutes = new Hono();
 
+/**
+ * Validate optional indexing settings from a request body
+ * @returns {{indexing?: Object, error?: string}} Normalized settings (undefined when not given)
+ */
+function parseIndexingSettings(indexing) {
+  if (indexing === undefined || indexing === null) {
+    return { indexing: undefined };
+  }
+  try {
+    return { indexing: normalizeIndexingSettings(indexing) };
+  } catch (err) {
+    return { error: err.message };
+  }
+}
+
 // Trigger indexing with SSE progress stream
+// Body: { url, ref?, indexing? } - ref is a branch, tag or commit (defaults to a ref in the URL, then the
+// default branch); indexing overrides the project's indexing settings (see GET /config/indexing-defaults)
 indexRoutes.post('/index', async (c) => {
-  const { url } = await c.req.json();
+  const { url, ref, indexing: requestedIndexing } = await c.req.json();
 
   if (!url) {
     return c.json({ error: 'URL is required' }, 400);
   }
 
+  if (ref !== undefined && ref !== null && typeof ref !== 'string') {
+    return c.json({ error: 'Ref must be a string' }, 400);
+  }
+
+  if (ref?.trim() && !isValidGitRef(ref.trim())) {
+    return c.json({ error: `Invalid ref: ${ref}` }, 400);
+  }
+
+  const { indexing, error } = parseIndexingSettings(requestedIndexing);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
   return streamSSE(c, async (stream) => {
     const abortSignal = { aborted: false };
 
@@ -27,6 +61,9 @@ indexRoutes.post('/index', async (c) => {
         preset: c.get('preset'),
         apiKeys: c.get('apiKeys'),
         groqApiKeys: c.get('groqApiKeys'),
+        githubToken: c.get('githubToken'),
+        ref: ref?.trim() || undefined,
+        indexing,
         signal: abortSignal,
       };
 
@@ -53,8 +90,9 @@ indexRoutes.post('/index', async (c) => {
 });
 
 // Trigger local directory indexing with SSE progress stream
+// Body: { projectName, files, indexing? } - files are filtered by the client with the same indexing settings
 indexRoutes.post('/index/local', async (c) => {
-  const { projectName, files } = await c.req.json();
+  const { projectName, files, indexing: requestedIndexing } = await c.req.json();
 
   if (!projectName) {
     return c.json({ error: 'Project name is required' }, 400);
@@ -64,6 +102,11 @@ indexRoutes.post('/index/local', async (c) => {
     return c.json({ error: 'Files array is required' }, 400);
   }
 
+  const { indexing, error } = parseIndexingSettings(requestedIndexing);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
   return streamSSE(c, async (stream) => {
     const abortSignal = { aborted: false };
 
@@ -76,6 +119,7 @@ indexRoutes.post('/index/local', async (c) => {
         preset: c.get('preset'),
         apiKeys: c.get('apiKeys'),
         groqApiKeys: c.get('groqApiKeys'),
+        indexing,
         signal: abortSignal,
       };
 
@@ -101,12 +145,85 @@ indexRoutes.post('/index/local', async (c) => {
   });
 });
 
+// Directories the server allows POST /index/path to index (empty when disabled)
+indexRoutes.get('/index/path/roots', (c) => {
+  return c.json({ roots: config.localIndexRoots });
+});
+
+// Index a directory on the server's filesystem with SSE progress stream
+// Body: { path, projectName?, indexing? } - path must be inside one of LOCAL_INDEX_ROOTS
+indexRoutes.post('/index/path', async (c) => {
+  const { path, projectName, indexing: requestedIndexing } = await c.req.json();
+
+  if (config.localIndexRoots.length === 0) {
+    return c.json({ error: 'Server path indexing is disabled (set LOCAL_INDEX_ROOTS on the server)' }, 403);
+  }
+
+  if (!path || typeof path !== 'string') {
+    return c.json({ error: 'Path is required' }, 400);
+  }
+
+  if (projectName !== undefined && projectName !== null && typeof projectName !== 'string') {
+    return c.json({ error: 'Project name must be a string' }, 400);
+  }
+
+  const { indexing, error } = parseIndexingSettings(requestedIndexing);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  try {
+    await resolveServerPath(path);
+  } catch (err) {
+    return c.json({ error: err.message }, 400);
+  }
+
+  return streamSSE(c, async (stream) => {
+    const abortSignal = { aborted: false };
+
+    c.req.raw.signal.addEventListener('abort', () => {
+      abortSignal.aborted = true;
+    });
+
+    try {
+      const options = {
+        preset: c.get('preset'),
+        apiKeys: c.get('apiKeys'),
+        groqApiKeys: c.get('groqApiKeys'),
+        indexing,
+        signal: abortSignal,
+      };
+
+      const generator = indexServerPathWithProgress(path, projectName?.trim() || undefined, options);
+
+      while (true) {
+        const { done, value } = await generator.next();
+        if (done) break;
+        await stream.writeSSE({ data: JSON.stringify(value) });
+      }
+
+      await stream.writeSSE({ data: JSON.stringify({ phase: 'done' }) });
+    } catch (err) {
+      logError(`Index path error: ${err.message}`);
+      console.error(err);
+
+      if (err.message === 'Indexing cancelled') {
+        await stream.writeSSE({ data: JSON.stringify({ phase: 'cancelled' }) });
+      } else {
+        await stream.writeSSE({ data: JSON.stringify({ phase: 'error', error: err.message }) });
+      }
+    }
+  });
+});
+
 // Check index status
+// Query: ?snapshot=<id> (defaults to the most recently indexed snapshot)
 indexRoutes.get('/index/status/:owner/:repo', async (c) => {
   const { owner, repo } = c.req.param();
 
   try {
-    const indexed = await isIndexed(owner, repo);
+    const snapshot = await resolveSnapshot(owner, repo, c.req.query('snapshot'));
+    const indexed = snapshot !== null && await isIndexed(owner, repo, snapshot);
     return c.json({ indexed });
   } catch (err) {
     console.error(err);
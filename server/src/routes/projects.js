@@ -1,8 +1,6 @@
 import { Hono } from 'hono';
-import { readdir, readFile } from 'fs/promises';
-import { join } from 'path';
-import { config } from '../config/index.js';
 import { resolvePreset } from '../providers/index.js';
+import { listProjects, getProjectMetadata } from '../services/snapshots.js';
 
 /**
  * Get current embedding config from preset
@@ -45,27 +43,10 @@ function checkEmbeddingCompatibility(projectEmbedding, currentEmbedding) {
 
 export const projectsRoutes = new Hono();
 
-// List all indexed projects
+// List all indexed projects (each with its default snapshot)
 projectsRoutes.get('/projects', async (c) => {
   try {
-    const files = await readdir(config.metaDir);
-    const projects = [];
-
-    for (const file of files) {
-      if (file.endsWith('.json')) {
-        try {
-          const content = await readFile(join(config.metaDir, file), 'utf-8');
-          const metadata = JSON.parse(content);
-          projects.push(metadata);
-        } catch (err) {
-          console.warn(`Failed to read metadata file ${file}:`, err.message);
-        }
-      }
-    }
-
-    // Sort by indexedAt descending
-    projects.sort((a, b) => new Date(b.indexedAt) - new Date(a.indexedAt));
-
+    const projects = await listProjects();
     return c.json(projects);
   } catch (err) {
     // Directory might not exist yet
@@ -77,14 +58,17 @@ projectsRoutes.get('/projects', async (c) => {
   }
 });
 
-// Get single project metadata with compatibility check
+// Get metadata for one snapshot of a project with compatibility check
+// Query: ?snapshot=<id> (defaults to the most recently indexed snapshot)
 projectsRoutes.get('/projects/:owner/:repo', async (c) => {
   const { owner, repo } = c.req.param();
+  const snapshot = c.req.query('snapshot');
 
   try {
-    const metaPath = join(config.metaDir, `${owner}_${repo}.json`);
-    const content = await readFile(metaPath, 'utf-8');
-    const metadata = JSON.parse(content);
+    const metadata = await getProjectMetadata(owner, repo, snapshot);
+    if (!metadata) {
+      return c.json({ error: snapshot ? 'Snapshot not found' : 'Project not found' }, 404);
+    }
 
     // Check embedding compatibility with current preset
     const preset = resolvePreset({ preset: c.get('preset') });
@@ -96,9 +80,6 @@ projectsRoutes.get('/projects/:owner/:repo', async (c) => {
       embeddingCompatibility: compatibility,
     });
   } catch (err) {
-    if (err.code === 'ENOENT') {
-      return c.json({ error: 'Project not found' }, 404);
-    }
     console.error(err);
     return c.json({ error: err.message }, 500);
   }
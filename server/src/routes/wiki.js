@@ -1,7 +1,10 @@
 import { Hono } from 'hono';
 import { streamSSE } from 'hono/streaming';
-import { generateWiki, generateBriefWiki, generateDetailedWiki, generateProductDocs } from '../services/wikiGenerator.js';
+import { generateWiki, generateBriefWiki, generateDetailedWiki, generateProductDocs, generateWikiPage, generateStructure, normalizeWikiStructure } from '../services/wikiGenerator.js';
 import { logError } from '../services/errorLog.js';
+import { resolveSnapshot } from '../services/snapshots.js';
+import { WIKI_TYPES, STRUCTURED_WIKI_TYPES, wikiFromEvents, saveWiki, getWiki, listWikiVersions, getWikiVersion } from '../services/wikiStore.js';
+import { EXPORT_FORMATS, exportWiki } from '../services/wikiExport.js';
 import {
   createJob,
   getJob,
@@ -16,127 +19,177 @@ import {
 export const wikiRoutes = new Hono();
 
 /**
- * Helper to create a wiki generation handler with job tracking
- * @param {string} type - Wiki type (brief, detailed, dynamic, product-docs)
- * @param {Function} generator - Generator function to use
+ * Run a wiki job in the background and stream its events (SSE)
+ * Clients requesting a job that is already running are reconnected to it instead
+ * @param {Object} c - Hono context
+ * @param {string} jobId - Job id
+ * @param {string} label - Log label for errors
+ * @param {Function} run - Async function generating the job's events (pushEvent) and saving the result
  */
-function createWikiHandler(type, generator) {
-  return async (c) => {
-    const { owner, repo } = await c.req.json();
-
-    if (!owner || !repo) {
-      return c.json({ error: 'Owner and repo are required' }, 400);
-    }
+function streamWikiJob(c, jobId, label, run) {
+  // Check for existing running job
+  if (isJobRunning(jobId)) {
+    // Reconnect to existing job
+    return streamSSE(c, async (stream) => {
+      const job = getJob(jobId);
 
-    const jobId = `wiki_${type}_${owner}_${repo}`;
+      // Replay buffered events
+      const bufferedEvents = getBufferedEvents(jobId);
+      for (const event of bufferedEvents) {
+        await stream.writeSSE({ data: JSON.stringify(event) });
+      }
 
-    // Check for existing running job
-    if (isJobRunning(jobId)) {
-      // Reconnect to existing job
-      return streamSSE(c, async (stream) => {
-        const job = getJob(jobId);
+      // If job already complete, we're done
+      if (job.status !== 'running') {
+        await stream.writeSSE({ data: '[DONE]' });
+        return;
+      }
 
-        // Replay buffered events
-        const bufferedEvents = getBufferedEvents(jobId);
-        for (const event of bufferedEvents) {
+      // Subscribe to new events
+      let streamClosed = false;
+      const unsubscribe = subscribe(jobId, async (event) => {
+        if (streamClosed) return;
+        try {
           await stream.writeSSE({ data: JSON.stringify(event) });
+        } catch {
+          streamClosed = true;
         }
+      });
 
-        // If job already complete, we're done
-        if (job.status !== 'running') {
-          await stream.writeSSE({ data: '[DONE]' });
-          return;
-        }
+      // Wait for job completion
+      await job.promise;
+      unsubscribe();
 
-        // Subscribe to new events
-        let streamClosed = false;
-        const unsubscribe = subscribe(jobId, async (event) => {
-          if (streamClosed) return;
-          try {
-            await stream.writeSSE({ data: JSON.stringify(event) });
-          } catch {
-            streamClosed = true;
-          }
-        });
+      if (!streamClosed) {
+        await stream.writeSSE({ data: '[DONE]' });
+      }
+    });
+  }
 
-        // Wait for job completion
-        await job.promise;
-        unsubscribe();
+  // Create new job
+  const job = createJob(jobId);
 
-        if (!streamClosed) {
-          await stream.writeSSE({ data: '[DONE]' });
-        }
-      });
+  // Start generation in background
+  (async () => {
+    try {
+      await run();
+      completeJob(jobId);
+    } catch (err) {
+      logError(`${label} error: ${err.message}`);
+      console.error(err);
+      pushEvent(jobId, { type: 'error', message: err.message });
+      failJob(jobId, err.message);
     }
+  })();
 
-    // Create new job
-    const job = createJob(jobId);
+  // Stream events to this client
+  return streamSSE(c, async (stream) => {
+    let streamClosed = false;
 
-    const options = {
-      preset: c.get('preset'),
-      apiKeys: c.get('apiKeys'),
-      groqApiKeys: c.get('groqApiKeys'),
-      lowTpmMode: c.get('lowTpmMode'),
-      tpmLimit: c.get('tpmLimit'),
+    // Subscribe to events (including ones generated before we subscribed)
+    const processedCount = { value: 0 };
+
+    // First, send any events that were already buffered
+    const checkAndSendBuffered = async () => {
+      const buffered = getBufferedEvents(jobId);
+      while (processedCount.value < buffered.length && !streamClosed) {
+        try {
+          await stream.writeSSE({ data: JSON.stringify(buffered[processedCount.value]) });
+          processedCount.value++;
+        } catch {
+          streamClosed = true;
+        }
+      }
     };
 
-    // Start generation in background
-    (async () => {
+    await checkAndSendBuffered();
+
+    // Subscribe to new events
+    const unsubscribe = subscribe(jobId, async (event) => {
+      if (streamClosed) return;
       try {
-        for await (const event of generator(owner, repo, options)) {
-          pushEvent(jobId, event);
-        }
-        completeJob(jobId);
-      } catch (err) {
-        logError(`${type} wiki generation error: ${err.message}`);
-        console.error(err);
-        pushEvent(jobId, { type: 'error', message: err.message });
-        failJob(jobId, err.message);
+        await stream.writeSSE({ data: JSON.stringify(event) });
+        processedCount.value++;
+      } catch {
+        streamClosed = true;
       }
-    })();
+    });
 
-    // Stream events to this client
-    return streamSSE(c, async (stream) => {
-      let streamClosed = false;
+    // Wait for job completion
+    await job.promise;
+    unsubscribe();
 
-      // Subscribe to events (including ones generated before we subscribed)
-      const processedCount = { value: 0 };
-
-      // First, send any events that were already buffered
-      const checkAndSendBuffered = async () => {
-        const buffered = getBufferedEvents(jobId);
-        while (processedCount.value < buffered.length && !streamClosed) {
-          try {
-            await stream.writeSSE({ data: JSON.stringify(buffered[processedCount.value]) });
-            processedCount.value++;
-          } catch {
-            streamClosed = true;
-          }
-        }
-      };
+    // Send any remaining buffered events we might have missed
+    await checkAndSendBuffered();
 
-      await checkAndSendBuffered();
+    if (!streamClosed) {
+      await stream.writeSSE({ data: '[DONE]' });
+    }
+  });
+}
 
-      // Subscribe to new events
-      const unsubscribe = subscribe(jobId, async (event) => {
-        if (streamClosed) return;
-        try {
-          await stream.writeSSE({ data: JSON.stringify(event) });
-          processedCount.value++;
-        } catch {
-          streamClosed = true;
-        }
-      });
+/**
+ * Provider options of a wiki request
+ */
+function getWikiOptions(c, snapshot, queryExpansion, structure) {
+  return {
+    preset: c.get('preset'),
+    apiKeys: c.get('apiKeys'),
+    groqApiKeys: c.get('groqApiKeys'),
+    githubToken: c.get('githubToken'),
+    lowTpmMode: c.get('lowTpmMode'),
+    tpmLimit: c.get('tpmLimit'),
+    snapshot,
+    queryExpansion: typeof queryExpansion === 'boolean' ? queryExpansion : undefined,
+    structure,
+  };
+}
 
-      // Wait for job completion
-      await job.promise;
-      unsubscribe();
+/**
+ * Helper to create a wiki generation handler with job tracking
+ * @param {string} type - Wiki type (brief, detailed, dynamic, product-docs)
+ * @param {Function} generator - Generator function to use
+ *
+ * Body: { owner, repo, snapshot?, queryExpansion?, structure? } - snapshot defaults to the project's most
+ * recently indexed snapshot, queryExpansion to config.wikiQueryExpansion; a structure (edited after
+ * POST /wiki/:type/structure) is used instead of generating one
+ */
+function createWikiHandler(type, generator) {
+  return async (c) => {
+    const { owner, repo, snapshot: requestedSnapshot, queryExpansion, structure } = await c.req.json();
 
-      // Send any remaining buffered events we might have missed
-      await checkAndSendBuffered();
+    if (!owner || !repo) {
+      return c.json({ error: 'Owner and repo are required' }, 400);
+    }
 
-      if (!streamClosed) {
-        await stream.writeSSE({ data: '[DONE]' });
+    if (structure) {
+      try {
+        normalizeWikiStructure(structure);
+      } catch (err) {
+        return c.json({ error: err.message }, 400);
+      }
+    }
+
+    const snapshot = await resolveSnapshot(owner, repo, requestedSnapshot);
+    if (!snapshot) {
+      return c.json({ error: requestedSnapshot ? 'Snapshot not found' : 'Project not found' }, 404);
+    }
+
+    // Each snapshot gets its own job so docs for different refs can generate side by side
+    const jobId = `wiki_${type}_${owner}_${repo}@${snapshot}`;
+    const options = getWikiOptions(c, snapshot, queryExpansion, structure);
+
+    return streamWikiJob(c, jobId, `${type} wiki generation`, async () => {
+      for await (const event of generator(owner, repo, options)) {
+        pushEvent(jobId, event);
+      }
+
+      // Keep the finished wiki so it can be loaded without generating again
+      const wiki = wikiFromEvents(getBufferedEvents(jobId));
+      if (wiki) {
+        await saveWiki(owner, repo, snapshot, type, wiki, options).catch((err) => {
+          logError(`Failed to save ${type} wiki: ${err.message}`);
+        });
       }
     });
   };
@@ -165,3 +218,196 @@ wikiRoutes.post('/wiki/dynamic', createWikiHandler('dynamic', (owner, repo, opti
  * End-user focused documentation emphasizing functionality and features
  */
 wikiRoutes.post('/wiki/product-docs', createWikiHandler('product-docs', generateProductDocs));
+
+/**
+ * Generate only the structure of a wiki, to be edited and submitted to POST /wiki/:type
+ * Body: { owner, repo, snapshot? }
+ */
+wikiRoutes.post('/wiki/:type/structure', async (c) => {
+  const { type } = c.req.param();
+  const { owner, repo, snapshot: requestedSnapshot } = await c.req.json();
+
+  if (!STRUCTURED_WIKI_TYPES.includes(type)) {
+    return c.json({ error: `Unknown wiki type: ${type}` }, 400);
+  }
+  if (!owner || !repo) {
+    return c.json({ error: 'Owner and repo are required' }, 400);
+  }
+
+  const snapshot = await resolveSnapshot(owner, repo, requestedSnapshot);
+  if (!snapshot) {
+    return c.json({ error: requestedSnapshot ? 'Snapshot not found' : 'Project not found' }, 404);
+  }
+
+  try {
+    const structure = await generateStructure(owner, repo, type, getWikiOptions(c, snapshot));
+    return c.json({ structure });
+  } catch (err) {
+    logError(`${type} wiki structure generation error: ${err.message}`);
+    return c.json({ error: err.message }, 500);
+  }
+});
+
+/**
+ * Regenerate one page of the latest generated wiki (SSE streaming)
+ * The page is generated from the stored structure and saved as a new version of the wiki
+ *
+ * Body: { owner, repo, pageId, snapshot?, queryExpansion? }
+ */
+wikiRoutes.post('/wiki/:type/page', async (c) => {
+  const { type } = c.req.param();
+  const { owner, repo, pageId, snapshot: requestedSnapshot, queryExpansion } = await c.req.json();
+
+  if (!STRUCTURED_WIKI_TYPES.includes(type)) {
+    return c.json({ error: `Unknown wiki type: ${type}` }, 400);
+  }
+  if (!owner || !repo || !pageId) {
+    return c.json({ error: 'Owner, repo and pageId are required' }, 400);
+  }
+
+  const snapshot = await resolveSnapshot(owner, repo, requestedSnapshot);
+  if (!snapshot) {
+    return c.json({ error: requestedSnapshot ? 'Snapshot not found' : 'Project not found' }, 404);
+  }
+
+  // The whole wiki is replaced when its generation finishes
+  if (isJobRunning(`wiki_${type}_${owner}_${repo}@${snapshot}`)) {
+    return c.json({ error: 'The wiki is being generated' }, 409);
+  }
+
+  const stored = await getWiki(owner, repo, snapshot, type);
+  if (!stored?.structure) {
+    return c.json({ error: 'Wiki not generated yet' }, 404);
+  }
+  if (!stored.structure.pages.some(page => page.id === pageId)) {
+    return c.json({ error: 'Page not found' }, 404);
+  }
+
+  const jobId = `wiki_${type}_${owner}_${repo}@${snapshot}_page_${pageId}`;
+  const options = getWikiOptions(c, snapshot, queryExpansion);
+
+  return streamWikiJob(c, jobId, `${type} wiki page generation`, async () => {
+    for await (const event of generateWikiPage(owner, repo, type, stored.structure, pageId, options)) {
+      pushEvent(jobId, event);
+    }
+
+    // Apply the page to the latest version, which other page regenerations may have updated meanwhile
+    const latest = await getWiki(owner, repo, snapshot, type);
+    const wiki = wikiFromEvents(getBufferedEvents(jobId), latest?.structure ? latest : stored);
+    if (wiki) {
+      await saveWiki(owner, repo, snapshot, type, wiki, options).catch((err) => {
+        logError(`Failed to save ${type} wiki: ${err.message}`);
+      });
+    }
+  });
+});
+
+/**
+ * Resolve the wiki type and snapshot of a stored wiki request
+ * @returns {Promise<{snapshot?: string, error?: string, status?: number}>}
+ */
+async function resolveStoredWiki(c) {
+  const { type, owner, repo } = c.req.param();
+  const requestedSnapshot = c.req.query('snapshot');
+
+  if (!WIKI_TYPES.includes(type)) {
+    return { error: `Unknown wiki type: ${type}`, status: 400 };
+  }
+
+  const snapshot = await resolveSnapshot(owner, repo, requestedSnapshot);
+  if (!snapshot) {
+    return { error: requestedSnapshot ? 'Snapshot not found' : 'Project not found', status: 404 };
+  }
+  return { snapshot };
+}
+
+/**
+ * Get the latest generated wiki of a type (brief, detailed, dynamic, product-docs or docs)
+ * Query: ?snapshot=<id> (defaults to the most recently indexed snapshot)
+ */
+wikiRoutes.get('/wiki/:type/:owner/:repo', async (c) => {
+  const { type, owner, repo } = c.req.param();
+  const { snapshot, error, status } = await resolveStoredWiki(c);
+  if (error) {
+    return c.json({ error }, status);
+  }
+
+  const wiki = await getWiki(owner, repo, snapshot, type);
+  if (!wiki) {
+    return c.json({ error: 'Wiki not generated yet' }, 404);
+  }
+
+  return c.json(wiki);
+});
+
+/**
+ * List the generated versions of a wiki, newest first
+ * Query: ?snapshot=<id> (defaults to the most recently indexed snapshot)
+ */
+wikiRoutes.get('/wiki/:type/:owner/:repo/versions', async (c) => {
+  const { type, owner, repo } = c.req.param();
+  const { snapshot, error, status } = await resolveStoredWiki(c);
+  if (error) {
+    return c.json({ error }, status);
+  }
+
+  return c.json({ versions: await listWikiVersions(owner, repo, snapshot, type) });
+});
+
+/**
+ * Get one generated version of a wiki
+ * Query: ?snapshot=<id> (defaults to the most recently indexed snapshot)
+ */
+wikiRoutes.get('/wiki/:type/:owner/:repo/versions/:version', async (c) => {
+  const { type, owner, repo, version } = c.req.param();
+  const { snapshot, error, status } = await resolveStoredWiki(c);
+  if (error) {
+    return c.json({ error }, status);
+  }
+
+  const wiki = await getWikiVersion(owner, repo, snapshot, type, version);
+  if (!wiki) {
+    return c.json({ error: 'Version not found' }, 404);
+  }
+
+  return c.json(wiki);
+});
+
+/**
+ * Download a generated wiki as a zip: a static documentation site, markdown files, or an MkDocs or
+ * Docusaurus project
+ * Query: ?format=site|markdown|mkdocs|docusaurus, ?version=<id> (defaults to the latest),
+ * ?snapshot=<id> (defaults to the most recently indexed snapshot)
+ */
+wikiRoutes.get('/wiki/:type/:owner/:repo/export', async (c) => {
+  const { type, owner, repo } = c.req.param();
+  const format = c.req.query('format') || 'site';
+  const version = c.req.query('version');
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return c.json({ error: `Unknown export format: ${format}` }, 400);
+  }
+
+  const { snapshot, error, status } = await resolveStoredWiki(c);
+  if (error) {
+    return c.json({ error }, status);
+  }
+
+  const wiki = version
+    ? await getWikiVersion(owner, repo, snapshot, type, version)
+    : await getWiki(owner, repo, snapshot, type);
+  if (!wiki) {
+    return c.json({ error: version ? 'Version not found' : 'Wiki not generated yet' }, 404);
+  }
+
+  try {
+    const zip = await exportWiki(wiki, format);
+    return c.body(zip, 200, {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${owner}-${repo}-${type}-${format}.zip"`,
+    });
+  } catch (err) {
+    logError(`Wiki export error: ${err.message}`);
+    return c.json({ error: err.message }, 500);
+  }
+});
@@ -0,0 +1,88 @@
+/**
+ * Bitbucket Cloud source
+ * Files are read from the repository archive of the resolved commit; config.bitbucketToken
+ * (an access token, or "username:app_password") enables private repositories
+ */
+import { readArchiveFiles, resolveRefPrefix, sourceFetch } from './sourceFiles.js';
+
+const BITBUCKET_API_BASE = 'https://api.bitbucket.org/2.0';
+const TOKEN_HINT = 'Set BITBUCKET_TOKEN on the server to index private repositories.';
+
+/**
+ * Parse the path of a Bitbucket URL into a remote
+ * The ref comes from /src/<ref> or /commits/<sha> URLs
+ *
+ * @param {string} host - Host name (bitbucket.org)
+ * @param {string[]} segments - URL path segments
+ */
+export function parseBitbucketUrl(host, segments) {
+  if (segments.length < 2) {
+    throw new Error('Invalid Bitbucket URL format');
+  }
+
+  const [workspace, slug, route, ...rest] = segments;
+  const repo = slug.replace(/\.git$/, '');
+  const ref = (route === 'src' || route === 'commits') && rest.length > 0
+    ? rest.join('/')
+    : undefined;
+
+  return {
+    type: 'bitbucket',
+    host,
+    path: `${workspace}/${repo}`,
+    owner: workspace,
+    repo,
+    ref,
+    webUrl: `https://${host}/${workspace}/${repo}`,
+  };
+}
+
+/**
+ * Authorization header: app passwords use basic auth, access tokens are bearer tokens
+ */
+function getAuthHeaders(token) {
+  if (!token) return {};
+  return token.includes(':')
+    ? { Authorization: `Basic ${Buffer.from(token).toString('base64')}` }
+    : { Authorization: `Bearer ${token}` };
+}
+
+function bitbucketFetch(url, token, options = {}) {
+  return sourceFetch(url, {
+    label: 'Bitbucket',
+    headers: getAuthHeaders(token),
+    tokenHint: TOKEN_HINT,
+    ...options,
+  });
+}
+
+/**
+ * Resolve a branch, tag or commit SHA to a commit SHA (null if it does not exist)
+ */
+async function getCommitSha(remote, ref, token) {
+  const url = `${BITBUCKET_API_BASE}/repositories/${remote.path}/commit/${encodeURIComponent(ref)}`;
+  const response = await bitbucketFetch(url, token, { allowNotFound: true });
+  return response ? (await response.json()).hash : null;
+}
+
+/**
+ * List the indexable files of a Bitbucket repository, with their content
+ * Lists options.ref or the main branch, returning the resolved commit SHA
+ */
+export async function listRepositoryFiles(remote, config, options = {}) {
+  const token = config.bitbucketToken;
+
+  const repository = await (await bitbucketFetch(`${BITBUCKET_API_BASE}/repositories/${remote.path}`, token)).json();
+  const { ref, commitSha } = await resolveRefPrefix(
+    options.ref || repository.mainbranch?.name || 'main',
+    (candidate) => getCommitSha(remote, candidate, token),
+    remote.path
+  );
+  console.log(`[Bitbucket] Ref: ${ref} (${commitSha.slice(0, 7)})`);
+
+  const response = await bitbucketFetch(`https://${remote.host}/${remote.path}/get/${commitSha}.tar.gz`, token);
+  const { files, skipped } = await readArchiveFiles(response.body, config);
+  console.log(`[Bitbucket] ${files.length} files match filter criteria, ${skipped.length} skipped`);
+
+  return { files, ref, commitSha, skipped };
+}
@@ -0,0 +1,120 @@
+/**
+ * Codebase chat service - multi-turn Q&A grounded in RAG retrieval
+ */
+import { streamChat } from '../providers/index.js';
+import { queryRag, packRagContext, isIndexed, getRagLimits, getChunkRelevance } from './ragQuery.js';
+
+/**
+ * System prompt for codebase Q&A
+ */
+const CHAT_SYSTEM_PROMPT = `You are an expert software engineer answering questions about a codebase.
+
+Each question comes with excerpts from the repository, retrieved via semantic search for that question.
+
+GUIDELINES:
+- Answer using ONLY the provided excerpts and the earlier conversation
+- If the excerpts do not contain the answer, say so plainly instead of guessing
+- Reference the files you used by path (e.g. \`src/server/index.js\`)
+- Include short code snippets from the excerpts when they help
+- Use Markdown; Mermaid diagrams (\`graph TD\`) are fine when they add clarity
+- Be concise and precise`;
+
+/**
+ * Number of earlier messages sent to the LLM along with the current question
+ */
+const MAX_HISTORY_MESSAGES = 10;
+
+/**
+ * Build the retrieval query for the current turn
+ * Short follow-ups ("and how is it configured?") are combined with the previous question
+ */
+function buildRetrievalQuery(messages) {
+  const userMessages = messages.filter(m => m.role === 'user');
+  const current = userMessages[userMessages.length - 1].content;
+  const previous = userMessages[userMessages.length - 2]?.content;
+
+  if (previous && current.split(/\s+/).length < 8) {
+    return `${previous}\n${current}`;
+  }
+  return current;
+}
+
+/**
+ * Collapse retrieved chunks into a cited-source list (one entry per chunk)
+ * Only chunks of files the context includes at full text are cited, so the sources match what
+ * the model saw
+ * @param {string[]} includedPaths - Paths from packRagContext
+ */
+function toChatSources(chunks, includedPaths) {
+  const included = new Set(includedPaths);
+  const seen = new Set();
+  const sources = [];
+
+  for (const chunk of chunks) {
+    if (seen.has(chunk.id) || !included.has(chunk.path)) continue;
+    seen.add(chunk.id);
+    sources.push({
+      path: chunk.path,
+      chunkIndex: chunk.chunkIndex,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      relevance: getChunkRelevance(chunk),
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Answer the latest question in a conversation about a repository
+ *
+ * Yields events in this order:
+ * 1. { type: 'status', message: '...', usage: {...} } (token usage of the retrieved context)
+ * 2. { type: 'content', chunk: '...' } (multiple)
+ * 3. { type: 'sources', sources: [...] }
+ *
+ * @param {string} owner - Repository owner
+ * @param {string} repo - Repository name
+ * @param {Array<{role: 'user'|'assistant', content: string}>} messages - Conversation so far, ending with a user message
+ * @param {Object} options - Provider options (preset, apiKeys, ...) and the snapshot to search
+ */
+export async function* chatWithCodebase(owner, repo, messages, options = {}) {
+  if (!(await isIndexed(owner, repo, options.snapshot))) {
+    yield { type: 'error', message: 'Repository must be indexed before asking questions. Please index the repository first.' };
+    return;
+  }
+
+  // Re-retrieve for every turn so follow-up questions get fresh context
+  const limits = getRagLimits(options);
+  const chunks = await queryRag(owner, repo, buildRetrievalQuery(messages), options, limits.CHUNK_LIMIT);
+
+  const history = messages.slice(0, -1).slice(-MAX_HISTORY_MESSAGES);
+  // Gemini requires the history to start with a user turn
+  while (history.length > 0 && history[0].role !== 'user') {
+    history.shift();
+  }
+  const question = messages[messages.length - 1].content;
+
+  // The history and question share the context window with the retrieved code
+  const { context, usage, includedPaths } = packRagContext(chunks, options, {
+    systemPrompt: CHAT_SYSTEM_PROMPT,
+    messages: [...history, { role: 'user', content: question }],
+  });
+  yield { type: 'status', message: `Answering with ${usage.contextTokens} tokens of context from ${usage.files} files`, usage };
+
+  const llmMessages = [
+    ...history,
+    {
+      role: 'user',
+      content: chunks.length > 0
+        ? `Relevant codebase content (retrieved via semantic search for this question):\n\n${context}\n\nQuestion: ${question}`
+        : `No relevant codebase content was found for this question.\n\nQuestion: ${question}`,
+    },
+  ];
+
+  for await (const chunk of streamChat(CHAT_SYSTEM_PROMPT, llmMessages, options)) {
+    yield { type: 'content', chunk };
+  }
+
+  yield { type: 'sources', sources: toChatSources(chunks, includedPaths) };
+}
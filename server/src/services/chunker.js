@@ -0,0 +1,357 @@
+/**
+ * Language-aware chunking
+ * Splits files at function/class/method boundaries (code) or headings (docs) so chunks
+ * follow the structure of the file, falling back to a line window for oversized sections
+ */
+
+/**
+ * Identifiers that look like method declarations but are control flow
+ */
+const CONTROL_KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'catch', 'try', 'finally',
+  'return', 'throw', 'new', 'function', 'await', 'yield', 'typeof', 'delete', 'super',
+]);
+
+/**
+ * Max symbol names recorded for a chunk that packs several small sections
+ */
+const MAX_SYMBOL_NAMES = 5;
+
+/**
+ * Count words in a line
+ */
+export function countWords(line) {
+  return line.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Indentation width of a line (tabs count as 4 columns)
+ */
+function indentOf(line) {
+  const match = line.match(/^[ \t]*/)[0];
+  return match.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Build a boundary finder from declaration patterns
+ * Each pattern is { regex, name: (match) => string | null }; the boundary level is the line's indentation
+ */
+function declarationFinder(patterns) {
+  return (lines) => {
+    const boundaries = [];
+    lines.forEach((line, i) => {
+      for (const { regex, name } of patterns) {
+        const match = line.match(regex);
+        if (!match) continue;
+        const symbol = name(match);
+        if (symbol && !CONTROL_KEYWORDS.has(symbol)) {
+          boundaries.push({ line: i, level: indentOf(line), name: symbol });
+          return;
+        }
+      }
+    });
+    return boundaries;
+  };
+}
+
+/**
+ * Markdown headings (# .. ######), ignoring fenced code blocks
+ */
+function findMarkdownHeadings(lines) {
+  const boundaries = [];
+  let inFence = false;
+
+  lines.forEach((line, i) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+
+    const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      boundaries.push({ line: i, level: match[1].length, name: match[2] });
+    }
+  });
+
+  return boundaries;
+}
+
+/**
+ * reStructuredText section titles (a title line followed by an adornment line)
+ * Levels follow the order in which adornment characters first appear, as in docutils
+ */
+function findRstHeadings(lines) {
+  const boundaries = [];
+  const levels = [];
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    const title = lines[i].trim();
+    const adornment = lines[i + 1].trim();
+    if (!title || !/^([=\-~^"'`#*+:.])\1+$/.test(adornment) || adornment.length < title.length) {
+      continue;
+    }
+    if (/^([=\-~^"'`#*+:.])\1+$/.test(title)) continue; // overline, title is on the next line
+
+    const char = adornment[0];
+    if (!levels.includes(char)) levels.push(char);
+
+    // Include an overline in the section if present
+    const hasOverline = i > 0 && lines[i - 1].trim() === adornment;
+    boundaries.push({ line: hasOverline ? i - 1 : i, level: levels.indexOf(char) + 1, name: title });
+    i++;
+  }
+
+  return boundaries;
+}
+
+const JS_TS_STRATEGY = {
+  separator: '.',
+  // Comments, JSDoc and decorators stay with the declaration that follows them
+  attachPattern: /^\s*(\/\/|\/\*|\*|@)/,
+  findBoundaries: declarationFinder([
+    { regex: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, name: m => m[1] },
+    { regex: /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/, name: m => m[1] },
+    { regex: /^\s*(?:export\s+)?(?:declare\s+)?(?:interface|type|enum)\s+([A-Za-z_$][\w$]*)/, name: m => m[1] },
+    {
+      regex: /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]*)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)?\s*(?::[^=]*)?=>|\(\s*$|[A-Za-z_$][\w$]*\s*=>)/,
+      name: m => m[1],
+    },
+    {
+      // Class methods: indented `name(...) {` with optional modifiers
+      regex: /^\s+(?:(?:public|private|protected|static|async|readonly|override|abstract|get|set)\s+)*\*?\s*([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\([^;]*\)\s*(?::[^{;]*)?\{\s*$/,
+      name: m => m[1],
+    },
+  ]),
+};
+
+const PYTHON_STRATEGY = {
+  separator: '.',
+  attachPattern: /^\s*(#|@)/,
+  findBoundaries: declarationFinder([
+    { regex: /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/, name: m => m[1] },
+    { regex: /^\s*class\s+([A-Za-z_]\w*)/, name: m => m[1] },
+  ]),
+};
+
+const GO_STRATEGY = {
+  separator: '.',
+  attachPattern: /^\s*\/\//,
+  findBoundaries: declarationFinder([
+    {
+      // Methods are named Receiver.Method
+      regex: /^func\s+(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)/,
+      name: m => (m[1] ? `${m[1]}.${m[2]}` : m[2]),
+    },
+    { regex: /^type\s+(\w+)/, name: m => m[1] },
+  ]),
+};
+
+const RUST_STRATEGY = {
+  separator: '::',
+  attachPattern: /^\s*(\/\/|#\[|#!\[)/,
+  findBoundaries: declarationFinder([
+    {
+      regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:default\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+(\w+)/,
+      name: m => m[1],
+    },
+    { regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:struct|enum|trait|union|mod)\s+(\w+)/, name: m => m[1] },
+    { regex: /^\s*(?:unsafe\s+)?impl(?:<[^>]*>)?\s+(?:[\w:<>, ]+\s+for\s+)?([\w:]+)/, name: m => m[1] },
+    { regex: /^\s*macro_rules!\s*(\w+)/, name: m => m[1] },
+  ]),
+};
+
+const JAVA_STRATEGY = {
+  separator: '.',
+  attachPattern: /^\s*(\/\/|\/\*|\*|@)/,
+  findBoundaries: declarationFinder([
+    {
+      regex: /^\s*(?:(?:public|private|protected|static|final|abstract|sealed|non-sealed|strictfp)\s+)*(?:class|interface|enum|record|@interface)\s+(\w+)/,
+      name: m => m[1],
+    },
+    {
+      // Methods and constructors: modifiers, optional generics and return type, then name(
+      regex: /^\s+(?:(?:public|private|protected|static|final|abstract|synchronized|native|default|strictfp)\s+)*(?:<[^>]+>\s+)?(?:[\w<>\[\],.?]+(?:\s*<[^()]*>)?\s+)?(\w+)\s*\([^;]*$/,
+      name: m => m[1],
+    },
+  ]),
+};
+
+const MARKDOWN_STRATEGY = {
+  separator: ' > ',
+  attachPattern: null,
+  findBoundaries: findMarkdownHeadings,
+};
+
+const RST_STRATEGY = {
+  separator: ' > ',
+  attachPattern: null,
+  findBoundaries: findRstHeadings,
+};
+
+/**
+ * Chunking strategy per file extension
+ */
+const STRATEGIES = {
+  '.js': JS_TS_STRATEGY,
+  '.jsx': JS_TS_STRATEGY,
+  '.mjs': JS_TS_STRATEGY,
+  '.cjs': JS_TS_STRATEGY,
+  '.ts': JS_TS_STRATEGY,
+  '.tsx': JS_TS_STRATEGY,
+  '.py': PYTHON_STRATEGY,
+  '.pyw': PYTHON_STRATEGY,
+  '.go': GO_STRATEGY,
+  '.rs': RUST_STRATEGY,
+  '.java': JAVA_STRATEGY,
+  '.md': MARKDOWN_STRATEGY,
+  '.mdx': MARKDOWN_STRATEGY,
+  '.rst': RST_STRATEGY,
+};
+
+/**
+ * Get the chunking strategy for a file extension (null = use the line window)
+ */
+export function getChunkingStrategy(extension) {
+  return STRATEGIES[extension?.toLowerCase()] || null;
+}
+
+/**
+ * Split a line range into overlapping windows of roughly maxWords words
+ * Windows always hold whole lines; returns [{ start, end }] with 0-based start and exclusive end
+ */
+export function splitIntoWindows(lineWords, start, end, maxWords, overlapWords) {
+  const windows = [];
+  let from = start;
+
+  while (from < end) {
+    // Take lines until the window reaches maxWords words (always at least one line)
+    let to = from;
+    let words = 0;
+    while (to < end && (to === from || words + lineWords[to] <= maxWords)) {
+      words += lineWords[to];
+      to++;
+    }
+
+    windows.push({ start: from, end: to });
+
+    if (to >= end) {
+      break;
+    }
+
+    // Step back over trailing lines until roughly overlapWords words are repeated
+    let next = to;
+    let overlap = 0;
+    while (next - 1 > from && overlap + lineWords[next - 1] <= overlapWords) {
+      overlap += lineWords[next - 1];
+      next--;
+    }
+    from = next;
+  }
+
+  return windows;
+}
+
+/**
+ * Sum words over a line range
+ */
+function sumWords(lineWords, start, end) {
+  let total = 0;
+  for (let i = start; i < end; i++) total += lineWords[i];
+  return total;
+}
+
+/**
+ * Combine symbol names for a chunk made of several top-level sections
+ */
+function joinSymbols(names) {
+  const unique = [...new Set(names.filter(Boolean))];
+  if (unique.length === 0) return null;
+  if (unique.length <= MAX_SYMBOL_NAMES) return unique.join(', ');
+  return `${unique.slice(0, MAX_SYMBOL_NAMES).join(', ')}, ...`;
+}
+
+/**
+ * Recursively split [start, end) at the outermost boundaries inside it
+ * head is the boundary that owns the range (null at file level); prefix is its qualified name
+ */
+function splitRange(lines, lineWords, boundaries, strategy, limits, start, end, head, prefix) {
+  const candidates = boundaries.filter(b =>
+    b.line >= start && b.line < end && b !== head && (!head || b.level > head.level)
+  );
+
+  if (candidates.length === 0) {
+    return splitIntoWindows(lineWords, start, end, limits.maxWords, limits.overlapWords)
+      .map(w => ({ ...w, symbol: prefix }));
+  }
+
+  // Cut at the outermost declarations, pulling attached comments/decorators along
+  const minLevel = Math.min(...candidates.map(b => b.level));
+  const cuts = [];
+  for (const boundary of candidates.filter(b => b.level === minLevel)) {
+    let line = boundary.line;
+    const floor = cuts.length > 0 ? cuts[cuts.length - 1].line + 1 : start;
+    while (line - 1 >= floor && strategy.attachPattern?.test(lines[line - 1])) {
+      line--;
+    }
+    cuts.push({ line, boundary });
+  }
+
+  // Pieces: leading preamble (owned by the enclosing symbol), then one piece per declaration
+  const pieces = [];
+  if (cuts[0].line > start) {
+    pieces.push({ start, end: cuts[0].line, boundary: null, symbol: prefix });
+  }
+  cuts.forEach((cut, i) => {
+    const symbol = prefix ? `${prefix}${strategy.separator}${cut.boundary.name}` : cut.boundary.name;
+    pieces.push({ start: cut.line, end: cuts[i + 1]?.line ?? end, boundary: cut.boundary, symbol });
+  });
+
+  // Oversized pieces are split further; consecutive small pieces are packed together
+  const sections = [];
+  let group = null;
+
+  const flush = () => {
+    if (group && group.words > 0) {
+      // A single piece keeps its own name; packed siblings are named by their enclosing symbol
+      const symbol = group.symbols.length === 1 ? group.symbols[0] : prefix || joinSymbols(group.symbols);
+      sections.push({ start: group.start, end: group.end, symbol });
+    }
+    group = null;
+  };
+
+  for (const piece of pieces) {
+    const words = sumWords(lineWords, piece.start, piece.end);
+
+    if (words > limits.maxWords) {
+      flush();
+      sections.push(...(piece.boundary
+        ? splitRange(lines, lineWords, boundaries, strategy, limits, piece.start, piece.end, piece.boundary, piece.symbol)
+        : splitIntoWindows(lineWords, piece.start, piece.end, limits.maxWords, limits.overlapWords)
+          .map(w => ({ ...w, symbol: piece.symbol }))));
+      continue;
+    }
+
+    if (group && group.words + words > limits.maxWords) {
+      flush();
+    }
+    if (!group) {
+      group = { start: piece.start, end: piece.end, words: 0, symbols: [] };
+    }
+    group.end = piece.end;
+    group.words += words;
+    group.symbols.push(piece.symbol);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Split a file's lines into sections that follow its declarations or headings
+ * Returns [{ start, end, symbol }] with 0-based start, exclusive end and the enclosing symbol name
+ */
+export function splitBySymbols(lines, lineWords, strategy, limits) {
+  const boundaries = strategy.findBoundaries(lines);
+  return splitRange(lines, lineWords, boundaries, strategy, limits, 0, lines.length, null, null);
+}
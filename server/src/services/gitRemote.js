@@ -0,0 +1,306 @@
+/**
+ * Plain git source for any other remote (HTTPS, SSH, file:// or a local path)
+ * The requested commit is fetched into a temporary bare repository and files are read
+ * with git plumbing commands, so no working tree is checked out
+ */
+import { spawn } from 'child_process';
+import { realpathSync } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { isAbsolute, join, resolve, sep } from 'path';
+import { config as serverConfig } from '../config/index.js';
+import { isIgnoreFile } from './ignoreRules.js';
+import { isIndexablePath, buildIgnoreRules, tooLargeReason } from './sourceFiles.js';
+import { toSafeName } from './projectKeys.js';
+
+/**
+ * Whether a ref is a valid branch, tag or commit name (the rules of `git check-ref-format`,
+ * which commit SHAs meet as well)
+ * Refs starting with '-' are rejected so git can never read them as options
+ */
+export function isValidGitRef(ref) {
+  if (typeof ref !== 'string' || !ref || ref.startsWith('-') || ref === '@') {
+    return false;
+  }
+  return !(
+    /[\x00-\x20\x7f~^:?*[\\]/.test(ref)
+    || ref.includes('..')
+    || ref.includes('@{')
+    || ref.includes('//')
+    || ref.startsWith('/')
+    || ref.endsWith('/')
+    || ref.endsWith('.')
+    || ref.split('/').some(part => part.startsWith('.') || part.endsWith('.lock'))
+  );
+}
+
+/**
+ * Real path of a local repository, which must be inside one of LOCAL_INDEX_ROOTS
+ * (as for POST /index/path), so clients cannot index any repository on the server's disk.
+ * Relative paths are resolved against the first root
+ */
+function resolveLocalRepository(path) {
+  const roots = serverConfig.localIndexRoots;
+  if (roots.length === 0) {
+    throw new Error('Local git repositories are disabled (set LOCAL_INDEX_ROOTS on the server)');
+  }
+
+  let repository;
+  try {
+    repository = realpathSync(isAbsolute(path) ? path : resolve(roots[0], path));
+  } catch {
+    throw new Error(`Repository not found: ${path}`);
+  }
+
+  for (const root of roots) {
+    let realRoot;
+    try {
+      realRoot = realpathSync(root);
+    } catch {
+      continue;
+    }
+    if (repository === realRoot || repository.startsWith(realRoot + sep)) {
+      return repository;
+    }
+  }
+  throw new Error(`Repository is outside the allowed roots: ${path}`);
+}
+
+/**
+ * Parse a git remote (scp-style "git@host:path", ssh://, https://, file:// or a local path)
+ * A ref can be appended as a fragment: "https://git.example.com/team/app.git#v1.2"
+ * Local paths and file:// remotes must be inside LOCAL_INDEX_ROOTS
+ */
+export function parseGitRemoteUrl(url) {
+  const [location, fragment] = url.split('#');
+
+  if (!location || location.startsWith('-')) {
+    throw new Error('Invalid git remote URL');
+  }
+
+  const ref = fragment ? decodeURIComponent(fragment) : undefined;
+  if (ref !== undefined && !isValidGitRef(ref)) {
+    throw new Error(`Invalid ref: ${ref}`);
+  }
+
+  // host:path without a scheme is scp-style SSH (a local path has no colon before the first slash)
+  const scpMatch = location.match(/^(?:[^@\/]+@)?([^:\/]+):(.+)$/);
+  let host = '';
+  let path;
+  let cloneUrl = location;
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(location)) {
+    const parsed = new URL(location);
+    host = parsed.hostname;
+    path = decodeURIComponent(parsed.pathname);
+    if (parsed.protocol === 'file:') {
+      cloneUrl = resolveLocalRepository(path);
+    }
+  } else if (scpMatch) {
+    host = scpMatch[1];
+    path = scpMatch[2];
+  } else {
+    path = location;
+    cloneUrl = resolveLocalRepository(path);
+  }
+
+  const segments = path.split('/').filter(Boolean);
+  if (segments.length === 0) {
+    throw new Error('Invalid git remote URL');
+  }
+
+  const repo = segments[segments.length - 1].replace(/\.git$/, '');
+  const owner = segments.length > 1 ? segments[segments.length - 2] : host || 'local';
+
+  return {
+    type: 'git',
+    host,
+    path: segments.join('/'),
+    owner: owner.replace(/[^a-zA-Z0-9._-]+/g, '-'),
+    repo: toSafeName(repo),
+    ref,
+    cloneUrl,
+    webUrl: /^https?:\/\//.test(location) ? location.replace(/\.git$/, '') : null,
+  };
+}
+
+/**
+ * Run a git command and resolve with its stdout as a Buffer
+ * Prompts are disabled so a remote that needs credentials fails instead of hanging
+ */
+function runGit(args, { cwd, input, timeout }) {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      cwd,
+      env: {
+        ...process.env,
+        GIT_TERMINAL_PROMPT: '0',
+        // Remote helpers such as ext:: could run commands
+        GIT_ALLOW_PROTOCOL: 'http:https:ssh:git:file',
+        GIT_SSH_COMMAND: process.env.GIT_SSH_COMMAND || 'ssh -o BatchMode=yes',
+      },
+    });
+
+    const stdout = [];
+    const stderr = [];
+    const timeoutId = setTimeout(() => child.kill(), timeout);
+
+    child.stdout.on('data', (chunk) => stdout.push(chunk));
+    child.stderr.on('data', (chunk) => stderr.push(chunk));
+    child.on('error', (error) => {
+      clearTimeout(timeoutId);
+      reject(error.code === 'ENOENT' ? new Error('git is not installed on the server') : error);
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(timeoutId);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else if (signal) {
+        reject(new Error(`git ${args[0]} timed out after ${timeout}ms`));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf-8').trim().split('\n').pop();
+        reject(new Error(`git ${args[0]} failed: ${message || `exit code ${code}`}`));
+      }
+    });
+
+    if (input !== undefined) {
+      child.stdin.end(input);
+    }
+  });
+}
+
+/**
+ * Get the branch HEAD points to on the remote
+ */
+async function getDefaultBranch(remote, git) {
+  const output = (await git(['ls-remote', '--symref', '--end-of-options', remote.cloneUrl, 'HEAD'])).toString('utf-8');
+  const match = output.match(/^ref: refs\/heads\/(\S+)\tHEAD$/m);
+  return match ? match[1] : 'HEAD';
+}
+
+/**
+ * Fetch a ref into the temporary repository and return its commit SHA
+ * Branches and tags are fetched shallow; a commit SHA that the server will not serve
+ * directly falls back to fetching all refs. Arguments from the request follow --end-of-options
+ * so git never reads them as options
+ */
+async function fetchCommit(remote, ref, git) {
+  try {
+    await git(['fetch', '--quiet', '--no-tags', '--depth', '1', '--end-of-options', remote.cloneUrl, ref]);
+    return (await git(['rev-parse', '--verify', '--end-of-options', 'FETCH_HEAD^{commit}'])).toString('utf-8').trim();
+  } catch (error) {
+    if (!/^[0-9a-f]{7,40}$/i.test(ref)) {
+      throw new Error(`Branch, tag or commit not found in ${remote.path}: ${ref} (${error.message})`);
+    }
+  }
+
+  await git(['fetch', '--quiet', '--end-of-options', remote.cloneUrl, '+refs/heads/*:refs/heads/*', '+refs/tags/*:refs/tags/*']);
+  try {
+    return (await git(['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`])).toString('utf-8').trim();
+  } catch {
+    throw new Error(`Branch, tag or commit not found in ${remote.path}: ${ref}`);
+  }
+}
+
+/**
+ * List regular files of a commit as { path, sha, size }
+ * Symlinks and submodules are left out
+ */
+async function listTree(commitSha, git) {
+  const output = (await git(['ls-tree', '-r', '-l', '-z', '--end-of-options', commitSha])).toString('utf-8');
+  const entries = [];
+
+  for (const line of output.split('\0')) {
+    // "<mode> <type> <sha> <size>\t<path>"
+    const match = line.match(/^(\d+) (\w+) ([0-9a-f]+)\s+(\d+)\t(.+)$/s);
+    if (match && match[2] === 'blob' && match[1] !== '120000') {
+      entries.push({ path: match[5], sha: match[3], size: parseInt(match[4]) });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Read blob contents in one `git cat-file --batch` call
+ * @returns {Promise<Map<string, Buffer>>} Content by blob SHA
+ */
+async function readBlobs(shas, git) {
+  const contents = new Map();
+  if (shas.length === 0) return contents;
+
+  const output = await git(['cat-file', '--batch'], { input: shas.join('\n') + '\n' });
+  let offset = 0;
+
+  // Each object is "<sha> <type> <size>\n<content>\n"
+  while (offset < output.length) {
+    const headerEnd = output.indexOf(10, offset);
+    const [sha, , size] = output.toString('utf-8', offset, headerEnd).split(' ');
+    const start = headerEnd + 1;
+    const end = start + parseInt(size);
+    contents.set(sha, output.subarray(start, end));
+    offset = end + 1;
+  }
+
+  return contents;
+}
+
+/**
+ * List the indexable files of any git remote, with their content
+ * Lists options.ref or the remote's default branch, returning the resolved commit SHA
+ */
+export async function listRepositoryFiles(remote, config, options = {}) {
+  const dir = await mkdtemp(join(tmpdir(), 'productwiki-git-'));
+  const git = (args, gitOptions = {}) => runGit(args, { cwd: dir, timeout: config.gitTimeout, ...gitOptions });
+
+  try {
+    await git(['init', '--quiet', '--bare']);
+
+    const ref = options.ref || await getDefaultBranch(remote, git);
+    if (!isValidGitRef(ref)) {
+      throw new Error(`Invalid ref: ${ref}`);
+    }
+    const commitSha = await fetchCommit(remote, ref, git);
+    console.log(`[Git] Ref: ${ref} (${commitSha.slice(0, 7)})`);
+
+    const tree = await listTree(commitSha, git);
+    console.log(`[Git] Found ${tree.length} files in tree`);
+
+    const ignoreEntries = tree.filter(entry => isIgnoreFile(entry.path));
+    const ignoreContents = await readBlobs(ignoreEntries.map(entry => entry.sha), git);
+    const ignoreRules = buildIgnoreRules(ignoreEntries.map(entry => ({
+      path: entry.path,
+      content: ignoreContents.get(entry.sha).toString('utf-8'),
+    })));
+
+    const matching = [];
+    const skipped = [];
+    for (const entry of tree) {
+      if (!isIndexablePath(entry.path, config, ignoreRules)) continue;
+
+      if (entry.size > config.maxFileSize) {
+        skipped.push({ path: entry.path, reason: tooLargeReason(entry.size, config) });
+        continue;
+      }
+      matching.push(entry);
+    }
+
+    const contents = await readBlobs([...new Set(matching.map(entry => entry.sha))], git);
+    const files = [];
+    for (const entry of matching) {
+      const content = contents.get(entry.sha);
+
+      // Skip binary files (check for null bytes)
+      if (content.includes(0)) {
+        skipped.push({ path: entry.path, reason: 'Binary file' });
+        continue;
+      }
+      files.push({ ...entry, content: content.toString('utf-8') });
+    }
+
+    console.log(`[Git] ${files.length} files match filter criteria, ${skipped.length} skipped`);
+    return { files, ref, commitSha, skipped };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Gitea / Forgejo source (codeberg.org, gitea.com and self-hosted instances)
+ * Files are read from the repository archive of the resolved commit; config.giteaToken
+ * enables private repositories
+ */
+import { readArchiveFiles, resolveRefPrefix, sourceFetch } from './sourceFiles.js';
+
+const TOKEN_HINT = 'Set GITEA_TOKEN on the server to index private repositories.';
+
+/**
+ * Parse the path of a Gitea URL into a remote
+ * The ref comes from /src/branch/<ref>, /src/tag/<ref>, /src/commit/<sha> or /commit/<sha> URLs
+ *
+ * @param {string} host - Instance host name
+ * @param {string[]} segments - URL path segments
+ */
+export function parseGiteaUrl(host, segments) {
+  if (segments.length < 2) {
+    throw new Error('Invalid Gitea URL format');
+  }
+
+  const [owner, name, route, ...rest] = segments;
+  const repo = name.replace(/\.git$/, '');
+
+  let ref;
+  if (route === 'src' && ['branch', 'tag', 'commit'].includes(rest[0]) && rest.length > 1) {
+    ref = rest.slice(1).join('/');
+  } else if (route === 'commit' && rest.length > 0) {
+    ref = rest[0];
+  }
+
+  return {
+    type: 'gitea',
+    host,
+    path: `${owner}/${repo}`,
+    owner,
+    repo,
+    ref,
+    webUrl: `https://${host}/${owner}/${repo}`,
+  };
+}
+
+function getApiBase(remote) {
+  return `https://${remote.host}/api/v1/repos/${remote.path}`;
+}
+
+function giteaFetch(url, token, options = {}) {
+  return sourceFetch(url, {
+    label: 'Gitea',
+    headers: token ? { Authorization: `token ${token}` } : {},
+    tokenHint: TOKEN_HINT,
+    ...options,
+  });
+}
+
+/**
+ * Resolve a branch, tag or commit SHA to a commit SHA (null if it does not exist)
+ */
+async function getCommitSha(remote, ref, token) {
+  const url = `${getApiBase(remote)}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false`;
+  const response = await giteaFetch(url, token, { allowNotFound: true });
+  if (!response) return null;
+
+  const commits = await response.json();
+  return commits[0]?.sha || null;
+}
+
+/**
+ * List the indexable files of a Gitea repository, with their content
+ * Lists options.ref or the default branch, returning the resolved commit SHA
+ */
+export async function listRepositoryFiles(remote, config, options = {}) {
+  const token = config.giteaToken;
+
+  const repository = await (await giteaFetch(getApiBase(remote), token)).json();
+  const { ref, commitSha } = await resolveRefPrefix(
+    options.ref || repository.default_branch,
+    (candidate) => getCommitSha(remote, candidate, token),
+    remote.path
+  );
+  console.log(`[Gitea] Ref: ${ref} (${commitSha.slice(0, 7)})`);
+
+  const response = await giteaFetch(`${getApiBase(remote)}/archive/${commitSha}.tar.gz`, token);
+  const { files, skipped } = await readArchiveFiles(response.body, config);
+  console.log(`[Gitea] ${files.length} files match filter criteria, ${skipped.length} skipped`);
+
+  return { files, ref, commitSha, skipped };
+}
@@ -1,12 +1,24 @@
 /**
  * GitHub API service for fetching repository contents
- * Uses the public GitHub API (no authentication required for public repos)
+ * Public repos work anonymously; a personal access token (options.githubToken) enables
+ * private repos and raises the API rate limit
  */
+import { isIgnoreFile } from './ignoreRules.js';
+import {
+  isIndexablePath,
+  buildIgnoreRules,
+  tooLargeReason,
+  getExtension,
+  readArchiveFiles,
+  resolveRefPrefix,
+} from './sourceFiles.js';
 
 const GITHUB_API_BASE = 'https://api.github.com';
 
 /**
- * Parse GitHub URL to extract owner and repo
+ * Parse GitHub URL to extract owner, repo and (optionally) ref
+ * The ref comes from /tree/<ref> or /commit/<sha> URLs; for /tree/ URLs it may still
+ * include a trailing file path, which is trimmed when the ref is resolved
  */
 export function parseGitHubUrl(url) {
   const patterns = [
@@ -17,9 +29,11 @@ export function parseGitHubUrl(url) {
   for (const pattern of patterns) {
     const match = url.match(pattern);
     if (match) {
+      const refMatch = url.split(/[?#]/)[0].match(/github\.com\/[^\/]+\/[^\/]+\/(?:tree|commit)\/(.+?)\/?$/);
       return {
         owner: match[1],
         repo: match[2].replace(/\.git$/, ''),
+        ref: refMatch ? decodeURIComponent(refMatch[1]) : undefined,
       };
     }
   }
@@ -27,35 +41,70 @@ export function parseGitHubUrl(url) {
   throw new Error('Invalid GitHub URL format');
 }
 
+/**
+ * Authorization header for a GitHub token (empty when anonymous)
+ */
+function getAuthHeaders(token) {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Build an error for a 403 response (rate limit or missing token scope)
+ */
+function forbiddenError(response, token) {
+  const remaining = response.headers.get('X-RateLimit-Remaining');
+  const reset = response.headers.get('X-RateLimit-Reset');
+  if (remaining === '0') {
+    const resetDate = new Date(parseInt(reset) * 1000);
+    const hint = token ? '' : ' Add a GitHub token in Settings for a higher limit.';
+    return new Error(`GitHub API rate limit exceeded. Resets at ${resetDate.toISOString()}.${hint}`);
+  }
+
+  if (token) {
+    const accepted = response.headers.get('X-Accepted-OAuth-Scopes');
+    const granted = response.headers.get('X-OAuth-Scopes');
+    if (accepted) {
+      return new Error(`GitHub token lacks the required scope (needs: ${accepted}; token has: ${granted || 'none'})`);
+    }
+    return new Error(`GitHub token does not have permission for this request: ${response.statusText}`);
+  }
+
+  return new Error(`GitHub API forbidden: ${response.statusText}`);
+}
+
 /**
  * Fetch with GitHub API headers
+ * With allowNotFound, 404/422 responses resolve to null instead of throwing
  */
-async function githubFetch(url, timeout = 300000) {
+async function githubFetch(url, token, { accept = 'application/vnd.github.v3+json', allowNotFound = false, timeout = 300000 } = {}) {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
   try {
     const response = await fetch(url, {
       headers: {
-        Accept: 'application/vnd.github.v3+json',
+        Accept: accept,
         'User-Agent': 'ProductWiki/1.0',
+        ...getAuthHeaders(token),
       },
       signal: controller.signal,
     });
     clearTimeout(timeoutId);
 
     if (!response.ok) {
+      if (allowNotFound && (response.status === 404 || response.status === 422)) {
+        return null;
+      }
+      if (response.status === 401) {
+        throw new Error('GitHub token is invalid or expired. Update it in Settings.');
+      }
       if (response.status === 404) {
-        throw new Error(`Repository not found or is private: ${url}`);
+        throw new Error(token
+          ? `Repository not found, or the GitHub token cannot access it: ${url}. Private repositories need a token with the "repo" scope (classic) or "Contents: read" access (fine-grained).`
+          : `Repository not found or is private: ${url}. Add a GitHub token in Settings to index private repositories.`);
       }
       if (response.status === 403) {
-        const remaining = response.headers.get('X-RateLimit-Remaining');
-        const reset = response.headers.get('X-RateLimit-Reset');
-        if (remaining === '0') {
-          const resetDate = new Date(parseInt(reset) * 1000);
-          throw new Error(`GitHub API rate limit exceeded. Resets at ${resetDate.toISOString()}`);
-        }
-        throw new Error(`GitHub API forbidden: ${response.statusText}`);
+        throw forbiddenError(response, token);
       }
       throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
     }
@@ -73,19 +122,29 @@ async function githubFetch(url, timeout = 300000) {
 /**
  * Get the default branch for a repository
  */
-async function getDefaultBranch(owner, repo) {
+async function getDefaultBranch(owner, repo, token) {
   const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}`;
-  const response = await githubFetch(url);
+  const response = await githubFetch(url, token);
   const data = await response.json();
   return data.default_branch;
 }
 
+/**
+ * Resolve a branch, tag or commit SHA to a commit SHA (null if it does not exist)
+ */
+async function getCommitSha(owner, repo, ref, token) {
+  const path = ref.split('/').map(encodeURIComponent).join('/');
+  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits/${path}`;
+  const response = await githubFetch(url, token, { accept: 'application/vnd.github.sha', allowNotFound: true });
+  return response ? (await response.text()).trim() : null;
+}
+
 /**
  * Recursively fetch repository tree
  */
-async function getRepositoryTree(owner, repo, branch) {
-  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`;
-  const response = await githubFetch(url);
+async function getRepositoryTree(owner, repo, ref, token) {
+  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${ref}?recursive=1`;
+  const response = await githubFetch(url, token);
   const data = await response.json();
 
   if (data.truncated) {
@@ -98,15 +157,19 @@ async function getRepositoryTree(owner, repo, branch) {
 /**
  * Fetch raw file content from GitHub
  */
-async function fetchFileContent(owner, repo, path, branch) {
-  const url = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path}`;
+async function fetchFileContent(owner, repo, path, ref, token) {
+  const url = `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${path}`;
   const response = await fetch(url, {
     headers: {
       'User-Agent': 'ProductWiki/1.0',
+      ...getAuthHeaders(token),
     },
   });
 
   if (!response.ok) {
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`GitHub token was rejected fetching ${path}: ${response.status}`);
+    }
     throw new Error(`Failed to fetch ${path}: ${response.status}`);
   }
 
@@ -114,124 +177,149 @@ async function fetchFileContent(owner, repo, path, branch) {
 }
 
 /**
- * Check if file extension is supported
+ * List indexable files from the git tree API (content is fetched later, per file)
+ * Ignore files are downloaded up front so their rules apply to the listing
  */
-function isSupportedExtension(path, supportedExtensions) {
-  const ext = path.includes('.') ? '.' + path.split('.').pop().toLowerCase() : '';
+async function listTreeFiles(owner, repo, commitSha, config, token) {
+  const tree = await getRepositoryTree(owner, repo, commitSha, token);
+  console.log(`[GitHub] Found ${tree.length} items in tree`);
 
-  // Special cases for files without typical extensions
-  const baseName = path.split('/').pop().toLowerCase();
-  if (baseName.includes('dockerfile') || baseName.includes('makefile')) {
-    return true;
+  const ignoreFiles = await Promise.all(
+    tree
+      .filter(item => item.type === 'blob' && isIgnoreFile(item.path))
+      .map(async (item) => ({
+        path: item.path,
+        content: await fetchFileContent(owner, repo, item.path, commitSha, token).catch(() => ''),
+      }))
+  );
+  const ignoreRules = buildIgnoreRules(ignoreFiles);
+
+  const files = [];
+  const skipped = [];
+
+  for (const item of tree) {
+    if (item.type !== 'blob' || !isIndexablePath(item.path, config, ignoreRules)) continue;
+
+    if (item.size > config.maxFileSize) {
+      skipped.push({ path: item.path, reason: tooLargeReason(item.size, config) });
+      continue;
+    }
+    files.push({ path: item.path, sha: item.sha, size: item.size });
   }
 
-  return supportedExtensions.includes(ext);
+  return { files, skipped };
 }
 
 /**
- * Check if path should be excluded
+ * List indexable files, with their content, from a single download of the repository tarball
+ * Entries are filtered while streaming so only matching files are held in memory
  */
-function shouldExcludePath(path, excludedDirs, excludedFiles, excludedPatterns) {
-  const parts = path.split('/');
-  const fileName = parts[parts.length - 1];
-
-  // Check excluded directories
-  for (const dir of excludedDirs) {
-    if (parts.includes(dir)) {
-      return true;
-    }
-  }
-
-  // Check excluded files
-  if (excludedFiles.includes(fileName)) {
-    return true;
-  }
+async function listArchiveFiles(owner, repo, commitSha, config, token) {
+  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/tarball/${commitSha}`;
+  const response = await githubFetch(url, token);
 
-  // Check excluded patterns
-  for (const pattern of excludedPatterns) {
-    if (pattern.test(path)) {
-      return true;
-    }
-  }
+  // Entries are nested under "<owner>-<repo>-<sha>/"
+  const { files, skipped } = await readArchiveFiles(response.body, config);
 
-  return false;
+  console.log(`[GitHub] Read ${files.length} files from tarball`);
+  return { files, skipped };
 }
 
 /**
- * Fetch all files from a public GitHub repository using the API
+ * List the indexable files of a repository
+ * Lists options.ref (branch, tag or commit) or the default branch, returning the resolved commit SHA.
+ * Each entry carries the git blob SHA, which changes whenever the file content changes.
+ *
+ * With the 'tarball' fetch strategy (options.fetchStrategy or config.githubFetchStrategy) the
+ * archive is downloaded here and entries already include their content; with 'raw' only the
+ * tree is listed. skipped holds { path, reason } for matching files that cannot be indexed
  */
-export async function fetchRepositoryFiles(owner, repo, config) {
-  console.log(`[GitHub] Fetching repository ${owner}/${repo}...`);
-
-  // Get the default branch
-  const branch = await getDefaultBranch(owner, repo);
-  console.log(`[GitHub] Default branch: ${branch}`);
-
-  // Get the full tree
-  const tree = await getRepositoryTree(owner, repo, branch);
-  console.log(`[GitHub] Found ${tree.length} items in tree`);
-
-  // Filter to supported files
-  const files = tree.filter(item => {
-    if (item.type !== 'blob') return false;
-    if (item.size > config.maxFileSize) return false;
-    if (!isSupportedExtension(item.path, config.supportedExtensions)) return false;
-    if (shouldExcludePath(item.path, config.excludedDirs, config.excludedFiles, config.excludedPatterns)) return false;
-    return true;
-  });
+export async function listRepositoryFiles(owner, repo, config, options = {}) {
+  const token = options.githubToken;
+  const strategy = options.fetchStrategy || config.githubFetchStrategy;
+
+  // Use the requested ref, or the default branch (this also checks the repo is accessible)
+  const defaultBranch = await getDefaultBranch(owner, repo, token);
+  const { ref, commitSha } = await resolveRefPrefix(
+    options.ref || defaultBranch,
+    (candidate) => getCommitSha(owner, repo, candidate, token),
+    `${owner}/${repo}`
+  );
+  console.log(`[GitHub] Ref: ${ref} (${commitSha.slice(0, 7)}), fetch strategy: ${strategy}`);
+
+  const { files, skipped } = strategy === 'tarball'
+    ? await listArchiveFiles(owner, repo, commitSha, config, token)
+    : await listTreeFiles(owner, repo, commitSha, config, token);
+
+  console.log(`[GitHub] ${files.length} files match filter criteria, ${skipped.length} skipped`);
+
+  return { files, ref, commitSha, skipped };
+}
 
-  console.log(`[GitHub] ${files.length} files match filter criteria`);
+/**
+ * Fetch content for a list of files from listRepositoryFiles
+ * ref should be the commit SHA so content matches the listed tree. Files listed from the
+ * tarball already have their content; the rest are downloaded one by one.
+ * Files that fail to download or look binary are returned in skipped with the reason
+ */
+export async function fetchFileContents(owner, repo, ref, files, options = {}) {
+  const results = [];
+  const skipped = [];
+  const pending = [];
+
+  for (const file of files) {
+    if (file.content !== undefined) {
+      results.push({ path: file.path, sha: file.sha, content: file.content, extension: getExtension(file.path) });
+    } else {
+      pending.push(file);
+    }
+  }
 
-  // Fetch content for each file (with concurrency limit)
+  // Fetch content for each remaining file (with concurrency limit)
   const CONCURRENCY = 10;
-  const results = [];
   let completed = 0;
 
-  for (let i = 0; i < files.length; i += CONCURRENCY) {
-    const batch = files.slice(i, i + CONCURRENCY);
-    const batchResults = await Promise.all(
+  for (let i = 0; i < pending.length; i += CONCURRENCY) {
+    const batch = pending.slice(i, i + CONCURRENCY);
+    await Promise.all(
       batch.map(async (file) => {
         try {
-          const content = await fetchFileContent(owner, repo, file.path, branch);
+          const content = await fetchFileContent(owner, repo, file.path, ref, options.githubToken);
 
           // Skip binary files (check for null bytes)
           if (content.includes('\0')) {
-            return null;
+            skipped.push({ path: file.path, reason: 'Binary file' });
+            return;
           }
 
-          return {
-            path: file.path,
-            content,
-            extension: file.path.includes('.') ? '.' + file.path.split('.').pop().toLowerCase() : '',
-          };
+          results.push({ path: file.path, sha: file.sha, content, extension: getExtension(file.path) });
         } catch (error) {
           console.warn(`[GitHub] Failed to fetch ${file.path}: ${error.message}`);
-          return null;
+          skipped.push({ path: file.path, reason: `Download failed: ${error.message}` });
         }
       })
     );
 
-    results.push(...batchResults.filter(Boolean));
     completed += batch.length;
 
-    if (completed % 50 === 0 || completed === files.length) {
-      console.log(`[GitHub] Fetched ${completed}/${files.length} files`);
+    if (completed % 50 === 0 || completed === pending.length) {
+      console.log(`[GitHub] Fetched ${completed}/${pending.length} files`);
     }
   }
 
   console.log(`[GitHub] Successfully fetched ${results.length} files`);
-  return { files: results, branch };
+  return { files: results, skipped };
 }
 
 /**
  * Fetch README content from repository
  */
-export async function fetchReadmeContent(owner, repo, branch) {
+export async function fetchReadmeContent(owner, repo, branch, options = {}) {
   const readmeNames = ['README.md', 'readme.md', 'README.MD', 'README', 'readme.txt', 'README.txt'];
 
   for (const name of readmeNames) {
     try {
-      const content = await fetchFileContent(owner, repo, name, branch);
+      const content = await fetchFileContent(owner, repo, name, branch, options.githubToken);
       return content;
     } catch {
       // Try next name
@@ -240,20 +328,3 @@ export async function fetchReadmeContent(owner, repo, branch) {
 
   return 'No README found.';
 }
-
-/**
- * Process a repository: fetch all files via GitHub API
- */
-export async function processRepository(url, config) {
-  const { owner, repo } = parseGitHubUrl(url);
-
-  const { files, branch } = await fetchRepositoryFiles(owner, repo, config);
-
-  return {
-    owner,
-    repo,
-    url,
-    files,
-    branch,
-  };
-}
@@ -0,0 +1,86 @@
+/**
+ * GitLab source (gitlab.com and self-hosted instances)
+ * Files are read from the repository archive of the resolved commit; config.gitlabToken
+ * enables private projects
+ */
+import { readArchiveFiles, resolveRefPrefix, sourceFetch } from './sourceFiles.js';
+
+const TOKEN_HINT = 'Set GITLAB_TOKEN on the server to index private projects.';
+
+/**
+ * Parse the path of a GitLab URL into a remote
+ * Projects can be nested in subgroups ("group/subgroup/project"); the ref comes from
+ * /-/tree/<ref> or /-/commit/<sha> URLs
+ *
+ * @param {string} host - Instance host name
+ * @param {string[]} segments - URL path segments
+ */
+export function parseGitLabUrl(host, segments) {
+  const separator = segments.indexOf('-');
+  const projectSegments = separator === -1 ? segments : segments.slice(0, separator);
+  const route = separator === -1 ? [] : segments.slice(separator + 1);
+
+  if (projectSegments.length < 2) {
+    throw new Error('Invalid GitLab URL format');
+  }
+
+  const path = projectSegments.join('/').replace(/\.git$/, '');
+  const ref = (route[0] === 'tree' || route[0] === 'commit') && route.length > 1
+    ? route.slice(1).join('/')
+    : undefined;
+
+  return {
+    type: 'gitlab',
+    host,
+    path,
+    // Subgroups are folded into the owner so projects keep a single owner/repo pair
+    owner: projectSegments.slice(0, -1).join('-'),
+    repo: path.split('/').pop(),
+    ref,
+    webUrl: `https://${host}/${path}`,
+  };
+}
+
+function getApiBase(remote) {
+  return `https://${remote.host}/api/v4/projects/${encodeURIComponent(remote.path)}`;
+}
+
+function gitlabFetch(url, token, options = {}) {
+  return sourceFetch(url, {
+    label: 'GitLab',
+    headers: token ? { 'PRIVATE-TOKEN': token } : {},
+    tokenHint: TOKEN_HINT,
+    ...options,
+  });
+}
+
+/**
+ * Resolve a branch, tag or commit SHA to a commit SHA (null if it does not exist)
+ */
+async function getCommitSha(remote, ref, token) {
+  const url = `${getApiBase(remote)}/repository/commits/${encodeURIComponent(ref)}`;
+  const response = await gitlabFetch(url, token, { allowNotFound: true });
+  return response ? (await response.json()).id : null;
+}
+
+/**
+ * List the indexable files of a GitLab project, with their content
+ * Lists options.ref or the default branch, returning the resolved commit SHA
+ */
+export async function listRepositoryFiles(remote, config, options = {}) {
+  const token = config.gitlabToken;
+
+  const project = await (await gitlabFetch(getApiBase(remote), token)).json();
+  const { ref, commitSha } = await resolveRefPrefix(
+    options.ref || project.default_branch,
+    (candidate) => getCommitSha(remote, candidate, token),
+    remote.path
+  );
+  console.log(`[GitLab] Ref: ${ref} (${commitSha.slice(0, 7)})`);
+
+  const response = await gitlabFetch(`${getApiBase(remote)}/repository/archive.tar.gz?sha=${commitSha}`, token);
+  const { files, skipped } = await readArchiveFiles(response.body, config);
+  console.log(`[GitLab] ${files.length} files match filter criteria, ${skipped.length} skipped`);
+
+  return { files, ref, commitSha, skipped };
+}
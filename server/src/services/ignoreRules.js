@@ -0,0 +1,206 @@
+/**
+ * gitignore-syntax rules from .gitignore files and the project's .productwikiignore
+ * Nested .gitignore files apply to their own directory, deeper files taking precedence.
+ * .productwikiignore has the final word: its negated ("!path") rules re-include paths ignored
+ * by .gitignore or excluded by the default config lists (excludedDirs, excludedFiles, excludedPatterns)
+ */
+
+export const GITIGNORE = '.gitignore';
+export const PRODUCTWIKIIGNORE = '.productwikiignore';
+
+/**
+ * Check whether a path is an ignore file
+ */
+export function isIgnoreFile(path) {
+  const name = path.split('/').pop();
+  return name === GITIGNORE || name === PRODUCTWIKIIGNORE;
+}
+
+/**
+ * Create an empty rule set; ignore files are added with addIgnoreFile
+ */
+export function createIgnoreRules() {
+  return { gitignore: [], productwikiignore: [] };
+}
+
+/**
+ * Check whether .productwikiignore re-includes anything, in which case ignored or excluded
+ * directories still have to be walked
+ */
+export function hasIncludeOverrides(ignoreRules) {
+  return Boolean(ignoreRules?.productwikiignore.some(rule => rule.negated));
+}
+
+/**
+ * Convert a gitignore glob to a regular expression source (without anchors)
+ * Also used for the path filters of retrieval queries
+ */
+export function globToRegex(glob) {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/';
+        const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atStart && atEnd) {
+          // "**/" matches zero or more directories, a trailing "**" matches everything inside
+          if (i + 2 === glob.length) {
+            source += '.*';
+          } else {
+            source += '(?:.*/)?';
+            i++;
+          }
+          i++;
+          continue;
+        }
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let range = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      if (range[0] === '!') range = '^' + range.slice(1);
+      source += `[${range}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Parse one line of an ignore file into a rule (null for blank lines and comments)
+ */
+function parseRule(line, base, source) {
+  // Trailing spaces are ignored unless escaped
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  let directoryOnly = false;
+  if (pattern.endsWith('/')) {
+    directoryOnly = true;
+    pattern = pattern.slice(0, -1);
+  }
+  if (!pattern) return null;
+
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory;
+  // otherwise it matches a name at any depth
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  const body = globToRegex(pattern);
+
+  return {
+    base,
+    source,
+    negated,
+    directoryOnly,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+  };
+}
+
+/**
+ * Add the rules of an ignore file
+ * @param {Object} ignoreRules - Rule set from createIgnoreRules
+ * @param {string} path - Path of the ignore file relative to the project root (e.g. "src/.gitignore")
+ * @param {string} content - File content
+ */
+export function addIgnoreFile(ignoreRules, path, content) {
+  const parts = path.split('/');
+  const source = parts.pop();
+  const base = parts.join('/');
+
+  const rules = content
+    .split(/\r?\n/)
+    .map(line => parseRule(line, base, source))
+    .filter(Boolean)
+    .map(rule => ({ ...rule, depth: parts.length }));
+
+  if (source === PRODUCTWIKIIGNORE) {
+    ignoreRules.productwikiignore = [...ignoreRules.productwikiignore, ...rules];
+  } else {
+    // Deeper files override shallower ones; the stable sort keeps line order within a file
+    ignoreRules.gitignore = [...ignoreRules.gitignore, ...rules].sort((a, b) => a.depth - b.depth);
+  }
+}
+
+/**
+ * Find the last rule matching a path (null if none match)
+ */
+function findMatchingRule(rules, path, isDirectory) {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !path.startsWith(rule.base + '/')) continue;
+
+    const relativePath = rule.base ? path.slice(rule.base.length + 1) : path;
+    if (rule.regex.test(relativePath)) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Evaluate one list of rules against a path and its parent directories
+ * As in git, a path is ignored when it or a parent directory is ignored
+ */
+function evaluateRules(rules, path, isDirectory) {
+  const state = { ignored: false, included: false };
+  if (rules.length === 0) return state;
+
+  const parts = path.split('/');
+  for (let i = 1; i <= parts.length; i++) {
+    const isLast = i === parts.length;
+    const rule = findMatchingRule(rules, parts.slice(0, i).join('/'), isLast ? isDirectory : true);
+    if (!rule) continue;
+
+    if (!rule.negated) {
+      return { ignored: true, included: false, source: rule.source };
+    }
+    state.included = true;
+  }
+
+  return state;
+}
+
+/**
+ * Evaluate the rules for a path
+ * included is set when a negated .productwikiignore rule matched the path or a parent directory;
+ * such paths are indexed even if .gitignore or the default exclusions would skip them
+ *
+ * @param {Object} [ignoreRules] - Rule set from createIgnoreRules
+ * @param {string} path - Path relative to the project root
+ * @param {boolean} [isDirectory=false] - Whether the path is a directory
+ * @returns {{ignored: boolean, included: boolean, source?: string}}
+ */
+export function getIgnoreState(ignoreRules, path, isDirectory = false) {
+  if (!ignoreRules) return { ignored: false, included: false };
+
+  const override = evaluateRules(ignoreRules.productwikiignore, path, isDirectory);
+  if (override.ignored || override.included) {
+    return override;
+  }
+
+  const state = evaluateRules(ignoreRules.gitignore, path, isDirectory);
+  return { ...state, included: false };
+}
@@ -1,73 +1,92 @@
-import { join } from 'path';
-import { writeFile } from 'fs/promises';
 import { config } from '../config/index.js';
-import { processRepository } from './repository.js';
-import { storeEmbeddings } from './vectorStore.js';
+import { parseRepositoryUrl, listRepositoryFiles, fetchFileContents } from './repository.js';
+import { storeEmbeddings, updateEmbeddings, getIndexedFileShas, getChunkCount } from './vectorStore.js';
+import { getProjectMetadata, getSnapshotId, saveSnapshotMetadata } from './snapshots.js';
+import { getIndexingDefaults, normalizeIndexingSettings, resolveIndexingConfig, hasSameChunking } from './indexingConfig.js';
+import { countWords, getChunkingStrategy, splitBySymbols, splitIntoWindows } from './chunker.js';
 import { embedBatchWithProgress, resolvePreset } from '../providers/index.js';
 
 /**
- * Split text into words
+ * Chunk a document into pieces that keep the original formatting
+ * Files with a known language are split at declaration/heading boundaries and each chunk records
+ * its enclosing symbol; other files use an overlapping line window. Every chunk records the
+ * 1-based line range it covers (startLine/endLine). Empty and whitespace-only files have no chunks
+ *
+ * @param {Object} doc - File with path, content and extension
+ * @param {Object} [settings] - Chunk size and overlap in words, defaults to the server config
  */
-function splitIntoWords(text) {
-  return text.split(/\s+/).filter(Boolean);
+export function chunkDocument(doc, settings = config) {
+  if (!doc.content.trim()) return [];
+
+  const lines = doc.content.split(/\r?\n/);
+  const lineWords = lines.map(countWords);
+  const limits = { maxWords: settings.chunkSize, overlapWords: settings.chunkOverlap };
+
+  const strategy = getChunkingStrategy(doc.extension);
+  const sections = strategy
+    ? splitBySymbols(lines, lineWords, strategy, limits)
+    : splitIntoWindows(lineWords, 0, lines.length, limits.maxWords, limits.overlapWords);
+
+  return sections.map((section, chunkIndex) => ({
+    id: `${doc.path}#${chunkIndex}`,
+    path: doc.path,
+    content: lines.slice(section.start, section.end).join('\n'),
+    chunkIndex,
+    totalChunks: sections.length,
+    extension: doc.extension,
+    startLine: section.start + 1,
+    endLine: section.end,
+    symbol: section.symbol || null,
+  }));
 }
 
 /**
- * Chunk a document into overlapping pieces
+ * Compare the current file list against the SHAs stored with the previous index
+ * With no previous SHAs every file counts as added
  */
-export function chunkDocument(doc) {
-  const words = splitIntoWords(doc.content);
-  const chunks = [];
-
-  if (words.length <= config.chunkSize) {
-    // Document is smaller than chunk size, keep as single chunk
-    chunks.push({
-      id: `${doc.path}#0`,
-      path: doc.path,
-      content: doc.content,
-      chunkIndex: 0,
-      totalChunks: 1,
-      extension: doc.extension,
-    });
-  } else {
-    // Split into overlapping chunks
-    let start = 0;
-    let chunkIndex = 0;
-
-    while (start < words.length) {
-      const end = Math.min(start + config.chunkSize, words.length);
-      const chunkWords = words.slice(start, end);
-      const chunkContent = chunkWords.join(' ');
-
-      chunks.push({
-        id: `${doc.path}#${chunkIndex}`,
-        path: doc.path,
-        content: chunkContent,
-        chunkIndex,
-        totalChunks: -1, // Will be updated after
-        extension: doc.extension,
-      });
-
-      chunkIndex++;
-      start += config.chunkSize - config.chunkOverlap;
-
-      // Prevent infinite loop
-      if (start >= words.length - config.chunkOverlap && end === words.length) {
-        break;
-      }
-    }
+function diffFiles(files, previousShas) {
+  const added = [];
+  const changed = [];
+  const unchanged = [];
+  const currentPaths = new Set();
 
-    // Update total chunks
-    for (const chunk of chunks) {
-      chunk.totalChunks = chunks.length;
+  for (const file of files) {
+    currentPaths.add(file.path);
+    const previousSha = previousShas?.get(file.path);
+    if (previousSha === undefined) {
+      added.push(file);
+    } else if (previousSha !== file.sha) {
+      changed.push(file);
+    } else {
+      unchanged.push(file);
     }
   }
 
-  return chunks;
+  const removed = previousShas
+    ? [...previousShas.keys()].filter(path => !currentPaths.has(path))
+    : [];
+
+  return { added, changed, removed, unchanged };
+}
+
+/**
+ * Check whether an existing index was embedded with the same model as the current preset
+ */
+function hasSameEmbedding(metadata, preset) {
+  const embedding = metadata?.embedding;
+  return Boolean(embedding) &&
+    embedding.provider === preset.embedding.provider &&
+    embedding.model === preset.embedding.model &&
+    embedding.dimensions === preset.embedding.dimensions;
 }
 
 /**
  * Index a repository (async generator that yields progress events)
+ * Indexes options.ref (branch, tag or commit), a ref from a /tree/<ref> URL, or the default branch.
+ * Each ref is stored as its own snapshot of the project; re-indexing a snapshot only fetches,
+ * chunks and embeds files whose blob SHA changed since the last run.
+ * options.indexing overrides the indexing settings; without it the settings the project was last
+ * indexed with are reused
  */
 export async function* indexRepositoryWithProgress(url, options = {}) {
   const { signal } = options;
@@ -78,22 +97,89 @@ export async function* indexRepositoryWithProgress(url, options = {}) {
     throw new Error('Indexing cancelled');
   }
 
-  // Fetch files from GitHub API
+  // List files (with blob SHAs) from the repository's source; archive and clone sources
+  // (and GitHub's tarball strategy) download their content here too
   yield { phase: 'clone', status: 'started' };
-  const { owner, repo, files, branch } = await processRepository(url, config);
+  const remote = parseRepositoryUrl(url, config);
+  const { owner, repo } = remote;
+  const indexing = normalizeIndexingSettings(
+    options.indexing ?? (await getProjectMetadata(owner, repo))?.indexing
+  );
+  const indexingConfig = resolveIndexingConfig(indexing);
+  const { files: entries, ref, commitSha, skipped: listSkipped } = await listRepositoryFiles(remote, indexingConfig, {
+    ...options,
+    ref: options.ref || remote.ref,
+  });
   yield { phase: 'clone', status: 'completed' };
 
   if (signal?.aborted) {
     throw new Error('Indexing cancelled');
   }
 
-  console.log(`Found ${files.length} files to index`);
-  yield { phase: 'extract', status: 'completed', fileCount: files.length };
+  // Reuse the snapshot's existing index only if it stores SHAs and was embedded with the same
+  // model and chunk settings (snapshots indexed before settings were stored used the defaults)
+  const snapshot = getSnapshotId(ref);
+  const preset = resolvePreset(options);
+  const previousMetadata = await getProjectMetadata(owner, repo, snapshot);
+  const previousIndexing = previousMetadata?.indexing || getIndexingDefaults();
+  const previousShas = hasSameEmbedding(previousMetadata, preset) && hasSameChunking(previousIndexing, indexing)
+    ? await getIndexedFileShas(owner, repo, snapshot)
+    : null;
+  const incremental = previousShas !== null;
+
+  // Files without chunks (empty or whitespace-only) have no rows, so their SHAs are kept in the
+  // snapshot metadata instead
+  const previousEmptyFiles = new Map(Object.entries(previousMetadata?.emptyFiles || {}));
+  if (incremental) {
+    for (const [path, sha] of previousEmptyFiles) {
+      previousShas.set(path, sha);
+    }
+  }
+
+  const { added, changed, removed, unchanged } = diffFiles(entries, previousShas);
+  console.log(`Diff: ${added.length} added, ${changed.length} changed, ${removed.length} removed, ${unchanged.length} unchanged`);
+  yield {
+    phase: 'diff',
+    status: 'completed',
+    incremental,
+    added: added.length,
+    changed: changed.length,
+    removed: removed.length,
+    unchanged: unchanged.length,
+  };
+
+  // Fetch content only for new and changed files
+  const { files, skipped: fetchSkipped } = await fetchFileContents(remote, commitSha, [...added, ...changed], options);
+  const skipped = [...listSkipped, ...fetchSkipped];
+
+  if (signal?.aborted) {
+    throw new Error('Indexing cancelled');
+  }
+
+  // Changed files that could not be fetched keep their old chunks (and old SHA, so the next run
+  // retries them)
+  const fetchedPaths = new Set(files.map(file => file.path));
+  const stale = changed.filter(file => !fetchedPaths.has(file.path));
+
+  console.log(`Found ${files.length} files to index, ${skipped.length} skipped`);
+  yield { phase: 'extract', status: 'completed', fileCount: files.length, skipped };
 
   // Chunk all documents
   const allChunks = [];
+  const emptyFiles = {};
+  for (const file of [...unchanged, ...stale]) {
+    if (previousEmptyFiles.has(file.path)) {
+      emptyFiles[file.path] = previousEmptyFiles.get(file.path);
+    }
+  }
   for (const file of files) {
-    const chunks = chunkDocument(file);
+    const chunks = chunkDocument(file, indexing);
+    if (chunks.length === 0) {
+      emptyFiles[file.path] = file.sha;
+    }
+    for (const chunk of chunks) {
+      chunk.sha = file.sha;
+    }
     allChunks.push(...chunks);
   }
 
@@ -105,25 +191,27 @@ export async function* indexRepositoryWithProgress(url, options = {}) {
   }
 
   // Embed all chunks with progress
-  const texts = allChunks.map((chunk) => chunk.content);
-  const embeddingGenerator = embedBatchWithProgress(texts, options);
-  let embeddings;
+  if (allChunks.length > 0) {
+    const texts = allChunks.map((chunk) => chunk.content);
+    const embeddingGenerator = embedBatchWithProgress(texts, options);
+    let embeddings;
 
-  while (true) {
-    const { done, value } = await embeddingGenerator.next();
-    if (done) {
-      embeddings = value;
-      break;
+    while (true) {
+      const { done, value } = await embeddingGenerator.next();
+      if (done) {
+        embeddings = value;
+        break;
+      }
+      // Yield embedding progress
+      yield { phase: 'embed', status: 'progress', current: value.current, total: value.total };
     }
-    // Yield embedding progress
-    yield { phase: 'embed', status: 'progress', current: value.current, total: value.total };
-  }
-  yield { phase: 'embed', status: 'completed' };
 
-  // Attach embeddings to chunks
-  for (let i = 0; i < allChunks.length; i++) {
-    allChunks[i].vector = embeddings[i];
+    // Attach embeddings to chunks
+    for (let i = 0; i < allChunks.length; i++) {
+      allChunks[i].vector = embeddings[i];
+    }
   }
+  yield { phase: 'embed', status: 'completed' };
 
   if (signal?.aborted) {
     throw new Error('Indexing cancelled');
@@ -131,36 +219,39 @@ export async function* indexRepositoryWithProgress(url, options = {}) {
 
   // Store in vector database
   yield { phase: 'store', status: 'started' };
-  await storeEmbeddings(owner, repo, allChunks);
+  if (incremental) {
+    // Re-chunked files are removed first so their old chunks are replaced
+    const replaced = changed.filter(file => fetchedPaths.has(file.path)).map(file => file.path);
+    await updateEmbeddings(owner, repo, snapshot, allChunks, [...replaced, ...removed]);
+  } else {
+    await storeEmbeddings(owner, repo, snapshot, allChunks);
+  }
   yield { phase: 'store', status: 'completed' };
 
-  // Determine embedding info from preset
-  const preset = resolvePreset(options);
-  const embeddingProvider = preset.embedding.provider;
-  const embeddingModel = preset.embedding.model;
-  const embeddingDimensions = preset.embedding.dimensions;
-
-  // Save metadata with embedding info
-  const metadata = {
+  // Save snapshot metadata with embedding info
+  await saveSnapshotMetadata({
     owner,
     repo,
     url,
-    branch,
+    snapshot,
+    ref,
+    commitSha,
     indexedAt: new Date().toISOString(),
-    fileCount: files.length,
-    chunkCount: allChunks.length,
+    fileCount: unchanged.length + stale.length + files.length,
+    chunkCount: await getChunkCount(owner, repo, snapshot),
+    skippedFiles: skipped,
+    emptyFiles,
+    indexing,
     embedding: {
-      provider: embeddingProvider,
-      model: embeddingModel,
-      dimensions: embeddingDimensions,
+      provider: preset.embedding.provider,
+      model: preset.embedding.model,
+      dimensions: preset.embedding.dimensions,
     },
     preset: preset.id,
-  };
-
-  const metaPath = join(config.metaDir, `${owner}_${repo}.json`);
-  await writeFile(metaPath, JSON.stringify(metadata, null, 2));
+  });
 
-  console.log(`Indexing complete for ${owner}/${repo}`);
+  const metadata = await getProjectMetadata(owner, repo, snapshot);
+  console.log(`Indexing complete for ${owner}/${repo}@${snapshot}`);
 
   yield { phase: 'complete', metadata };
   return metadata;
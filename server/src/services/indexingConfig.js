@@ -0,0 +1,111 @@
+/**
+ * Per-project indexing settings
+ * Chunking, file filters and the size limit default to the server config and can be overridden
+ * per project. The settings a snapshot was indexed with are stored in its metadata entry
+ * (excluded patterns as regex source strings) so re-indexing reuses them
+ */
+import { config } from '../config/index.js';
+
+/**
+ * Bounds for user-provided settings
+ */
+const LIMITS = {
+  minChunkSize: 50,
+  maxChunkSize: 4000,
+  maxFileSize: 10 * 1024 * 1024,
+};
+
+/**
+ * Get the server's default indexing settings (JSON-safe)
+ */
+export function getIndexingDefaults() {
+  return {
+    chunkSize: config.chunkSize,
+    chunkOverlap: config.chunkOverlap,
+    supportedExtensions: [...config.supportedExtensions],
+    excludedDirs: [...config.excludedDirs],
+    excludedFiles: [...config.excludedFiles],
+    excludedPatterns: config.excludedPatterns.map(pattern => pattern.source),
+    maxFileSize: config.maxFileSize,
+  };
+}
+
+function toStringList(value, name) {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`${name} must be an array of strings`);
+  }
+  return [...new Set(value.map(item => item.trim()).filter(Boolean))];
+}
+
+function toInteger(value, name, min, max) {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Validate indexing settings and fill in missing fields from the defaults
+ * Extensions are lower-cased and prefixed with a dot; patterns must be valid regular expressions
+ *
+ * @param {Object} [settings] - Partial settings from a request or stored metadata
+ * @returns {Object} Complete settings in the getIndexingDefaults format
+ */
+export function normalizeIndexingSettings(settings) {
+  if (settings === undefined || settings === null) {
+    return getIndexingDefaults();
+  }
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error('Indexing settings must be an object');
+  }
+
+  const merged = { ...getIndexingDefaults(), ...settings };
+
+  const chunkSize = toInteger(merged.chunkSize, 'chunkSize', LIMITS.minChunkSize, LIMITS.maxChunkSize);
+  const chunkOverlap = toInteger(merged.chunkOverlap, 'chunkOverlap', 0, chunkSize - 1);
+  const maxFileSize = toInteger(merged.maxFileSize, 'maxFileSize', 1, LIMITS.maxFileSize);
+
+  const supportedExtensions = toStringList(merged.supportedExtensions, 'supportedExtensions')
+    .map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase());
+
+  const excludedPatterns = toStringList(merged.excludedPatterns, 'excludedPatterns');
+  for (const pattern of excludedPatterns) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(`Invalid excluded pattern: ${pattern}`);
+    }
+  }
+
+  return {
+    chunkSize,
+    chunkOverlap,
+    supportedExtensions,
+    excludedDirs: toStringList(merged.excludedDirs, 'excludedDirs'),
+    excludedFiles: toStringList(merged.excludedFiles, 'excludedFiles'),
+    excludedPatterns,
+    maxFileSize,
+  };
+}
+
+/**
+ * Build the config used for one indexing run: the server config with the project's settings
+ * applied, so the repository sources and chunker can keep taking a single config object
+ *
+ * @param {Object} settings - Settings from normalizeIndexingSettings
+ */
+export function resolveIndexingConfig(settings) {
+  return {
+    ...config,
+    ...settings,
+    excludedPatterns: settings.excludedPatterns.map(pattern => new RegExp(pattern)),
+  };
+}
+
+/**
+ * Check whether two sets of settings chunk files the same way
+ * Filter changes are picked up by the file diff; chunking changes need a full re-index
+ */
+export function hasSameChunking(a, b) {
+  return a.chunkSize === b.chunkSize && a.chunkOverlap === b.chunkOverlap;
+}
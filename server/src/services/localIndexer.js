@@ -1,8 +1,19 @@
-import { join } from 'path';
-import { writeFile } from 'fs/promises';
+import { readdir, readFile, realpath, stat } from 'fs/promises';
+import { basename, isAbsolute, join, relative, resolve, sep } from 'path';
 import { config } from '../config/index.js';
 import { chunkDocument } from './indexer.js';
 import { storeEmbeddings } from './vectorStore.js';
+import { getProjectMetadata, saveSnapshotMetadata, LOCAL_SNAPSHOT } from './snapshots.js';
+import { isIndexablePath, tooLargeReason, getExtension } from './sourceFiles.js';
+import { normalizeIndexingSettings, resolveIndexingConfig } from './indexingConfig.js';
+import {
+  GITIGNORE,
+  PRODUCTWIKIIGNORE,
+  createIgnoreRules,
+  addIgnoreFile,
+  getIgnoreState,
+  hasIncludeOverrides,
+} from './ignoreRules.js';
 import { embedBatchWithProgress, resolvePreset } from '../providers/index.js';
 
 /**
@@ -16,15 +27,114 @@ function sanitizeProjectName(name) {
     .replace(/^-|-$/g, '');
 }
 
+/**
+ * Resolve a requested server directory and check it is inside one of config.localIndexRoots
+ * Relative paths are resolved against the first root. Symlinks are resolved first so a link
+ * cannot point outside the allowed roots
+ * @returns {Promise<string>} Real path of the directory
+ */
+export async function resolveServerPath(path) {
+  if (config.localIndexRoots.length === 0) {
+    throw new Error('Server path indexing is disabled (set LOCAL_INDEX_ROOTS on the server)');
+  }
+
+  const requested = isAbsolute(path) ? path : resolve(config.localIndexRoots[0], path);
+  let dir;
+  try {
+    dir = await realpath(requested);
+  } catch {
+    throw new Error(`Directory not found: ${path}`);
+  }
+
+  if (!(await stat(dir)).isDirectory()) {
+    throw new Error(`Not a directory: ${path}`);
+  }
+
+  for (const root of config.localIndexRoots) {
+    const realRoot = await realpath(root).catch(() => null);
+    if (realRoot && (dir === realRoot || dir.startsWith(realRoot + sep))) {
+      return dir;
+    }
+  }
+
+  throw new Error(`Directory is outside the allowed roots: ${path}`);
+}
+
+/**
+ * Walk a server directory and read the files that pass the project's filters
+ * Each directory's .gitignore and .productwikiignore are read before its entries; excluded and
+ * ignored directories are not descended into (unless .productwikiignore re-includes paths)
+ * and symlinks are ignored
+ * @param {Object} indexingConfig - Config from resolveIndexingConfig
+ * @returns {Promise<{files: Array<{path, content}>, skipped: Array<{path, reason}>}>}
+ */
+async function readServerDirectory(dir, indexingConfig, signal) {
+  const files = [];
+  const skipped = [];
+  const ignoreRules = createIgnoreRules();
+  const pending = [dir];
+
+  const toRelativePath = (fullPath) => relative(dir, fullPath).split(sep).join('/');
+
+  while (pending.length > 0) {
+    if (signal?.aborted) {
+      throw new Error('Indexing cancelled');
+    }
+
+    const current = pending.pop();
+    const entries = await readdir(current, { withFileTypes: true });
+
+    for (const name of [GITIGNORE, PRODUCTWIKIIGNORE]) {
+      if (entries.some(entry => entry.isFile() && entry.name === name)) {
+        const content = await readFile(join(current, name), 'utf-8');
+        addIgnoreFile(ignoreRules, toRelativePath(join(current, name)), content);
+      }
+    }
+
+    for (const entry of entries) {
+      const fullPath = join(current, entry.name);
+      const path = toRelativePath(fullPath);
+
+      if (entry.isDirectory()) {
+        const { ignored, included } = getIgnoreState(ignoreRules, path, true);
+        const excluded = ignored || indexingConfig.excludedDirs.includes(entry.name);
+        if (!excluded || included || hasIncludeOverrides(ignoreRules)) {
+          pending.push(fullPath);
+        }
+        continue;
+      }
+      if (!entry.isFile()) continue;
+
+      if (!isIndexablePath(path, indexingConfig, ignoreRules)) continue;
+
+      const { size } = await stat(fullPath);
+      if (size > indexingConfig.maxFileSize) {
+        skipped.push({ path, reason: tooLargeReason(size, indexingConfig) });
+        continue;
+      }
+
+      const content = await readFile(fullPath);
+      // Skip binary files (check for null bytes)
+      if (content.includes(0)) {
+        skipped.push({ path, reason: 'Binary file' });
+        continue;
+      }
+      files.push({ path, content: content.toString('utf-8') });
+    }
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { files, skipped };
+}
+
 /**
  * Index local files (async generator that yields progress events)
  * @param {string} projectName - User-provided project name
- * @param {Array<{path: string, content: string}>} files - Pre-filtered files from client
+ * @param {Array<{path: string, content: string}>} files - Files the client filtered with options.indexing
  * @param {object} options - Standard indexing options
  */
 export async function* indexLocalFilesWithProgress(projectName, files, options = {}) {
   const { signal } = options;
-  const owner = 'local';
   const repo = sanitizeProjectName(projectName);
 
   console.log(`Indexing local directory: ${projectName} (${files.length} files)`);
@@ -38,14 +148,63 @@ export async function* indexLocalFilesWithProgress(projectName, files, options =
   yield { phase: 'clone', status: 'started' };
   yield { phase: 'clone', status: 'completed' };
 
+  const indexing = await getLocalIndexingSettings(repo, options);
+  return yield* indexLocalSnapshot(repo, files, [], indexing, options);
+}
+
+/**
+ * Index a directory on the server's filesystem (async generator that yields progress events)
+ * The directory must be inside config.localIndexRoots; files are filtered like repository files
+ * @param {string} path - Directory path (absolute, or relative to the first allowed root)
+ * @param {string} [projectName] - Project name, defaults to the directory name
+ * @param {object} options - Standard indexing options
+ */
+export async function* indexServerPathWithProgress(path, projectName, options = {}) {
+  const { signal } = options;
+  const dir = await resolveServerPath(path);
+  const repo = sanitizeProjectName(projectName || basename(dir));
+
+  console.log(`Indexing server directory: ${dir}`);
+
+  // Reading the directory stands in for the clone phase
+  const indexing = await getLocalIndexingSettings(repo, options);
+  yield { phase: 'clone', status: 'started' };
+  const { files, skipped } = await readServerDirectory(dir, resolveIndexingConfig(indexing), signal);
+  yield { phase: 'clone', status: 'completed' };
+
+  return yield* indexLocalSnapshot(repo, files, skipped, indexing, options, { path: dir });
+}
+
+/**
+ * Get the indexing settings for a local project: options.indexing, or the settings the project
+ * was last indexed with
+ */
+async function getLocalIndexingSettings(repo, options) {
+  const previous = options.indexing ?? (await getProjectMetadata('local', repo, LOCAL_SNAPSHOT))?.indexing;
+  return normalizeIndexingSettings(previous);
+}
+
+/**
+ * Chunk, embed and store local files as the project's local snapshot
+ * @param {string} repo - Sanitized project name
+ * @param {Array<{path: string, content: string}>} files - Files to index
+ * @param {Array<{path: string, reason: string}>} skipped - Files that could not be indexed
+ * @param {object} indexing - Settings from normalizeIndexingSettings
+ * @param {object} options - Standard indexing options
+ * @param {object} [fields] - Extra metadata fields (e.g. the server path)
+ */
+async function* indexLocalSnapshot(repo, files, skipped, indexing, options, fields = {}) {
+  const { signal } = options;
+  const owner = 'local';
+
   // Add extension to files
   const processedFiles = files.map(f => ({
     ...f,
-    extension: f.path.includes('.') ? '.' + f.path.split('.').pop().toLowerCase() : '',
+    extension: getExtension(f.path),
   }));
 
   console.log(`Processing ${processedFiles.length} files`);
-  yield { phase: 'extract', status: 'completed', fileCount: processedFiles.length };
+  yield { phase: 'extract', status: 'completed', fileCount: processedFiles.length, skipped };
 
   if (signal?.aborted) {
     throw new Error('Indexing cancelled');
@@ -54,7 +213,7 @@ export async function* indexLocalFilesWithProgress(projectName, files, options =
   // Chunk all documents
   const allChunks = [];
   for (const file of processedFiles) {
-    const chunks = chunkDocument(file);
+    const chunks = chunkDocument(file, indexing);
     allChunks.push(...chunks);
   }
 
@@ -92,7 +251,7 @@ export async function* indexLocalFilesWithProgress(projectName, files, options =
 
   // Store in vector database
   yield { phase: 'store', status: 'started' };
-  await storeEmbeddings(owner, repo, allChunks);
+  await storeEmbeddings(owner, repo, LOCAL_SNAPSHOT, allChunks);
   yield { phase: 'store', status: 'completed' };
 
   // Determine embedding info from preset
@@ -102,24 +261,27 @@ export async function* indexLocalFilesWithProgress(projectName, files, options =
   const embeddingDimensions = preset.embedding.dimensions;
 
   // Save metadata with local-specific fields
-  const metadata = {
+  await saveSnapshotMetadata({
     owner,
     repo,
     url: `local://${repo}`,
     source: 'local',
+    snapshot: LOCAL_SNAPSHOT,
+    ...fields,
     indexedAt: new Date().toISOString(),
     fileCount: files.length,
     chunkCount: allChunks.length,
+    skippedFiles: skipped,
+    indexing,
     embedding: {
       provider: embeddingProvider,
       model: embeddingModel,
       dimensions: embeddingDimensions,
     },
     preset: preset.id,
-  };
+  });
 
-  const metaPath = join(config.metaDir, `${owner}_${repo}.json`);
-  await writeFile(metaPath, JSON.stringify(metadata, null, 2));
+  const metadata = await getProjectMetadata(owner, repo, LOCAL_SNAPSHOT);
 
   console.log(`Indexing complete for local/${repo}`);
 
@@ -0,0 +1,70 @@
+/**
+ * Render Mermaid diagrams to SVG on the server, in a headless browser running Mermaid's browser
+ * bundle (Mermaid lays diagrams out with the browser's text measurement, so it needs a real DOM)
+ */
+import { readFile } from 'fs/promises';
+import { createRequire } from 'module';
+import puppeteer from 'puppeteer';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Time allowed to launch the browser or render one diagram
+ */
+const RENDER_TIMEOUT_MS = 60000;
+
+let mermaidScript = null;
+
+/**
+ * Mermaid's browser bundle
+ */
+export async function getMermaidScript() {
+  if (!mermaidScript) {
+    mermaidScript = await readFile(require.resolve('mermaid/dist/mermaid.min.js'));
+  }
+  return mermaidScript;
+}
+
+/**
+ * Render diagrams to SVG
+ * Labels are sanitized (Mermaid's strict security level) and each SVG gets its own element id,
+ * so the SVGs can be inlined side by side in one page
+ * @param {string[]} definitions - Mermaid diagram sources
+ * @returns {Promise<Array<string|null>>} SVG of each diagram, or null when its source is invalid
+ * @throws When the browser cannot be launched
+ */
+export async function renderMermaidDiagrams(definitions) {
+  if (definitions.length === 0) return [];
+
+  const browser = await puppeteer.launch({
+    headless: true,
+    timeout: RENDER_TIMEOUT_MS,
+    protocolTimeout: RENDER_TIMEOUT_MS,
+    // Chrome's sandbox does not run as root (as in most containers)
+    args: process.getuid?.() === 0 ? ['--no-sandbox'] : [],
+  });
+  try {
+    const page = await browser.newPage();
+    await page.setContent('<!DOCTYPE html><html><body></body></html>');
+    await page.addScriptTag({ content: (await getMermaidScript()).toString('utf-8') });
+    await page.evaluate(() => {
+      // Invalid diagrams throw instead of drawing Mermaid's error diagram
+      window.mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'default', suppressErrorRendering: true });
+    });
+
+    const svgs = [];
+    for (const [index, definition] of definitions.entries()) {
+      svgs.push(await page.evaluate(async (text, id) => {
+        try {
+          const { svg } = await window.mermaid.render(id, text);
+          return svg;
+        } catch {
+          return null;
+        }
+      }, definition, `mermaid-${index}`));
+    }
+    return svgs;
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Names that identify projects and snapshots in storage (metadata files, wiki directories and
+ * vector tables). Every mapping here is one-to-one, so two projects or refs never share storage
+ */
+import { createHash } from 'crypto';
+
+/**
+ * Short hash that tells apart names made equal by sanitizing
+ */
+export function shortHash(text) {
+  return createHash('sha256').update(text).digest('hex').slice(0, 8);
+}
+
+/**
+ * Name safe for files, URLs and query strings
+ * Names of letters, digits, '.', '_' and '-' are kept; anything else is sanitized and gets a '~'
+ * hash suffix (kept names never contain '~'), e.g. "release/1.x" -> "release-1.x~3f2a9c1d"
+ */
+export function toSafeName(text) {
+  if (/^[a-zA-Z0-9._-]+$/.test(text)) {
+    return text;
+  }
+  return `${text.replace(/[^a-zA-Z0-9._-]+/g, '-')}~${shortHash(text)}`;
+}
+
+/**
+ * Storage key of a project, e.g. "facebook_react"
+ * The owner is escaped so the first '_' always separates it from the repo; GitHub owners (and
+ * the "local" owner) never need escaping, so their keys are unchanged
+ */
+export function getProjectKey(owner, repo) {
+  const escape = (text, unsafe) => text.replace(unsafe, char => (
+    [...Buffer.from(char, 'utf-8')].map(byte => `%${byte.toString(16).toUpperCase().padStart(2, '0')}`).join('')
+  ));
+  return `${escape(owner, /[^a-zA-Z0-9.~-]/gu)}_${escape(repo, /[^a-zA-Z0-9._~-]/gu)}`;
+}
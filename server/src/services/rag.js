@@ -169,7 +169,7 @@ GUIDELINES FOR THE PROMPT:
  */
 export async function* generateReimplementPrompt(owner, repo, options = {}) {
   // Check if repository is indexed
-  if (!(await isIndexed(owner, repo))) {
+  if (!(await isIndexed(owner, repo, options.snapshot))) {
     yield 'No indexed content found for this repository. Please index the repository first.';
     return;
   }
@@ -184,7 +184,7 @@ export async function* generateReimplementPrompt(owner, repo, options = {}) {
   }
 
   // Build context from RAG results
-  const context = buildRagContext(chunks);
+  const context = buildRagContext(chunks, options, { systemPrompt: REIMPLEMENT_PROMPT_SYSTEM });
 
   // Create messages
   const messages = [
@@ -213,7 +213,7 @@ Follow the structure outlined in your instructions.`,
  */
 export async function* generateDocumentation(owner, repo, options = {}) {
   // Check if repository is indexed
-  if (!(await isIndexed(owner, repo))) {
+  if (!(await isIndexed(owner, repo, options.snapshot))) {
     yield 'No indexed content found for this repository. Please index the repository first.';
     return;
   }
@@ -228,7 +228,7 @@ export async function* generateDocumentation(owner, repo, options = {}) {
   }
 
   // Build context from RAG results
-  const context = buildRagContext(chunks);
+  const context = buildRagContext(chunks, options, { systemPrompt: SYSTEM_PROMPT });
 
   // Create messages
   const messages = [
@@ -249,7 +249,7 @@ export async function* generateDocumentation(owner, repo, options = {}) {
  */
 export async function* generatePackagePrompt(owner, repo, options = {}) {
   // Check if repository is indexed
-  if (!(await isIndexed(owner, repo))) {
+  if (!(await isIndexed(owner, repo, options.snapshot))) {
     yield 'No indexed content found for this repository. Please index the repository first.';
     return;
   }
@@ -264,7 +264,7 @@ export async function* generatePackagePrompt(owner, repo, options = {}) {
   }
 
   // Build context from RAG results
-  const context = buildRagContext(chunks);
+  const context = buildRagContext(chunks, options, { systemPrompt: PACKAGE_PROMPT_SYSTEM });
 
   // Create messages
   const messages = [
@@ -1,18 +1,40 @@
 /**
  * Global RAG (Retrieval Augmented Generation) Query Module
- * Provides semantic search functionality for all generation tools
+ * Provides semantic, keyword and hybrid search for all generation tools
  */
-import { readFile } from 'fs/promises';
-import { join } from 'path';
 import { config } from '../config/index.js';
-import { embed } from '../providers/index.js';
-import { searchSimilar, isIndexed } from './vectorStore.js';
+import { embed, resolvePreset } from '../providers/index.js';
+import { countTokens, countChatTokens } from '../providers/tokenizer.js';
+import { searchSimilar, searchKeyword, isIndexed } from './vectorStore.js';
+import { getProjectMetadata } from './snapshots.js';
+import { rerankChunks, RERANKERS } from './reranker.js';
+import { toWhereClause } from './searchFilters.js';
+
+/**
+ * Retrieval modes: 'vector' (embedding similarity), 'keyword' (BM25) or 'hybrid' (both, fused)
+ */
+export const SEARCH_MODES = ['hybrid', 'vector', 'keyword'];
+
+/**
+ * Reciprocal rank fusion constant; larger values flatten the advantage of top ranks
+ */
+const RRF_K = 60;
+
+/**
+ * Candidates fetched from each ranking in hybrid mode, as a multiple of the requested limit
+ */
+const HYBRID_CANDIDATE_FACTOR = 2;
+
+/**
+ * Candidates retrieved for the reranker, as a multiple of the requested limit
+ */
+const RERANK_CANDIDATE_FACTOR = 3;
 
 /**
  * Standard RAG limits
  */
 const STANDARD_RAG_LIMITS = {
-  MAX_CHARS: 30000,
+  MAX_TOKENS: config.ragContextTokens,
   CHUNK_LIMIT: 20,
 };
 
@@ -20,34 +42,51 @@ const STANDARD_RAG_LIMITS = {
  * Conservative RAG limits (for low TPM)
  */
 const CONSERVATIVE_RAG_LIMITS = {
-  MAX_CHARS: 15000,
+  MAX_TOKENS: Math.floor(config.ragContextTokens / 2),
   CHUNK_LIMIT: 10,
 };
 
+/**
+ * Tokens taken by the blank line between files in the context
+ */
+const SEPARATOR_TOKENS = 1;
+
+/**
+ * Longest first line shown for a section in a file outline
+ */
+const OUTLINE_LINE_CHARS = 120;
+
 /**
  * Get RAG limits based on TPM mode
  * @param {Object} options - Options including lowTpmMode
- * @returns {Object} Limits object with MAX_CHARS and CHUNK_LIMIT
+ * @returns {Object} Limits object with MAX_TOKENS and CHUNK_LIMIT
  */
 export function getRagLimits(options = {}) {
   return options.lowTpmMode ? CONSERVATIVE_RAG_LIMITS : STANDARD_RAG_LIMITS;
 }
 
 // Keep exports for backward compatibility
-export const MAX_RAG_CONTEXT_CHARS = STANDARD_RAG_LIMITS.MAX_CHARS;
+export const MAX_RAG_CONTEXT_TOKENS = STANDARD_RAG_LIMITS.MAX_TOKENS;
 export const DEFAULT_CHUNK_LIMIT = STANDARD_RAG_LIMITS.CHUNK_LIMIT;
 
 /**
- * Build context string from RAG chunks
- * Groups chunks by file path for better organization
- * @param {Array} chunks - Array of chunks from RAG search
- * @param {Object} options - Options including lowTpmMode for conservative limits
- * @returns {string} Formatted context string
+ * Token budget for the retrieved context of a prompt
+ * The configured budget, capped by what the model's context window leaves after the rest of the
+ * prompt and the reserved output
+ * @param {Object} options - Options including preset and lowTpmMode
+ * @param {number} [promptTokens] - Tokens of the rest of the prompt
+ * @returns {number} Budget in tokens
+ */
+export function getContextBudget(options = {}, promptTokens = 0) {
+  const { generation } = resolvePreset(options);
+  const available = (generation.contextWindow || Infinity) - (generation.maxOutputTokens || 0) - promptTokens;
+  return Math.max(0, Math.min(getRagLimits(options).MAX_TOKENS, available));
+}
+
+/**
+ * Group chunks by file path, files in order of their best chunk
  */
-export function buildRagContext(chunks, options = {}) {
-  const limits = getRagLimits(options);
-  const maxChars = limits.MAX_CHARS;
-  // Group chunks by file path
+function groupByPath(chunks) {
   const byPath = new Map();
   for (const chunk of chunks) {
     if (!byPath.has(chunk.path)) {
@@ -56,51 +95,237 @@ export function buildRagContext(chunks, options = {}) {
     byPath.get(chunk.path).push(chunk);
   }
 
-  let totalChars = 0;
-  const contextParts = [];
-  let fileIndex = 0;
-
-  for (const [path, fileChunks] of byPath) {
-    // Sort chunks by their index within the file
+  // Sort chunks by their index within the file
+  for (const fileChunks of byPath.values()) {
     fileChunks.sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+  return byPath;
+}
 
-    const ext = path.split('.').pop() || '';
-    const combinedContent = fileChunks.map(c => c.content).join('\n\n---\n\n');
+function sectionLabel(chunk) {
+  const symbol = chunk.symbol ? ` (${chunk.symbol})` : '';
+  return chunk.startLine != null ? `Lines ${chunk.startLine}-${chunk.endLine}${symbol}` : `Section ${chunk.chunkIndex + 1}${symbol}`;
+}
+
+/**
+ * Format a file with the full content of its sections
+ */
+function formatFile(number, path, fileChunks) {
+  const ext = path.split('.').pop() || '';
+  const sections = fileChunks.map(c => {
+    const header = c.startLine != null ? `${sectionLabel(c)}:\n` : '';
+    return `${header}\`\`\`${ext}\n${c.content}\n\`\`\``;
+  });
 
-    const part = `${fileIndex + 1}.\nFile Path: ${path}\nRelevant sections:\n\`\`\`${ext}\n${combinedContent}\n\`\`\``;
+  return `${number}.\nFile Path: ${path}\nRelevant sections:\n${sections.join('\n\n')}`;
+}
 
-    if (totalChars + part.length > maxChars) {
-      console.log(`[RAG] Context limit reached at file ${fileIndex + 1}/${byPath.size}`);
-      break;
+/**
+ * Format a file as an outline: each section's location and first line
+ */
+function formatOutline(number, path, fileChunks) {
+  const lines = fileChunks.map(c => {
+    const firstLine = c.content.split('\n').find(line => line.trim())?.trim().slice(0, OUTLINE_LINE_CHARS) || '';
+    return `- ${sectionLabel(c)}: ${firstLine}`;
+  });
+
+  return `${number}.\nFile Path: ${path}\nOutline (sections shortened to fit the context budget):\n${lines.join('\n')}`;
+}
+
+/**
+ * Pack RAG chunks into a context string that fits a token budget
+ * Files are taken in order of their best chunk (chunks arrive best first) and added whole while
+ * they fit. A file that does not fit is reduced to an outline of its sections, and dropped if even
+ * that does not fit; smaller files further down can still use the remaining budget.
+ * Tokens are counted with the tokenizer of the preset's generation provider
+ *
+ * @param {Array} chunks - Chunks from RAG search, best first
+ * @param {Object} options - Options including preset and lowTpmMode
+ * @param {Object} [prompt] - The rest of the prompt, whose tokens are reserved
+ * @param {string} [prompt.systemPrompt] - System prompt
+ * @param {Array} [prompt.messages] - Messages sent with the context, including the text around it
+ * @returns {{context: string, usage: Object, includedPaths: string[]}} The context, its usage
+ *   ({ contextTokens, promptTokens, budget, files, outlinedFiles, droppedFiles }) and the paths of
+ *   the files it includes at full text (outlined and dropped files are left out)
+ */
+export function packRagContext(chunks, options = {}, prompt = {}) {
+  const provider = resolvePreset(options).generation.provider;
+  const reservedTokens = countChatTokens(prompt.systemPrompt, prompt.messages || [], provider);
+  const budget = getContextBudget(options, reservedTokens);
+  const byPath = groupByPath(chunks);
+
+  const parts = [];
+  const includedPaths = [];
+  let usedTokens = 0;
+  let outlinedFiles = 0;
+  let droppedFiles = 0;
+
+  for (const [path, fileChunks] of byPath) {
+    const number = parts.length + 1;
+    const full = formatFile(number, path, fileChunks);
+    const fullTokens = countTokens(full, provider) + SEPARATOR_TOKENS;
+    if (usedTokens + fullTokens <= budget) {
+      parts.push(full);
+      includedPaths.push(path);
+      usedTokens += fullTokens;
+      continue;
     }
 
-    contextParts.push(part);
-    totalChars += part.length;
-    fileIndex++;
+    const outline = formatOutline(number, path, fileChunks);
+    const outlineTokens = countTokens(outline, provider) + SEPARATOR_TOKENS;
+    if (usedTokens + outlineTokens <= budget) {
+      parts.push(outline);
+      usedTokens += outlineTokens;
+      outlinedFiles++;
+    } else {
+      droppedFiles++;
+    }
   }
 
-  const result = contextParts.join('\n\n');
-  console.log(`[RAG] Built context: ${chunks.length} chunks from ${byPath.size} files, ${result.length} chars (~${Math.ceil(result.length / 4)} tokens)`);
-  return result;
+  const context = parts.join('\n\n');
+  const contextTokens = countTokens(context, provider);
+  const usage = {
+    contextTokens,
+    promptTokens: reservedTokens + contextTokens,
+    budget,
+    files: parts.length,
+    outlinedFiles,
+    droppedFiles,
+  };
+
+  console.log(`[RAG] Built context: ${chunks.length} chunks, ${parts.length}/${byPath.size} files (${outlinedFiles} outlined, ${droppedFiles} dropped), ${contextTokens}/${budget} tokens`);
+  return { context, usage, includedPaths };
+}
+
+/**
+ * Build context string from RAG chunks
+ * Groups chunks by file path for better organization, labelling each section with its line range
+ * and symbol, within the token budget (see packRagContext)
+ * @param {Array} chunks - Array of chunks from RAG search
+ * @param {Object} options - Options including preset and lowTpmMode
+ * @param {Object} [prompt] - The rest of the prompt, whose tokens are reserved
+ * @returns {string} Formatted context string
+ */
+export function buildRagContext(chunks, options = {}, prompt = {}) {
+  return packRagContext(chunks, options, prompt).context;
 }
 
 /**
- * Core RAG query function - embed query and search for similar chunks
+ * Fuse several rankings of chunks with reciprocal rank fusion
+ * A chunk scores sum(1 / (k + rank)) over the rankings it appears in, so chunks ranked well by
+ * several searches rise to the top without comparing BM25 scores to vector distances.
+ * relevance is the fused score relative to the best possible score (first in every ranking)
+ *
+ * @param {Array<Array>} rankings - Chunk lists, best first
+ * @param {number} [k] - Fusion constant
+ * @returns {Array} Unique chunks by descending fused score, with fusedScore and relevance
+ */
+export function fuseRankings(rankings, k = RRF_K) {
+  const fused = new Map();
+
+  for (const ranking of rankings) {
+    const seen = new Set();
+    ranking.forEach((chunk, index) => {
+      if (seen.has(chunk.id)) return;
+      seen.add(chunk.id);
+
+      const entry = fused.get(chunk.id) || { chunk: {}, fusedScore: 0 };
+      // Keep the fields of every ranking (distance from vector search, score from keyword search)
+      entry.chunk = { ...entry.chunk, ...chunk };
+      entry.fusedScore += 1 / (k + index + 1);
+      fused.set(chunk.id, entry);
+    });
+  }
+
+  const maxScore = rankings.length / (k + 1);
+  return [...fused.values()]
+    .sort((a, b) => b.fusedScore - a.fusedScore)
+    .map(({ chunk, fusedScore }) => ({ ...chunk, fusedScore, relevance: fusedScore / maxScore }));
+}
+
+/**
+ * Relevance of a retrieved chunk between 0 and 1
+ * Fused and keyword results carry a relevance; vector results are converted from their distance
+ */
+export function getChunkRelevance(chunk) {
+  return chunk.relevance ?? 1 - (chunk.distance || 0);
+}
+
+/**
+ * Rank indexed chunks for a query with the given search mode, best first, each with a relevance
+ * @param {string} searchQuery - The search query text
+ * @param {Array<number>|null} queryVector - Embedding of the query (not used in keyword mode)
+ * @param {string} mode - Search mode (see SEARCH_MODES)
+ * @param {Object} options - Options including snapshot and filters
+ * @param {number} limit - Maximum number of chunks to return
+ */
+export async function rankChunks(owner, repo, searchQuery, queryVector, mode, options, limit) {
+  if (mode === 'keyword') {
+    const results = await searchKeyword(owner, repo, options.snapshot, searchQuery, limit, options.filters);
+    const maxScore = results[0]?.score || 1;
+    return results.map(chunk => ({ ...chunk, relevance: chunk.score / maxScore }));
+  }
+
+  if (mode === 'vector') {
+    const chunks = await searchSimilar(owner, repo, options.snapshot, queryVector, limit, options.filters);
+    return chunks.map(chunk => ({ ...chunk, relevance: getChunkRelevance(chunk) }));
+  }
+
+  const candidateLimit = limit * HYBRID_CANDIDATE_FACTOR;
+  const [vectorResults, keywordResults] = await Promise.all([
+    searchSimilar(owner, repo, options.snapshot, queryVector, candidateLimit, options.filters),
+    searchKeyword(owner, repo, options.snapshot, searchQuery, candidateLimit, options.filters).catch((error) => {
+      console.warn(`[RAG] Keyword search failed, using vector results only: ${error.message}`);
+      return [];
+    }),
+  ]);
+  return fuseRankings([vectorResults, keywordResults]).slice(0, limit);
+}
+
+/**
+ * Retrieve candidate chunks with the given search mode, embedding the query unless the mode is
+ * keyword only
+ */
+async function retrieve(owner, repo, searchQuery, mode, options, limit) {
+  const queryVector = mode === 'keyword' ? null : await embed(searchQuery, options);
+  return rankChunks(owner, repo, searchQuery, queryVector, mode, options, limit);
+}
+
+/**
+ * Core RAG query function - search for the chunks most relevant to a query
+ * options.searchMode selects 'hybrid', 'vector' or 'keyword' retrieval (defaults to config.ragSearchMode).
+ * Hybrid mode runs keyword and vector search and fuses the rankings; if keyword search fails
+ * it falls back to the vector results.
+ * options.reranker selects the reranker (defaults to config.ragReranker); unless it is 'none',
+ * more candidates than limit are retrieved and the reranker keeps the best.
+ * options.filters restricts the search by path, extension or language (see searchFilters.js)
+ *
  * @param {string} owner - Repository owner
  * @param {string} repo - Repository name
  * @param {string} searchQuery - The search query text
- * @param {Object} options - Options including apiKeys, provider
+ * @param {Object} options - Options including apiKeys, provider, snapshot, searchMode, reranker and filters
  * @param {number} limit - Maximum number of chunks to return
  * @returns {Promise<Array>} Array of relevant chunks
  */
 export async function queryRag(owner, repo, searchQuery, options = {}, limit = DEFAULT_CHUNK_LIMIT) {
-  console.log(`[RAG] Searching for: "${searchQuery.slice(0, 100)}..."`);
+  const mode = options.searchMode || config.ragSearchMode;
+  if (!SEARCH_MODES.includes(mode)) {
+    throw new Error(`Unknown search mode: ${mode}`);
+  }
+
+  const reranker = options.reranker || config.ragReranker;
+  if (!RERANKERS.includes(reranker)) {
+    throw new Error(`Unknown reranker: ${reranker}`);
+  }
+
+  // Validates the filters before the query is embedded
+  const where = toWhereClause(options.filters);
 
-  // Embed the query
-  const queryVector = await embed(searchQuery, options);
+  console.log(`[RAG] Searching (${mode}, ${reranker} reranker${where ? ', filtered' : ''}) for: "${searchQuery.slice(0, 100)}..."`);
 
-  // Search for similar chunks
-  const chunks = await searchSimilar(owner, repo, queryVector, limit);
+  const candidateLimit = reranker === 'none' ? limit : limit * RERANK_CANDIDATE_FACTOR;
+  const candidates = await retrieve(owner, repo, searchQuery, mode, options, candidateLimit);
+  const chunks = await rerankChunks(searchQuery, candidates, limit, { ...options, reranker });
 
   console.log(`[RAG] Found ${chunks.length} relevant chunks`);
   return chunks;
@@ -118,26 +343,10 @@ export async function queryRag(owner, repo, searchQuery, options = {}, limit = D
 export async function getContextForTopic(owner, repo, topic, options = {}, limit = DEFAULT_CHUNK_LIMIT) {
   const chunks = await queryRag(owner, repo, topic, options, limit);
   return {
-    context: buildRagContext(chunks),
+    context: buildRagContext(chunks, options),
     chunks,
   };
 }
 
-/**
- * Get project metadata from the meta directory
- * @param {string} owner - Repository owner
- * @param {string} repo - Repository name
- * @returns {Promise<Object|null>} Project metadata or null if not found
- */
-export async function getProjectMetadata(owner, repo) {
-  try {
-    const metaPath = join(config.metaDir, `${owner}_${repo}.json`);
-    const content = await readFile(metaPath, 'utf-8');
-    return JSON.parse(content);
-  } catch {
-    return null;
-  }
-}
-
-// Re-export isIndexed for convenience
-export { isIndexed };
+// Re-export isIndexed and getProjectMetadata for convenience
+export { isIndexed, getProjectMetadata };
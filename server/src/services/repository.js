@@ -1,11 +1,202 @@
 /**
- * Repository service - delegates to GitHub API
- * This file maintains backwards compatibility with existing imports
+ * Repository service - dispatches to the source for a repository URL
+ * GitHub, GitLab, Bitbucket and Gitea/Forgejo are read through their APIs; any other remote
+ * is fetched with `git clone`. Every source lists files as { path, sha, size, content? } with
+ * git blob SHAs, so the indexing pipeline does not depend on where a repository is hosted
  */
+import * as github from './github.js';
+import * as gitlab from './gitlab.js';
+import * as bitbucket from './bitbucket.js';
+import * as gitea from './gitea.js';
+import * as gitRemote from './gitRemote.js';
+import { getExtension } from './sourceFiles.js';
+import { shortHash } from './projectKeys.js';
 
-export {
-  parseGitHubUrl,
-  processRepository,
-  fetchRepositoryFiles,
-  fetchReadmeContent,
-} from './github.js';
+export { parseGitHubUrl } from './github.js';
+
+/**
+ * Public hosts with a known API (self-hosted instances are added with config.gitHosts)
+ */
+const KNOWN_HOSTS = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+  'codeberg.org': 'gitea',
+  'gitea.com': 'gitea',
+};
+
+/**
+ * Get the source type for a host, or null to fall back to plain git
+ */
+function getHostType(host, config) {
+  const type = config.gitHosts?.[host] || KNOWN_HOSTS[host];
+  if (type) return type;
+
+  // Conventional host names for self-hosted instances
+  if (/^gitlab\./.test(host)) return 'gitlab';
+  if (/^(gitea|forgejo)\./.test(host)) return 'gitea';
+  return null;
+}
+
+/**
+ * Project owner of a remote
+ * GitHub projects keep their owner; on other hosts the owner is the host and namespace joined by
+ * '~' (e.g. "gitlab.com~group~subgroup"), so the same owner/repo on two hosts, or two GitLab
+ * subgroup paths, are separate projects. Namespaces with other characters are sanitized and get
+ * a "~~<hash>" suffix
+ */
+function getProjectOwner(remote) {
+  if (remote.type === 'github' && remote.host === 'github.com') {
+    return remote.owner;
+  }
+
+  const parts = [remote.host || 'file', ...remote.path.split('/').filter(Boolean).slice(0, -1)];
+  if (parts.every(part => /^[a-zA-Z0-9._-]+$/.test(part))) {
+    return parts.join('~');
+  }
+  return `${parts.join('~').replace(/[^a-zA-Z0-9._~-]+/g, '-')}~~${shortHash(JSON.stringify(parts))}`;
+}
+
+/**
+ * Parse a repository URL into a remote: { type, owner, repo, ref?, path, host, webUrl, ... }
+ * type is 'github', 'gitlab', 'bitbucket', 'gitea' or 'git'. Web and SSH URLs of known hosts
+ * use the host's API; everything else is treated as a plain git remote. A ref can be given
+ * in the URL path (/tree/<ref>, /-/tree/<ref>, /src/<ref>) or as a "#<ref>" suffix.
+ * owner identifies the project (see getProjectOwner)
+ */
+export function parseRepositoryUrl(url, config) {
+  const remote = parseRemote(url, config);
+  if (remote.ref && !gitRemote.isValidGitRef(remote.ref)) {
+    throw new Error(`Invalid ref: ${remote.ref}`);
+  }
+  return { ...remote, owner: getProjectOwner(remote) };
+}
+
+function parseRemote(url, config) {
+  const trimmed = url.trim();
+  const [location, fragment] = trimmed.split('#');
+  const match = location.match(/^(?:https?:\/\/|ssh:\/\/)?(?:[^@\/]+@)?([^\/:]+)(?::\d+)?[\/:](.+)$/i);
+  const host = match?.[1].toLowerCase();
+  const type = host && getHostType(host, config);
+
+  if (!type) {
+    return gitRemote.parseGitRemoteUrl(trimmed);
+  }
+
+  const segments = match[2].split('?')[0].split('/').filter(Boolean).map(decodeURIComponent);
+  let remote;
+  switch (type) {
+    case 'github': {
+      const { owner, repo, ref } = github.parseGitHubUrl(location);
+      remote = { type, host, path: `${owner}/${repo}`, owner, repo, ref, webUrl: `https://github.com/${owner}/${repo}` };
+      break;
+    }
+    case 'gitlab':
+      remote = gitlab.parseGitLabUrl(host, segments);
+      break;
+    case 'bitbucket':
+      remote = bitbucket.parseBitbucketUrl(host, segments);
+      break;
+    case 'gitea':
+      remote = gitea.parseGiteaUrl(host, segments);
+      break;
+    default:
+      throw new Error(`Unsupported git host type for ${host}: ${type}`);
+  }
+
+  // A "#ref" suffix works for every source, like it does for plain git remotes
+  return fragment ? { ...remote, ref: decodeURIComponent(fragment) } : remote;
+}
+
+/**
+ * List the indexable files of a repository
+ * Lists options.ref (branch, tag or commit) or the default branch, returning the resolved commit SHA.
+ * Each entry carries the git blob SHA; sources that download an archive or clone include the
+ * content as well. skipped holds { path, reason } for matching files that cannot be indexed
+ *
+ * @param {Object} remote - Remote from parseRepositoryUrl
+ * @returns {Promise<{files: Array, ref: string, commitSha: string, skipped: Array}>}
+ */
+export async function listRepositoryFiles(remote, config, options = {}) {
+  switch (remote.type) {
+    case 'github':
+      return github.listRepositoryFiles(remote.owner, remote.repo, config, options);
+    case 'gitlab':
+      return gitlab.listRepositoryFiles(remote, config, options);
+    case 'bitbucket':
+      return bitbucket.listRepositoryFiles(remote, config, options);
+    case 'gitea':
+      return gitea.listRepositoryFiles(remote, config, options);
+    default:
+      return gitRemote.listRepositoryFiles(remote, config, options);
+  }
+}
+
+/**
+ * Fetch content for a list of files from listRepositoryFiles
+ * ref should be the commit SHA so content matches the listing. Only GitHub's 'raw' strategy
+ * lists files without content; everything else already has it
+ */
+export async function fetchFileContents(remote, ref, files, options = {}) {
+  if (remote.type === 'github') {
+    return github.fetchFileContents(remote.owner, remote.repo, ref, files, options);
+  }
+
+  return {
+    files: files.map(file => ({ path: file.path, sha: file.sha, content: file.content, extension: getExtension(file.path) })),
+    skipped: [],
+  };
+}
+
+/**
+ * Fetch all files from a repository
+ */
+export async function fetchRepositoryFiles(remote, config, options = {}) {
+  console.log(`[Repository] Fetching ${remote.type} repository ${remote.path}...`);
+
+  const listing = await listRepositoryFiles(remote, config, options);
+  const { files, skipped } = await fetchFileContents(remote, listing.commitSha, listing.files, options);
+
+  return {
+    files,
+    ref: listing.ref,
+    commitSha: listing.commitSha,
+    skipped: [...listing.skipped, ...skipped],
+  };
+}
+
+/**
+ * Fetch README content from a repository
+ * Other hosts have no cheap single-file download, so the README is picked from the fetched files
+ */
+export async function fetchReadmeContent(remote, ref, config, options = {}) {
+  if (remote.type === 'github') {
+    return github.fetchReadmeContent(remote.owner, remote.repo, ref, options);
+  }
+
+  const { files } = await fetchRepositoryFiles(remote, config, { ...options, ref });
+  const readme = files.find(file => /^readme(\.(md|txt))?$/i.test(file.path));
+  return readme ? readme.content : 'No README found.';
+}
+
+/**
+ * Process a repository: fetch all files from its source
+ */
+export async function processRepository(url, config, options = {}) {
+  const remote = parseRepositoryUrl(url, config);
+
+  const { files, ref, commitSha, skipped } = await fetchRepositoryFiles(remote, config, {
+    ...options,
+    ref: options.ref || remote.ref,
+  });
+
+  return {
+    owner: remote.owner,
+    repo: remote.repo,
+    url,
+    files,
+    ref,
+    commitSha,
+    skipped,
+  };
+}
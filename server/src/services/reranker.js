@@ -0,0 +1,178 @@
+/**
+ * Rerankers for retrieved chunks
+ * queryRag over-fetches candidates and a reranker scores them against the query, so the chunks
+ * passed to buildRagContext are the most useful ones rather than the raw top-K of the search.
+ * 'lexical' is a cheap local heuristic, 'llm' asks the active preset's model to rank excerpts
+ */
+import { config } from '../config/index.js';
+import { streamChat } from '../providers/index.js';
+
+/**
+ * Available rerankers ('none' keeps the retrieval order)
+ */
+export const RERANKERS = ['lexical', 'llm', 'none'];
+
+/**
+ * Words that carry no signal in a query
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'in',
+  'is', 'it', 'of', 'on', 'or', 'the', 'this', 'that', 'to', 'what', 'when', 'where', 'which', 'who',
+  'why', 'with', 'you', 'i', 'we', 'my', 'our', 'me',
+]);
+
+/**
+ * Weights of the lexical score components (sum to 1)
+ */
+const LEXICAL_WEIGHTS = {
+  retrieval: 0.4, // Relevance from the search itself
+  coverage: 0.35, // Share of query terms found in the chunk
+  identifier: 0.15, // Identifier-like query terms found verbatim
+  location: 0.1, // Query terms in the file path or enclosing symbol
+};
+
+/**
+ * Chunks with fewer words than this are mostly boilerplate (closing braces, blank headings)
+ */
+const MIN_USEFUL_WORDS = 8;
+
+/**
+ * Candidates sent to the LLM reranker (pre-trimmed with the lexical reranker) and their excerpt size
+ */
+const LLM_MAX_CANDIDATES = 30;
+const LLM_EXCERPT_CHARS = 500;
+
+/**
+ * Split text into lower-case terms, including the parts of camelCase and snake_case identifiers
+ */
+function toTerms(text) {
+  const terms = new Set();
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) || []) {
+    terms.add(word.toLowerCase());
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/);
+    for (const part of parts) {
+      if (part.length > 1) terms.add(part.toLowerCase());
+    }
+  }
+  return terms;
+}
+
+/**
+ * Query words that look like code identifiers (camelCase, snake_case, dotted or call syntax)
+ */
+function getIdentifiers(query) {
+  return (query.match(/[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/g) || [])
+    .filter(word => word.length >= 4 && /[a-z][A-Z]|_|\./.test(word));
+}
+
+/**
+ * Score a chunk against a query between 0 and 1
+ */
+function lexicalScore(chunk, queryTerms, identifiers) {
+  const contentTerms = toTerms(chunk.content);
+  const locationTerms = toTerms(`${chunk.path} ${chunk.symbol || ''}`);
+
+  const matched = queryTerms.filter(term => contentTerms.has(term) || locationTerms.has(term));
+  const coverage = queryTerms.length > 0 ? matched.length / queryTerms.length : 0;
+  const location = queryTerms.length > 0
+    ? queryTerms.filter(term => locationTerms.has(term)).length / queryTerms.length
+    : 0;
+  const identifier = identifiers.length > 0
+    ? identifiers.filter(word => chunk.content.includes(word)).length / identifiers.length
+    : 0;
+
+  const score = LEXICAL_WEIGHTS.retrieval * Math.min(Math.max(chunk.relevance ?? 0, 0), 1) +
+    LEXICAL_WEIGHTS.coverage * coverage +
+    LEXICAL_WEIGHTS.identifier * identifier +
+    LEXICAL_WEIGHTS.location * location;
+
+  const words = chunk.content.split(/\s+/).filter(Boolean).length;
+  return words < MIN_USEFUL_WORDS ? score * 0.5 : score;
+}
+
+/**
+ * Rerank chunks with the local lexical heuristic
+ * Blends the retrieval relevance with query term coverage, verbatim identifier matches and
+ * matches in the file path or symbol
+ */
+export function rerankLexical(query, chunks, limit) {
+  const queryTerms = [...toTerms(query)].filter(term => !STOP_WORDS.has(term));
+  const identifiers = getIdentifiers(query);
+
+  return chunks
+    .map(chunk => ({ ...chunk, rerankScore: lexicalScore(chunk, queryTerms, identifiers) }))
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, limit);
+}
+
+/**
+ * Rerank chunks with the active preset's LLM
+ * Candidates are pre-trimmed lexically; the model returns the excerpt numbers in order. Falls back
+ * to the lexical order if the response cannot be parsed, and fills up with it if the model
+ * returns fewer than limit excerpts
+ */
+export async function rerankWithLlm(query, chunks, limit, options = {}) {
+  const candidates = rerankLexical(query, chunks, LLM_MAX_CANDIDATES);
+  if (candidates.length <= 1) return candidates.slice(0, limit);
+
+  const excerpts = candidates.map((chunk, index) => {
+    const lines = chunk.startLine != null ? `:${chunk.startLine}-${chunk.endLine}` : '';
+    const symbol = chunk.symbol ? ` (${chunk.symbol})` : '';
+    return `[${index}] ${chunk.path}${lines}${symbol}\n${chunk.content.slice(0, LLM_EXCERPT_CHARS)}`;
+  });
+
+  const prompt = `Query: ${query}
+
+Rank these code excerpts by how useful they are for answering the query.
+
+${excerpts.join('\n\n')}
+
+Respond with only a JSON array of the numbers of the ${Math.min(limit, candidates.length)} most useful excerpts, most useful first. Example: [3, 0, 7]`;
+
+  let response = '';
+  try {
+    for await (const chunk of streamChat('You rank code search results by relevance.', [{ role: 'user', content: prompt }], options)) {
+      response += chunk;
+    }
+
+    const ranked = JSON.parse(response.match(/\[[\d\s,]*\]/)?.[0] || '');
+    const order = [...new Set(ranked)].filter(index => Number.isInteger(index) && candidates[index]);
+    if (order.length === 0) {
+      throw new Error('no excerpt numbers in response');
+    }
+
+    const selected = order.map((index, rank) => ({ ...candidates[index], rerankScore: 1 - rank / order.length }));
+    const rest = candidates.filter((_, index) => !order.includes(index)).map(chunk => ({ ...chunk, rerankScore: 0 }));
+    return [...selected, ...rest].slice(0, limit);
+  } catch (error) {
+    console.warn(`[Rerank] LLM reranking failed, using lexical order: ${error.message}`);
+    return candidates.slice(0, limit);
+  }
+}
+
+/**
+ * Rerank retrieved chunks and keep the best limit
+ * options.reranker selects 'lexical', 'llm' or 'none' (defaults to config.ragReranker)
+ *
+ * @param {string} query - The search query text
+ * @param {Array} chunks - Candidates from retrieval, best first, each with a relevance between 0 and 1
+ * @param {number} limit - Number of chunks to keep
+ * @param {Object} options - Provider options (for the LLM reranker) and reranker
+ */
+export async function rerankChunks(query, chunks, limit, options = {}) {
+  const reranker = options.reranker || config.ragReranker;
+
+  switch (reranker) {
+    case 'none':
+      return chunks.slice(0, limit);
+    case 'lexical':
+      return rerankLexical(query, chunks, limit);
+    case 'llm':
+      return rerankWithLlm(query, chunks, limit, options);
+    default:
+      throw new Error(`Unknown reranker: ${reranker}`);
+  }
+}
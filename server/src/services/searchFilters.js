@@ -0,0 +1,130 @@
+/**
+ * Metadata filters for retrieval queries
+ * Filters are turned into a LanceDB `where` clause over the path and extension columns, so vector
+ * and keyword search only consider matching chunks:
+ * { paths?, excludePaths?, extensions?, languages?, excludeTests?, excludeDocs? }
+ */
+import { globToRegex } from './ignoreRules.js';
+
+/**
+ * Extensions per language name accepted in filters.languages
+ */
+const LANGUAGE_EXTENSIONS = {
+  javascript: ['.js', '.jsx', '.mjs', '.cjs'],
+  typescript: ['.ts', '.tsx'],
+  python: ['.py', '.pyw'],
+  java: ['.java'],
+  kotlin: ['.kt'],
+  scala: ['.scala'],
+  go: ['.go'],
+  rust: ['.rs'],
+  ruby: ['.rb', '.erb'],
+  php: ['.php'],
+  c: ['.c', '.h'],
+  cpp: ['.cpp', '.cc', '.hpp', '.h'],
+  csharp: ['.cs'],
+  swift: ['.swift'],
+  vue: ['.vue'],
+  svelte: ['.svelte'],
+  css: ['.css', '.scss', '.sass', '.less'],
+  html: ['.html', '.htm'],
+  sql: ['.sql'],
+  shell: ['.sh', '.bash', '.zsh'],
+  markdown: ['.md', '.mdx'],
+};
+
+/**
+ * Test files and directories (foo.test.ts, foo_test.go, test_foo.py, __tests__/, spec/, e2e/ ...)
+ */
+const TEST_PATH_REGEX = '(^|/)(__tests__|__mocks__|tests?|specs?|e2e)/|\\.(test|spec)\\.[^/]+$|_test\\.[^/]+$|(^|/)test_[^/]+\\.py$';
+
+/**
+ * Documentation files and directories
+ */
+const DOC_EXTENSIONS = ['.md', '.mdx', '.rst', '.txt'];
+const DOC_PATH_REGEX = '(^|/)docs?/';
+
+/**
+ * Quote a string for use in a LanceDB SQL predicate
+ */
+export function sqlString(value) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function toStringList(value, name) {
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : [value];
+  if (list.some(item => typeof item !== 'string')) {
+    throw new Error(`Filter ${name} must be a string or an array of strings`);
+  }
+  return list.map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Regular expression for a path glob
+ * A glob without a slash matches a name at any depth (like .gitignore); a path also matches
+ * everything below it, so "src/auth" selects the whole directory
+ */
+function pathGlobRegex(glob) {
+  const pattern = glob.replace(/^\.?\//, '').replace(/\/$/, '');
+  const body = globToRegex(pattern);
+  return pattern.includes('/') ? `^${body}(/.*)?$` : `(^|/)${body}(/.*)?$`;
+}
+
+function anyPathMatches(globs) {
+  return globs.map(glob => `regexp_like(path, ${sqlString(pathGlobRegex(glob))})`).join(' OR ');
+}
+
+/**
+ * Build a LanceDB where clause from retrieval filters
+ * @param {Object} [filters]
+ * @param {string[]} [filters.paths] - Path globs to search in (any of)
+ * @param {string[]} [filters.excludePaths] - Path globs to leave out
+ * @param {string[]} [filters.extensions] - File extensions to search in (e.g. ".ts" or "ts")
+ * @param {string[]} [filters.languages] - Language names, added to the extensions (e.g. "python")
+ * @param {boolean} [filters.excludeTests] - Leave out test files and directories
+ * @param {boolean} [filters.excludeDocs] - Leave out documentation files and docs/ directories
+ * @returns {string|null} The clause, or null when nothing is filtered
+ */
+export function toWhereClause(filters) {
+  if (!filters) return null;
+  if (typeof filters !== 'object' || Array.isArray(filters)) {
+    throw new Error('Filters must be an object');
+  }
+
+  const conditions = [];
+
+  const paths = toStringList(filters.paths, 'paths');
+  if (paths.length > 0) {
+    conditions.push(`(${anyPathMatches(paths)})`);
+  }
+
+  const excludePaths = toStringList(filters.excludePaths, 'excludePaths');
+  if (excludePaths.length > 0) {
+    conditions.push(`NOT (${anyPathMatches(excludePaths)})`);
+  }
+
+  const extensions = toStringList(filters.extensions, 'extensions')
+    .map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase());
+  for (const language of toStringList(filters.languages, 'languages')) {
+    const languageExtensions = LANGUAGE_EXTENSIONS[language.toLowerCase()];
+    if (!languageExtensions) {
+      throw new Error(`Unknown language: ${language}`);
+    }
+    extensions.push(...languageExtensions);
+  }
+  if (extensions.length > 0) {
+    conditions.push(`extension IN (${[...new Set(extensions)].map(sqlString).join(', ')})`);
+  }
+
+  if (filters.excludeTests) {
+    conditions.push(`NOT regexp_like(path, ${sqlString(TEST_PATH_REGEX)})`);
+  }
+
+  if (filters.excludeDocs) {
+    conditions.push(`extension NOT IN (${DOC_EXTENSIONS.map(sqlString).join(', ')})`);
+    conditions.push(`NOT regexp_like(path, ${sqlString(DOC_PATH_REGEX)})`);
+  }
+
+  return conditions.length > 0 ? conditions.join(' AND ') : null;
+}
@@ -0,0 +1,174 @@
+/**
+ * Project snapshot store
+ * A project holds one or more indexed snapshots (branch, tag or commit), each with its own
+ * vector table and metadata entry. All snapshots live in `${projectKey}.json` (see projectKeys.js):
+ * { owner, repo, url, source?, defaultSnapshot, snapshots: { [id]: { snapshot, ref, commitSha, indexedAt, ... } } }
+ */
+import { readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { config } from '../config/index.js';
+import { adoptLegacyTable } from './vectorStore.js';
+import { getProjectKey, toSafeName } from './projectKeys.js';
+
+/**
+ * Snapshot id used for local directory indexes, which have no git ref
+ */
+export const LOCAL_SNAPSHOT = 'local';
+
+/**
+ * Get the snapshot id for a ref (safe for file and table names, distinct for every ref)
+ * e.g. "main" -> "main", "release/1.x" -> "release-1.x~81caa6e9"
+ */
+export function getSnapshotId(ref) {
+  return toSafeName(ref || 'default');
+}
+
+function getMetaPath(owner, repo) {
+  return join(config.metaDir, `${getProjectKey(owner, repo)}.json`);
+}
+
+/**
+ * Convert metadata written before snapshots existed into a single-snapshot project
+ * The old vector table is renamed to the snapshot's table
+ */
+async function migrateLegacyProject(legacy) {
+  const { owner, repo, url, source, ...fields } = legacy;
+  const snapshot = source === 'local'
+    ? LOCAL_SNAPSHOT
+    : getSnapshotId(fields.ref || fields.branch);
+
+  await adoptLegacyTable(owner, repo, snapshot);
+
+  const project = {
+    owner,
+    repo,
+    url,
+    ...(source && { source }),
+    defaultSnapshot: snapshot,
+    snapshots: {
+      [snapshot]: { snapshot, ...fields, ref: fields.ref || fields.branch },
+    },
+  };
+
+  await writeFile(getMetaPath(owner, repo), JSON.stringify(project, null, 2));
+  console.log(`Migrated ${owner}/${repo} to snapshot "${snapshot}"`);
+  return project;
+}
+
+/**
+ * Read a project file, migrating legacy metadata on first access
+ */
+async function readProject(file) {
+  const project = JSON.parse(await readFile(file, 'utf-8'));
+  return project.snapshots ? project : migrateLegacyProject(project);
+}
+
+/**
+ * Summarize a snapshot for the ref switcher
+ */
+function toSnapshotSummary(entry) {
+  return {
+    snapshot: entry.snapshot,
+    ref: entry.ref,
+    commitSha: entry.commitSha,
+    indexedAt: entry.indexedAt,
+    fileCount: entry.fileCount,
+    chunkCount: entry.chunkCount,
+  };
+}
+
+/**
+ * Flatten a project and one of its snapshots into the metadata shape used everywhere else
+ */
+function toSnapshotMetadata(project, snapshot) {
+  const entry = project.snapshots[snapshot];
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    owner: project.owner,
+    repo: project.repo,
+    url: project.url,
+    ...(project.source && { source: project.source }),
+    ...entry,
+    snapshots: Object.values(project.snapshots)
+      .map(toSnapshotSummary)
+      .sort((a, b) => new Date(b.indexedAt) - new Date(a.indexedAt)),
+  };
+}
+
+/**
+ * Get metadata for one snapshot of a project
+ * @param {string} owner - Repository owner
+ * @param {string} repo - Repository name
+ * @param {string} [snapshot] - Snapshot id, defaults to the project's default snapshot
+ * @returns {Promise<Object|null>} Snapshot metadata or null if the project or snapshot is not found
+ */
+export async function getProjectMetadata(owner, repo, snapshot) {
+  try {
+    const project = await readProject(getMetaPath(owner, repo));
+    return toSnapshotMetadata(project, snapshot || project.defaultSnapshot);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a requested snapshot id (or the default snapshot when none is given)
+ * @returns {Promise<string|null>} Snapshot id or null if the project or snapshot is not found
+ */
+export async function resolveSnapshot(owner, repo, snapshot) {
+  const metadata = await getProjectMetadata(owner, repo, snapshot);
+  return metadata?.snapshot || null;
+}
+
+/**
+ * Save metadata for an indexed snapshot and make it the project's default
+ * @param {Object} metadata - Snapshot metadata including owner, repo, url, source and snapshot
+ */
+export async function saveSnapshotMetadata(metadata) {
+  const { owner, repo, url, source, ...entry } = metadata;
+  const metaPath = getMetaPath(owner, repo);
+
+  let snapshots = {};
+  try {
+    snapshots = (await readProject(metaPath)).snapshots;
+  } catch {
+    // First snapshot for this project
+  }
+
+  const project = {
+    owner,
+    repo,
+    url,
+    ...(source && { source }),
+    defaultSnapshot: entry.snapshot,
+    snapshots: { ...snapshots, [entry.snapshot]: entry },
+  };
+
+  await writeFile(metaPath, JSON.stringify(project, null, 2));
+}
+
+/**
+ * List all indexed projects, each flattened with its default snapshot
+ * Sorted by most recently indexed first
+ */
+export async function listProjects() {
+  const files = await readdir(config.metaDir);
+  const projects = [];
+
+  for (const file of files) {
+    if (file.endsWith('.json')) {
+      try {
+        const project = await readProject(join(config.metaDir, file));
+        projects.push(toSnapshotMetadata(project, project.defaultSnapshot));
+      } catch (err) {
+        console.warn(`Failed to read metadata file ${file}:`, err.message);
+      }
+    }
+  }
+
+  projects.sort((a, b) => new Date(b.indexedAt) - new Date(a.indexedAt));
+  return projects;
+}
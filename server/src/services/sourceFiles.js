@@ -0,0 +1,222 @@
+/**
+ * Helpers shared by the repository sources (GitHub, GitLab, Bitbucket, Gitea, plain git)
+ * File filtering, blob SHAs, archive reading, ref resolution and HTTP requests
+ */
+import { createHash } from 'crypto';
+import { readTarEntries } from './tarball.js';
+import { createIgnoreRules, addIgnoreFile, getIgnoreState, isIgnoreFile, PRODUCTWIKIIGNORE } from './ignoreRules.js';
+
+/**
+ * Check if file extension is supported
+ */
+function isSupportedExtension(path, supportedExtensions) {
+  const ext = path.includes('.') ? '.' + path.split('.').pop().toLowerCase() : '';
+
+  // Special cases for files without typical extensions
+  const baseName = path.split('/').pop().toLowerCase();
+  if (baseName.includes('dockerfile') || baseName.includes('makefile')) {
+    return true;
+  }
+
+  return supportedExtensions.includes(ext);
+}
+
+/**
+ * Check if path should be excluded
+ */
+function shouldExcludePath(path, excludedDirs, excludedFiles, excludedPatterns) {
+  const parts = path.split('/');
+  const fileName = parts[parts.length - 1];
+
+  // Check excluded directories
+  for (const dir of excludedDirs) {
+    if (parts.includes(dir)) {
+      return true;
+    }
+  }
+
+  // Check excluded files
+  if (excludedFiles.includes(fileName)) {
+    return true;
+  }
+
+  // Check excluded patterns
+  for (const pattern of excludedPatterns) {
+    if (pattern.test(path)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check whether a path passes the extension and exclusion rules
+ * With ignoreRules (from ignoreRules.js), paths ignored by .gitignore/.productwikiignore are
+ * rejected and paths re-included by .productwikiignore skip the default exclusions
+ */
+export function isIndexablePath(path, config, ignoreRules) {
+  const { ignored, included } = getIgnoreState(ignoreRules, path);
+  if (ignored || !isSupportedExtension(path, config.supportedExtensions)) {
+    return false;
+  }
+  return included ||
+    !shouldExcludePath(path, config.excludedDirs, config.excludedFiles, config.excludedPatterns);
+}
+
+/**
+ * Build ignore rules from the ignore files among a list of { path, content } entries
+ */
+export function buildIgnoreRules(ignoreFiles) {
+  const ignoreRules = createIgnoreRules();
+  for (const file of ignoreFiles) {
+    addIgnoreFile(ignoreRules, file.path, file.content);
+  }
+  return ignoreRules;
+}
+
+/**
+ * Skip reason for files over config.maxFileSize
+ */
+export function tooLargeReason(size, config) {
+  return `Larger than ${Math.round(config.maxFileSize / 1024)} KB (${Math.round(size / 1024)} KB)`;
+}
+
+export function getExtension(path) {
+  return path.includes('.') ? '.' + path.split('.').pop().toLowerCase() : '';
+}
+
+/**
+ * Compute the git blob SHA of file content (the same SHA git and the GitHub tree API report)
+ */
+export function getBlobSha(content) {
+  return createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
+
+/**
+ * Read indexable files, with their content, from a gzipped repository archive
+ * Entries are filtered while streaming so only candidate files are held in memory.
+ * Ignore files are collected on the way and applied once the archive has been read; the root
+ * .productwikiignore is listed before subdirectories, so its include overrides already apply
+ * while streaming. Every host nests the archive under a single top-level directory, which is stripped
+ *
+ * @returns {Promise<{files: Array<{path, sha, size, content}>, skipped: Array<{path, reason}>}>}
+ */
+export async function readArchiveFiles(body, config) {
+  const candidates = [];
+  const tooLarge = [];
+  const ignoreFiles = [];
+  const overrides = createIgnoreRules();
+
+  const entries = readTarEntries(body, {
+    strip: 1,
+    filter: (path, size) => {
+      if (isIgnoreFile(path)) return size <= config.maxFileSize;
+      if (!isIndexablePath(path, config, overrides)) return false;
+
+      if (size > config.maxFileSize) {
+        tooLarge.push({ path, size });
+        return false;
+      }
+      return true;
+    },
+  });
+
+  for await (const { path, size, content } of entries) {
+    if (isIgnoreFile(path)) {
+      const ignoreFile = { path, content: content.toString('utf-8') };
+      ignoreFiles.push(ignoreFile);
+      if (path === PRODUCTWIKIIGNORE) {
+        addIgnoreFile(overrides, path, ignoreFile.content);
+      }
+      continue;
+    }
+    candidates.push({ path, size, content });
+  }
+
+  const ignoreRules = buildIgnoreRules(ignoreFiles);
+  const files = [];
+  const skipped = tooLarge
+    .filter(({ path }) => isIndexablePath(path, config, ignoreRules))
+    .map(({ path, size }) => ({ path, reason: tooLargeReason(size, config) }));
+
+  for (const { path, size, content } of candidates) {
+    if (!isIndexablePath(path, config, ignoreRules)) continue;
+
+    // Skip binary files (check for null bytes)
+    if (content.includes(0)) {
+      skipped.push({ path, reason: 'Binary file' });
+      continue;
+    }
+    files.push({ path, sha: getBlobSha(content), size, content: content.toString('utf-8') });
+  }
+
+  return { files, skipped };
+}
+
+/**
+ * Resolve a ref to { ref, commitSha }
+ * Refs parsed from /tree/<ref>/<path> style URLs are ambiguous, so shorter prefixes are tried
+ * first (git does not allow both "release" and "release/1.0" to exist)
+ *
+ * @param {string} ref - Branch, tag or commit, possibly followed by a file path
+ * @param {Function} getCommitSha - async (candidate) => commit SHA or null if not found
+ * @param {string} name - Repository name for the error message
+ */
+export async function resolveRefPrefix(ref, getCommitSha, name) {
+  const segments = ref.split('/').filter(Boolean);
+
+  for (let i = 1; i <= segments.length; i++) {
+    const candidate = segments.slice(0, i).join('/');
+    const commitSha = await getCommitSha(candidate);
+    if (commitSha) {
+      return { ref: candidate, commitSha };
+    }
+  }
+
+  throw new Error(`Branch, tag or commit not found in ${name}: ${ref}`);
+}
+
+/**
+ * Fetch from a git host's HTTP API
+ * With allowNotFound, 404/422 responses resolve to null instead of throwing
+ *
+ * @param {string} url - Request URL
+ * @param {Object} options
+ * @param {string} options.label - Host name for error messages (e.g. "GitLab")
+ * @param {Object} [options.headers] - Extra headers (authentication)
+ * @param {string} [options.tokenHint] - How to configure a token, added to 401/403/404 errors
+ */
+export async function sourceFetch(url, { label, headers = {}, tokenHint = '', allowNotFound = false, timeout = 300000 }) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'ProductWiki/1.0', ...headers },
+      signal: controller.signal,
+    });
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      if (allowNotFound && (response.status === 404 || response.status === 422)) {
+        return null;
+      }
+      if (response.status === 401 || response.status === 403) {
+        throw new Error(`${label} rejected the request (${response.status} ${response.statusText}). ${tokenHint}`.trim());
+      }
+      if (response.status === 404) {
+        throw new Error(`Repository not found or is private: ${url}. ${tokenHint}`.trim());
+      }
+      throw new Error(`${label} API error: ${response.status} ${response.statusText}`);
+    }
+
+    return response;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error.name === 'AbortError') {
+      throw new Error(`${label} request timeout after ${timeout}ms: ${url}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Streaming reader for gzipped tar archives (repository tarballs from GitHub and other git hosts)
+ * Supports ustar headers, pax extended headers and GNU long names
+ */
+import { createGunzip } from 'zlib';
+import { Readable, pipeline } from 'stream';
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Read a NUL-terminated string from a header field
+ */
+function readString(field) {
+  const end = field.indexOf(0);
+  return field.toString('utf-8', 0, end === -1 ? field.length : end);
+}
+
+/**
+ * Read an octal number from a header field
+ */
+function readOctal(field) {
+  const value = readString(field).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+/**
+ * Get the path from pax extended header records ("<length> path=<value>\n")
+ */
+function readPaxPath(content) {
+  for (const record of content.toString('utf-8').split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a 512-byte header block, or return null for the zero blocks that end the archive
+ */
+function parseHeader(block) {
+  if (block.every(byte => byte === 0)) {
+    return null;
+  }
+
+  const name = readString(block.subarray(0, 100));
+  const isUstar = block.toString('ascii', 257, 262) === 'ustar';
+  const prefix = isUstar ? readString(block.subarray(345, 500)) : '';
+
+  return {
+    path: prefix ? `${prefix}/${name}` : name,
+    size: readOctal(block.subarray(124, 136)),
+    // '\0' is an old-style regular file
+    type: block[156] === 0 ? '0' : String.fromCharCode(block[156]),
+  };
+}
+
+/**
+ * Strip leading path components (archives nest everything under a directory like "<owner>-<repo>-<sha>/")
+ */
+function stripComponents(path, count) {
+  return path.split('/').slice(count).join('/');
+}
+
+/**
+ * Read regular files from a gzipped tar stream
+ * Only entries accepted by filter are buffered; everything else is discarded as it streams past
+ *
+ * @param {ReadableStream|Readable} body - Gzipped tar stream (web or Node stream)
+ * @param {Object} options
+ * @param {number} [options.strip=0] - Leading path components to remove
+ * @param {Function} [options.filter] - (path, size) => boolean, called for every regular file
+ * @yields {{path: string, size: number, content: Buffer}}
+ */
+export async function* readTarEntries(body, { strip = 0, filter = () => true } = {}) {
+  const source = body instanceof Readable ? body : Readable.fromWeb(body);
+  const gunzip = createGunzip();
+  // pipeline destroys the gunzip stream if the download fails, which ends the loop below with an error
+  pipeline(source, gunzip, () => {});
+
+  let pending = Buffer.alloc(0);
+  let entry = null;
+  let nextPath = null;
+
+  for await (const chunk of gunzip) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+
+    while (true) {
+      if (entry) {
+        // Consume the entry body plus padding up to the next block boundary
+        const take = Math.min(entry.remaining, pending.length);
+        if (entry.keep) {
+          entry.chunks.push(pending.subarray(0, take));
+        }
+        entry.remaining -= take;
+        pending = pending.subarray(take);
+
+        if (entry.remaining > 0) {
+          break;
+        }
+
+        const content = entry.keep ? Buffer.concat(entry.chunks).subarray(0, entry.size) : null;
+        const { header } = entry;
+        entry = null;
+
+        if (header.type === 'x') {
+          nextPath = readPaxPath(content);
+        } else if (header.type === 'L') {
+          nextPath = readString(content);
+        } else if (content) {
+          yield { path: header.path, size: header.size, content };
+        }
+        continue;
+      }
+
+      if (pending.length < BLOCK_SIZE) {
+        break;
+      }
+
+      const header = parseHeader(pending.subarray(0, BLOCK_SIZE));
+      pending = pending.subarray(BLOCK_SIZE);
+      if (!header) {
+        continue;
+      }
+
+      // A preceding pax/GNU header overrides the (possibly truncated) name
+      if (header.type !== 'x' && header.type !== 'L' && header.type !== 'g') {
+        header.path = stripComponents(nextPath || header.path, strip);
+        nextPath = null;
+      }
+
+      const isFile = header.type === '0' || header.type === '7';
+      const keep = header.type === 'x' || header.type === 'L' ||
+        (isFile && header.path !== '' && filter(header.path, header.size));
+
+      const padding = (BLOCK_SIZE - (header.size % BLOCK_SIZE)) % BLOCK_SIZE;
+      entry = { header, size: header.size, remaining: header.size + padding, keep, chunks: [] };
+    }
+  }
+}
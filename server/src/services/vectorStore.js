@@ -1,8 +1,22 @@
 import * as lancedb from '@lancedb/lancedb';
+import { access, rename } from 'fs/promises';
+import { join } from 'path';
 import { config } from '../config/index.js';
+import { toWhereClause, sqlString } from './searchFilters.js';
+import { shortHash } from './projectKeys.js';
 
 let db = null;
 
+/**
+ * Columns with a full-text (BM25) index for keyword search
+ */
+const FULL_TEXT_COLUMNS = ['content', 'path'];
+
+/**
+ * Tables whose full-text index is known to be current (cleared when a table is rewritten)
+ */
+const fullTextIndexed = new Set();
+
 /**
  * Get or initialize the LanceDB connection
  */
@@ -14,19 +28,80 @@ async function getDb() {
 }
 
 /**
- * Get table name for a repo
+ * Tables whose legacy name has been checked (see resolveTableName)
+ */
+const adoptedTables = new Set();
+
+/**
+ * Get table name for a repo snapshot
+ * LanceDB table names only allow letters, digits, '_', '-' and '.', so the readable part is
+ * sanitized and a hash of the exact owner, repo and snapshot keeps every name distinct
+ */
+function getTableName(owner, repo, snapshot) {
+  const base = `${owner}_${repo}__${snapshot}`.replace(/[^a-zA-Z0-9_]/g, '_');
+  return `${base}_${shortHash(JSON.stringify([owner, repo, snapshot]))}`;
+}
+
+/**
+ * Table name used before names were made distinct
+ * Tables created before snapshots existed have no snapshot suffix
+ */
+function getLegacyTableName(owner, repo, snapshot) {
+  const base = `${owner}_${repo}`.replace(/[^a-zA-Z0-9_]/g, '_');
+  return snapshot ? `${base}__${snapshot}` : base;
+}
+
+/**
+ * Rename a table unless the target already exists
+ * LanceDB stores each table as a <name>.lance directory, so this is a rename
+ */
+async function moveTable(fromName, toName) {
+  const to = join(config.vectorsDir, `${toName}.lance`);
+  try {
+    await access(to);
+    return;
+  } catch {
+    // Target is free
+  }
+
+  try {
+    await rename(join(config.vectorsDir, `${fromName}.lance`), to);
+    console.log(`Renamed table ${fromName} to ${toName}`);
+  } catch (err) {
+    // Nothing to move if the legacy table was never created or is already migrated
+    if (err.code !== 'ENOENT') {
+      throw err;
+    }
+  }
+}
+
+/**
+ * Move a table created before snapshots existed to the given snapshot
+ */
+export async function adoptLegacyTable(owner, repo, snapshot) {
+  await moveTable(getLegacyTableName(owner, repo), getTableName(owner, repo, snapshot));
+}
+
+/**
+ * Get the table name for a repo snapshot, first moving a table stored under its legacy name
+ * (checked once per table and process)
  */
-function getTableName(owner, repo) {
-  return `${owner}_${repo}`.replace(/[^a-zA-Z0-9_]/g, '_');
+async function resolveTableName(owner, repo, snapshot) {
+  const tableName = getTableName(owner, repo, snapshot);
+  if (!adoptedTables.has(tableName)) {
+    await moveTable(getLegacyTableName(owner, repo, snapshot), tableName);
+    adoptedTables.add(tableName);
+  }
+  return tableName;
 }
 
 /**
- * Check if a repository is indexed
+ * Check if a repository snapshot is indexed
  */
-export async function isIndexed(owner, repo) {
+export async function isIndexed(owner, repo, snapshot) {
   try {
     const database = await getDb();
-    const tableName = getTableName(owner, repo);
+    const tableName = await resolveTableName(owner, repo, snapshot);
     const tables = await database.tableNames();
     return tables.includes(tableName);
   } catch {
@@ -35,22 +110,83 @@ export async function isIndexed(owner, repo) {
 }
 
 /**
- * Store embeddings in LanceDB
+ * Convert a chunk to a LanceDB row
  */
-export async function storeEmbeddings(owner, repo, chunks) {
-  const database = await getDb();
-  const tableName = getTableName(owner, repo);
-
-  // Prepare data for LanceDB
-  const data = chunks.map((chunk) => ({
+function toRow(chunk) {
+  return {
     id: chunk.id,
     path: chunk.path,
     content: chunk.content,
     chunkIndex: chunk.chunkIndex,
     totalChunks: chunk.totalChunks,
     extension: chunk.extension,
+    startLine: chunk.startLine,
+    endLine: chunk.endLine,
+    // Empty strings rather than null so LanceDB can infer the column types
+    symbol: chunk.symbol || '',
+    sha: chunk.sha || '',
     vector: chunk.vector,
-  }));
+  };
+}
+
+/**
+ * Convert a LanceDB row to a chunk
+ * startLine/endLine/symbol are null for tables indexed before they were tracked
+ */
+function fromRow(row) {
+  return {
+    id: row.id,
+    path: row.path,
+    content: row.content,
+    chunkIndex: row.chunkIndex,
+    totalChunks: row.totalChunks,
+    extension: row.extension,
+    startLine: row.startLine ?? null,
+    endLine: row.endLine ?? null,
+    symbol: row.symbol || null,
+  };
+}
+
+/**
+ * (Re)build the full-text index over content and path
+ * LanceDB does not keep the index in sync with added or deleted rows, so it is rebuilt
+ * after every write
+ */
+async function buildFullTextIndex(table, tableName) {
+  for (const column of FULL_TEXT_COLUMNS) {
+    await table.createIndex(column, { config: lancedb.Index.fts(), replace: true });
+  }
+  fullTextIndexed.add(tableName);
+}
+
+/**
+ * Build the full-text index for tables created before keyword search existed
+ */
+async function ensureFullTextIndex(table, tableName) {
+  if (fullTextIndexed.has(tableName)) return;
+
+  const indices = await table.listIndices();
+  const indexedColumns = indices
+    .filter(index => index.indexType === 'FTS')
+    .flatMap(index => index.columns);
+
+  if (FULL_TEXT_COLUMNS.every(column => indexedColumns.includes(column))) {
+    fullTextIndexed.add(tableName);
+  } else {
+    console.log(`Building full-text index for ${tableName}`);
+    await buildFullTextIndex(table, tableName);
+  }
+}
+
+/**
+ * Store embeddings in LanceDB, replacing any existing index for the snapshot
+ */
+export async function storeEmbeddings(owner, repo, snapshot, chunks) {
+  const database = await getDb();
+  const tableName = await resolveTableName(owner, repo, snapshot);
+
+  // Prepare data for LanceDB
+  const data = chunks.map(toRow);
 
   // Drop existing table if exists
   const tables = await database.tableNames();
@@ -59,61 +195,141 @@ export async function storeEmbeddings(owner, repo, chunks) {
   }
 
   // Create new table
-  await database.createTable(tableName, data);
+  const table = await database.createTable(tableName, data);
+  fullTextIndexed.delete(tableName);
+  await buildFullTextIndex(table, tableName);
 
   console.log(`Stored ${data.length} chunks in table ${tableName}`);
 }
 
+/**
+ * Get the blob SHA of every indexed file
+ * Returns null when there is no index or it was built before SHAs were stored
+ */
+export async function getIndexedFileShas(owner, repo, snapshot) {
+  if (!(await isIndexed(owner, repo, snapshot))) {
+    return null;
+  }
+
+  const database = await getDb();
+  const table = await database.openTable(await resolveTableName(owner, repo, snapshot));
+
+  const schema = await table.schema();
+  if (!schema.fields.some(field => field.name === 'sha')) {
+    return null;
+  }
+
+  const rows = await table.query().select(['path', 'sha']).toArray();
+  const shas = new Map();
+  for (const row of rows) {
+    shas.set(row.path, row.sha);
+  }
+  return shas;
+}
+
+/**
+ * Update an existing index in place
+ * Deletes all rows for removedPaths, then adds the new chunks
+ */
+export async function updateEmbeddings(owner, repo, snapshot, chunks, removedPaths) {
+  const database = await getDb();
+  const tableName = await resolveTableName(owner, repo, snapshot);
+  const table = await database.openTable(tableName);
+
+  // Delete in batches to keep predicates reasonably small
+  const DELETE_BATCH_SIZE = 200;
+  for (let i = 0; i < removedPaths.length; i += DELETE_BATCH_SIZE) {
+    const batch = removedPaths.slice(i, i + DELETE_BATCH_SIZE);
+    await table.delete(`path IN (${batch.map(sqlString).join(', ')})`);
+  }
+
+  if (chunks.length > 0) {
+    await table.add(chunks.map(toRow));
+  }
+
+  if (chunks.length > 0 || removedPaths.length > 0) {
+    await buildFullTextIndex(table, tableName);
+  }
+
+  console.log(`Updated table ${tableName}: removed ${removedPaths.length} files, added ${chunks.length} chunks`);
+}
+
 /**
  * Search for similar chunks
+ * Each chunk has the vector distance to the query (lower is closer)
+ * @param {Object} [filters] - Metadata filters (see searchFilters.js)
  */
-export async function searchSimilar(owner, repo, queryVector, limit = 20) {
+export async function searchSimilar(owner, repo, snapshot, queryVector, limit = 20, filters) {
   const database = await getDb();
-  const tableName = getTableName(owner, repo);
+  const tableName = await resolveTableName(owner, repo, snapshot);
 
   const table = await database.openTable(tableName);
-  const results = await table
-    .vectorSearch(queryVector)
-    .limit(limit)
-    .toArray();
+  let query = table.vectorSearch(queryVector);
+  const where = toWhereClause(filters);
+  if (where) {
+    query = query.where(where);
+  }
+  const results = await query.limit(limit).toArray();
 
   return results.map((row) => ({
-    id: row.id,
-    path: row.path,
-    content: row.content,
-    chunkIndex: row.chunkIndex,
-    totalChunks: row.totalChunks,
-    extension: row.extension,
+    ...fromRow(row),
     distance: row._distance,
   }));
 }
 
 /**
- * Get all chunks for a repository
+ * Search chunks by keyword (BM25 over content and path)
+ * Exact identifiers, error messages and file names match even when their embedding is not close
+ * to the query's. Each chunk has its BM25 score (higher is better)
+ * @param {Object} [filters] - Metadata filters (see searchFilters.js)
  */
-export async function getAllChunks(owner, repo) {
+export async function searchKeyword(owner, repo, snapshot, query, limit = 20, filters) {
+  if (!query.trim()) return [];
+
   const database = await getDb();
-  const tableName = getTableName(owner, repo);
+  const tableName = await resolveTableName(owner, repo, snapshot);
+
+  const table = await database.openTable(tableName);
+  await ensureFullTextIndex(table, tableName);
+
+  let search = table.query().fullTextSearch(query, { columns: FULL_TEXT_COLUMNS });
+  const where = toWhereClause(filters);
+  if (where) {
+    // LanceDB's full-text search panics when the filter leaves no rows to score
+    if (await table.countRows(where) === 0) return [];
+    search = search.where(where);
+  }
+  const results = await search.limit(limit).toArray();
+
+  // A row matching in both columns is returned once per column; keep its best score
+  const chunks = new Map();
+  for (const row of results) {
+    if (!chunks.has(row.id) || chunks.get(row.id).score < row._score) {
+      chunks.set(row.id, { ...fromRow(row), score: row._score });
+    }
+  }
+  return [...chunks.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Get all chunks for a repository snapshot
+ */
+export async function getAllChunks(owner, repo, snapshot) {
+  const database = await getDb();
+  const tableName = await resolveTableName(owner, repo, snapshot);
 
   const table = await database.openTable(tableName);
   const results = await table.query().toArray();
 
-  return results.map((row) => ({
-    id: row.id,
-    path: row.path,
-    content: row.content,
-    chunkIndex: row.chunkIndex,
-    totalChunks: row.totalChunks,
-    extension: row.extension,
-  }));
+  return results.map(fromRow);
 }
 
 /**
- * Get chunk count for a repository
+ * Get chunk count for a repository snapshot
  */
-export async function getChunkCount(owner, repo) {
+export async function getChunkCount(owner, repo, snapshot) {
   const database = await getDb();
-  const tableName = getTableName(owner, repo);
+  const tableName = await resolveTableName(owner, repo, snapshot);
 
   try {
     const table = await database.openTable(tableName);
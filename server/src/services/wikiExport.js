@@ -0,0 +1,539 @@
+/**
+ * Export stored wikis for hosting outside the app or committing into a repository
+ * Every format is a zip:
+ * - site: a self-contained static HTML site (sidebar navigation, search index, one URL per page
+ *   and Mermaid diagrams rendered to SVG at export time)
+ * - markdown: one markdown file per page with front matter, in a folder per section
+ * - mkdocs: the markdown pages in docs/ with mkdocs.yml
+ * - docusaurus: the markdown pages in docs/ with sidebars.js and a Docusaurus project
+ */
+import { posix } from 'path';
+import { Marked } from 'marked';
+import { createZip } from './zipWriter.js';
+import { getMermaidScript, renderMermaidDiagrams } from './mermaidRenderer.js';
+import { escapeHtml, renderSitePage, SITE_SCRIPT, SITE_STYLES } from '../templates/site.js';
+import {
+  yamlString,
+  renderMkDocsConfig,
+  MKDOCS_REQUIREMENTS,
+  renderDocusaurusConfig,
+  renderDocusaurusSidebars,
+  renderDocusaurusPackage,
+} from '../templates/docsLayouts.js';
+
+export const EXPORT_FORMATS = ['site', 'markdown', 'mkdocs', 'docusaurus'];
+
+/**
+ * When and from which commit a wiki was generated, e.g. "Generated Mon, 05 Jan 2026 09:30:12 GMT from main (1a2b3c4)"
+ */
+function describeGeneration(wiki) {
+  return [
+    wiki.generatedAt && `Generated ${new Date(wiki.generatedAt).toUTCString()}`,
+    wiki.ref && `from ${wiki.ref}`,
+    wiki.commitSha && `(${wiki.commitSha.slice(0, 7)})`,
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Characters of page text kept per page in the search index
+ */
+const SEARCH_TEXT_CHARS = 20000;
+
+/**
+ * Page content without the collapsed source file lists the app hides as well
+ */
+function stripDetails(content) {
+  return (content || '').replace(/<details>[\s\S]*?<\/details>\s*/g, '');
+}
+
+/**
+ * Wiki structure and page states of a stored wiki
+ * Single-document quick documentation ({ content }) is exported as a wiki with one page
+ */
+function getExportWiki(wiki) {
+  if (wiki.structure) {
+    return { structure: wiki.structure, pages: wiki.pages || {} };
+  }
+  return {
+    structure: {
+      title: `${wiki.owner}/${wiki.repo}`,
+      description: '',
+      pages: [{ id: 'documentation', title: 'Documentation', filePaths: [], relatedPages: [] }],
+    },
+    pages: { documentation: { content: wiki.content } },
+  };
+}
+
+/**
+ * Part of a file name from an id (letters, digits, '_' and '-')
+ */
+function toFileName(id) {
+  return id.replace(/[^a-zA-Z0-9_-]/g, '-') || 'page';
+}
+
+/**
+ * Section tree of a wiki, keeping the order of its pages and sections
+ * Pages and sections whose parent is unknown are placed at the top level; sections without pages
+ * are left out
+ */
+function buildTree(structure) {
+  const tree = { pages: [], sections: [] };
+  const nodes = new Map((structure.sections || []).map(section => [section.id, { section, pages: [], sections: [] }]));
+
+  for (const node of nodes.values()) {
+    const parent = node.section.parentId && nodes.get(node.section.parentId);
+    (parent ? parent.sections : tree.sections).push(node);
+  }
+  for (const page of structure.pages) {
+    const parent = page.parentId && nodes.get(page.parentId);
+    (parent ? parent.pages : tree.pages).push(page);
+  }
+
+  const prune = (nodes) => nodes.filter(node => {
+    node.sections = prune(node.sections);
+    return node.pages.length > 0 || node.sections.length > 0;
+  });
+  tree.sections = prune(tree.sections);
+  return tree;
+}
+
+/**
+ * File name for each page of the site, unique and safe for URLs
+ */
+function getPageFiles(pages) {
+  const files = new Map();
+  const used = new Set(['index']);
+  for (const page of pages) {
+    const base = toFileName(page.id);
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base}-${n}`;
+    }
+    used.add(name);
+    files.set(page.id, `${name}.html`);
+  }
+  return files;
+}
+
+/**
+ * Heading ids matching the app's (lowercase words joined by dashes, numbered when repeated)
+ */
+function createHeadingIdGenerator() {
+  const counts = new Map();
+  return (text) => {
+    const base = text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-') || 'section';
+    const count = counts.get(base) || 0;
+    counts.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+}
+
+/**
+ * Whether a link target is safe in the site: web and mail links, anchors and relative paths
+ * (other schemes, such as javascript:, could run code from generated content)
+ */
+function isSafeHref(href) {
+  const scheme = href.match(/^\s*([a-z][a-z0-9+.-]*):/i)?.[1];
+  return !scheme || ['http', 'https', 'mailto'].includes(scheme.toLowerCase());
+}
+
+/**
+ * Markdown renderer for one page
+ * Raw HTML is escaped (as the app renders it), mermaid blocks are numbered and added to diagrams
+ * (see renderDiagrams), links to other pages by id point to their files and links with other
+ * schemes are kept as plain text
+ */
+function createMarkdownRenderer(pageFiles, diagrams) {
+  const headingId = createHeadingIdGenerator();
+
+  return new Marked({
+    gfm: true,
+    renderer: {
+      code({ text, lang }) {
+        if (lang !== 'mermaid') return false;
+        const index = diagrams.push(text) - 1;
+        return `<pre class="mermaid" data-diagram="${index}">${escapeHtml(text)}</pre>\n`;
+      },
+      heading({ tokens, depth, text }) {
+        return `<h${depth} id="${headingId(text)}">${this.parser.parseInline(tokens)}</h${depth}>\n`;
+      },
+      html({ text }) {
+        return escapeHtml(text);
+      },
+      link({ href, title, tokens }) {
+        const file = pageFiles.get(href.replace(/^[#/]+/, ''));
+        if (!file && !isSafeHref(href)) {
+          return this.parser.parseInline(tokens);
+        }
+        const target = file || href;
+        const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+        return `<a href="${escapeHtml(target)}"${titleAttr}>${this.parser.parseInline(tokens)}</a>`;
+      },
+    },
+  });
+}
+
+/**
+ * Render the diagrams of the pages to SVG
+ * Returns a function replacing the numbered mermaid blocks of a page with their SVG. A block is
+ * kept for the bundled Mermaid script to draw in the browser when its diagram is invalid, or
+ * when no diagram could be rendered because the headless browser is not available
+ */
+async function renderDiagrams(diagrams) {
+  let svgs = [];
+  try {
+    svgs = await renderMermaidDiagrams(diagrams);
+  } catch (error) {
+    console.warn(`[Export] Could not render diagrams to SVG, leaving them to the browser: ${error.message}`);
+  }
+  return html => html.replace(
+    /<pre class="mermaid" data-diagram="(\d+)">[\s\S]*?<\/pre>/g,
+    (block, index) => (svgs[index] ? `<div class="mermaid">${svgs[index]}</div>` : block)
+  );
+}
+
+/**
+ * Plain text of rendered HTML for the search index
+ */
+function toPlainText(html) {
+  return html
+    .replace(/<pre class="mermaid"[^>]*>[\s\S]*?<\/pre>/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Format line ranges of a source, e.g. "L1-40, L88-120"
+ */
+function formatLineRanges(ranges = []) {
+  return ranges
+    .map(r => (r.startLine === r.endLine ? `L${r.startLine}` : `L${r.startLine}-${r.endLine}`))
+    .join(', ');
+}
+
+/**
+ * Sidebar navigation: pages outside sections first, then each section as a collapsible group
+ */
+function renderNav(structure, pageFiles, activePageId) {
+  const renderPages = (pages) => pages
+    .map(page => {
+      const active = page.id === activePageId ? ' class="active"' : '';
+      return `<li><a href="${pageFiles.get(page.id)}"${active}>${escapeHtml(page.title)}</a></li>`;
+    })
+    .join('');
+
+  const renderSections = (nodes) => nodes
+    .map(node => `<li><details open><summary>${escapeHtml(node.section.title)}</summary><ul>${renderPages(node.pages)}${renderSections(node.sections)}</ul></details></li>`)
+    .join('');
+
+  const tree = buildTree(structure);
+  return `<ul>${renderPages(tree.pages)}${renderSections(tree.sections)}</ul>`;
+}
+
+/**
+ * Files of a static HTML site
+ */
+async function getSiteEntries(wiki) {
+  const { structure, pages } = getExportWiki(wiki);
+  const siteTitle = structure.title || `${wiki.owner}/${wiki.repo}`;
+  const pageFiles = getPageFiles(structure.pages);
+  const entries = [];
+  const searchIndex = [];
+  const diagrams = [];
+  let hasMermaid = false;
+
+  const pageHtml = structure.pages.map((page) => {
+    const markdown = stripDetails(pages[page.id]?.content);
+    return markdown
+      ? createMarkdownRenderer(pageFiles, diagrams).parse(markdown)
+      : `<h1>${escapeHtml(page.title)}</h1>\n<p class="meta">This page was not generated.</p>`;
+  });
+  const insertDiagrams = await renderDiagrams(diagrams);
+
+  structure.pages.forEach((page, index) => {
+    const state = pages[page.id];
+    const html = insertDiagrams(pageHtml[index]);
+    const mermaid = html.includes('<pre class="mermaid"');
+    hasMermaid = hasMermaid || mermaid;
+
+    const sources = state?.sources?.length
+      ? `<div class="sources"><strong>Source files</strong><ul>${state.sources
+        .map(source => `<li><code>${escapeHtml(source.path)}</code> ${escapeHtml(formatLineRanges(source.ranges))}</li>`)
+        .join('')}</ul></div>`
+      : '';
+
+    const previous = structure.pages[index - 1];
+    const next = structure.pages[index + 1];
+    const pager = `<div class="pager"><span>${previous ? `<a href="${pageFiles.get(previous.id)}">&larr; ${escapeHtml(previous.title)}</a>` : ''}</span>`
+      + `<span>${next ? `<a href="${pageFiles.get(next.id)}">${escapeHtml(next.title)} &rarr;</a>` : ''}</span></div>`;
+
+    entries.push({
+      name: pageFiles.get(page.id),
+      data: renderSitePage({
+        siteTitle,
+        title: page.title,
+        nav: renderNav(structure, pageFiles, page.id),
+        body: `${html}\n${sources}\n${pager}`,
+        mermaid,
+      }),
+    });
+    searchIndex.push({
+      title: page.title,
+      url: pageFiles.get(page.id),
+      text: toPlainText(pageHtml[index]).slice(0, SEARCH_TEXT_CHARS),
+    });
+  });
+
+  const generated = escapeHtml(describeGeneration(wiki));
+  const firstPage = structure.pages[0];
+
+  entries.push({
+    name: 'index.html',
+    data: renderSitePage({
+      siteTitle,
+      title: siteTitle,
+      nav: renderNav(structure, pageFiles),
+      body: `<h1>${escapeHtml(siteTitle)}</h1>\n`
+        + (structure.description ? `<p>${escapeHtml(structure.description)}</p>\n` : '')
+        + (generated ? `<p class="meta">${generated}</p>\n` : '')
+        + `<h2>Contents</h2>\n<nav class="nav">${renderNav(structure, pageFiles)}</nav>\n`
+        + (firstPage ? `<p><a href="${pageFiles.get(firstPage.id)}">Start reading &rarr;</a></p>\n` : ''),
+      mermaid: false,
+    }),
+  });
+
+  entries.push(
+    { name: 'assets/style.css', data: SITE_STYLES },
+    { name: 'assets/site.js', data: SITE_SCRIPT },
+    // A script rather than JSON so search also works when the site is opened from disk
+    { name: 'assets/search-index.js', data: `window.SEARCH_INDEX = ${JSON.stringify(searchIndex).replace(/</g, '\\u003c')};\n` },
+  );
+  if (hasMermaid) {
+    entries.push({ name: 'assets/mermaid.min.js', data: await getMermaidScript() });
+  }
+
+  return entries;
+}
+
+/**
+ * Markdown file of each page, relative to the docs folder: a folder per section (named after its
+ * id) and file names unique within the export
+ */
+function getPagePaths(structure) {
+  const paths = new Map();
+  const used = new Set(['index.md']);
+
+  const addPages = (pages, dir) => {
+    for (const page of pages) {
+      const base = posix.join(dir, toFileName(page.id));
+      let path = `${base}.md`;
+      for (let n = 2; used.has(path); n++) {
+        path = `${base}-${n}.md`;
+      }
+      used.add(path);
+      paths.set(page.id, path);
+    }
+  };
+  const addSections = (nodes, dir) => {
+    for (const node of nodes) {
+      const sectionDir = posix.join(dir, toFileName(node.section.id));
+      addPages(node.pages, sectionDir);
+      addSections(node.sections, sectionDir);
+    }
+  };
+
+  const tree = buildTree(structure);
+  addPages(tree.pages, '');
+  addSections(tree.sections, '');
+  // Pages of sections unreachable from the top level (cyclic parents) go to the docs folder
+  addPages(structure.pages.filter(page => !paths.has(page.id)), '');
+  return paths;
+}
+
+/**
+ * Relative link from one markdown file to another
+ */
+function relativeLink(from, to) {
+  return posix.relative(posix.dirname(from), to);
+}
+
+function escapeLinkText(text) {
+  return text.replace(/([[\]])/g, '\\$1');
+}
+
+/**
+ * YAML front matter block, skipping empty fields
+ */
+function renderFrontMatter(fields) {
+  const lines = ['---'];
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      lines.push(`${key}:`, ...value.map(item => `  - ${yamlString(item)}`));
+    } else {
+      lines.push(`${key}: ${yamlString(value)}`);
+    }
+  }
+  lines.push('---', '');
+  return lines.join('\n');
+}
+
+/**
+ * Markdown file of a page: front matter, the generated content with links to other pages by id
+ * made relative, and its related pages as relative links
+ */
+function renderMarkdownPage(page, state, structure, paths) {
+  const path = paths.get(page.id);
+  const titles = new Map(structure.pages.map(p => [p.id, p.title]));
+
+  let body = stripDetails(state?.content).trim()
+    .replace(/\]\(#?([^)\s]+)\)/g, (match, target) => (
+      paths.has(target) ? `](${relativeLink(path, paths.get(target))})` : match
+    ));
+  if (!body) {
+    body = `# ${page.title}\n\n_This page was not generated._`;
+  }
+
+  const related = (page.relatedPages || []).filter(id => paths.has(id) && id !== page.id);
+  if (related.length > 0) {
+    body += `\n\n## Related pages\n\n${related
+      .map(id => `- [${escapeLinkText(titles.get(id))}](${relativeLink(path, paths.get(id))})`)
+      .join('\n')}`;
+  }
+
+  const frontMatter = renderFrontMatter({
+    id: posix.basename(path, '.md'),
+    title: page.title,
+    description: page.description,
+    importance: page.importance,
+    sources: (state?.sources || []).map(source => (
+      source.ranges?.length ? `${source.path} (${formatLineRanges(source.ranges)})` : source.path
+    )),
+  });
+  return `${frontMatter}\n${body}\n`;
+}
+
+/**
+ * Home page: title, description and the contents as nested lists of relative links
+ */
+function renderMarkdownIndex(wiki, structure, paths, frontMatter = {}) {
+  const lines = [];
+  const addPages = (pages, indent) => {
+    for (const page of pages) {
+      lines.push(`${indent}- [${escapeLinkText(page.title)}](${paths.get(page.id)})`);
+    }
+  };
+  const addSections = (nodes, indent) => {
+    for (const node of nodes) {
+      lines.push(`${indent}- **${node.section.title}**`);
+      addPages(node.pages, `${indent}  `);
+      addSections(node.sections, `${indent}  `);
+    }
+  };
+  const tree = buildTree(structure);
+  addPages(tree.pages, '');
+  addSections(tree.sections, '');
+
+  const generated = describeGeneration(wiki);
+  return `${renderFrontMatter({ title: structure.title, ...frontMatter })}
+# ${structure.title}
+
+${structure.description ? `${structure.description}\n\n` : ''}${generated ? `_${generated}_\n\n` : ''}## Contents
+
+${lines.join('\n')}
+`;
+}
+
+/**
+ * mkdocs.yml navigation: the home page, then pages and sections in wiki order
+ */
+function renderMkDocsNav(structure, paths) {
+  const lines = ['  - Home: index.md'];
+  const addPages = (pages, indent) => {
+    for (const page of pages) {
+      lines.push(`${indent}- ${yamlString(page.title)}: ${yamlString(paths.get(page.id))}`);
+    }
+  };
+  const addSections = (nodes, indent) => {
+    for (const node of nodes) {
+      lines.push(`${indent}- ${yamlString(node.section.title)}:`);
+      addPages(node.pages, `${indent}    `);
+      addSections(node.sections, `${indent}    `);
+    }
+  };
+  const tree = buildTree(structure);
+  addPages(tree.pages, '  ');
+  addSections(tree.sections, '  ');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Docusaurus sidebar items: doc ids (paths without .md) and a category per section
+ */
+function getDocusaurusSidebar(structure, paths) {
+  const toItems = (pages, nodes) => [
+    ...pages.map(page => paths.get(page.id).slice(0, -'.md'.length)),
+    ...nodes.map(node => ({ type: 'category', label: node.section.title, items: toItems(node.pages, node.sections) })),
+  ];
+  const tree = buildTree(structure);
+  return ['index', ...toItems(tree.pages, tree.sections)];
+}
+
+/**
+ * Files of the markdown, MkDocs and Docusaurus layouts
+ */
+function getMarkdownEntries(wiki, format) {
+  const { structure, pages } = getExportWiki(wiki);
+  const paths = getPagePaths(structure);
+  const docsDir = format === 'markdown' ? '' : 'docs/';
+  const site = { title: structure.title || `${wiki.owner}/${wiki.repo}`, description: structure.description };
+
+  const entries = structure.pages.map(page => ({
+    name: `${docsDir}${paths.get(page.id)}`,
+    data: renderMarkdownPage(page, pages[page.id], structure, paths),
+  }));
+  entries.unshift({
+    name: `${docsDir}index.md`,
+    data: renderMarkdownIndex(wiki, { ...structure, title: site.title }, paths, format === 'docusaurus' ? { slug: '/' } : {}),
+  });
+
+  if (format === 'mkdocs') {
+    entries.push(
+      { name: 'mkdocs.yml', data: renderMkDocsConfig({ ...site, nav: renderMkDocsNav(structure, paths) }) },
+      { name: 'requirements.txt', data: MKDOCS_REQUIREMENTS },
+    );
+  } else if (format === 'docusaurus') {
+    entries.push(
+      { name: 'package.json', data: renderDocusaurusPackage(`${toFileName(`${wiki.owner}-${wiki.repo}`)}-docs`.toLowerCase()) },
+      { name: 'docusaurus.config.js', data: renderDocusaurusConfig(site) },
+      { name: 'sidebars.js', data: renderDocusaurusSidebars(getDocusaurusSidebar(structure, paths)) },
+    );
+  }
+  return entries;
+}
+
+/**
+ * Export a stored wiki as a zip
+ * @param {Object} wiki - Stored wiki version ({ structure, pages } or { content }, with generatedAt, commitSha, ...)
+ * @param {string} format - Export format (see EXPORT_FORMATS)
+ * @returns {Promise<Buffer>} Zip archive
+ */
+export async function exportWiki(wiki, format) {
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Unknown export format: ${format}`);
+  }
+  const entries = format === 'site' ? await getSiteEntries(wiki) : getMarkdownEntries(wiki, format);
+  return createZip(entries, wiki.generatedAt ? new Date(wiki.generatedAt) : new Date());
+}
@@ -1,8 +1,10 @@
 import { config } from '../config/index.js';
-import { streamChat } from '../providers/index.js';
-import { fetchRepositoryFiles, fetchReadmeContent } from './repository.js';
-import { queryRag, buildRagContext, isIndexed, getProjectMetadata } from './ragQuery.js';
+import { streamChat, resolvePreset, getGenerationKeyCount } from '../providers/index.js';
+import { countTokens } from '../providers/tokenizer.js';
+import { parseRepositoryUrl, fetchRepositoryFiles, fetchReadmeContent } from './repository.js';
+import { queryRag, buildRagContext, packRagContext, fuseRankings, isIndexed, getProjectMetadata, getChunkRelevance, getRagLimits } from './ragQuery.js';
 import { logError } from './errorLog.js';
+import { normalizeIndexingSettings, resolveIndexingConfig } from './indexingConfig.js';
 import {
   getStructureGenerationPrompt,
   getPageGenerationPrompt,
@@ -14,19 +16,41 @@ import {
 } from '../templates/wikiStructure.js';
 
 /**
- * Get the file tree of a repository as a string using GitHub API
+ * Get the source remote for an indexed project (projects indexed before other hosts were
+ * supported may not have a URL)
  */
-async function getFileTree(owner, repo, branch) {
-  const { files } = await fetchRepositoryFiles(owner, repo, config);
+async function getProjectRemote(owner, repo, options = {}) {
+  const metadata = await getProjectMetadata(owner, repo, options.snapshot);
+  return parseRepositoryUrl(metadata?.url || `https://github.com/${owner}/${repo}`, config);
+}
+
+/**
+ * Fetch the files of an indexed project at a ref from its source, filtered with the
+ * project's indexing settings
+ */
+async function fetchProjectFiles(owner, repo, branch, options = {}) {
+  const metadata = await getProjectMetadata(owner, repo, options.snapshot);
+  const remote = await getProjectRemote(owner, repo, options);
+  const indexingConfig = resolveIndexingConfig(normalizeIndexingSettings(metadata?.indexing));
+  const { files } = await fetchRepositoryFiles(remote, indexingConfig, { ...options, ref: branch });
+  return files;
+}
+
+/**
+ * Get the file tree of a repository as a string from its source
+ */
+async function getFileTree(owner, repo, branch, options = {}) {
+  const files = await fetchProjectFiles(owner, repo, branch, options);
   const paths = files.map(f => f.path).sort();
   return { fileTree: paths.join('\n'), files };
 }
 
 /**
- * Get the README content from a repository using GitHub API
+ * Get the README content from a repository's source
  */
-async function getReadmeContent(owner, repo, branch) {
-  return fetchReadmeContent(owner, repo, branch);
+async function getReadmeContent(owner, repo, branch, options = {}) {
+  const remote = await getProjectRemote(owner, repo, options);
+  return fetchReadmeContent(remote, branch, config, options);
 }
 
 /**
@@ -55,13 +79,325 @@ function getLimits(options) {
 }
 
 /**
- * Get relevant chunks for a page using RAG vector search
+ * Share of a page's chunks reserved for the files the structure declared for it
+ */
+const FILE_PATHS_SHARE = 0.6;
+
+/**
+ * Sub-queries requested per page when query expansion is on
+ */
+const EXPANSION_QUERY_COUNT = 4;
+
+/**
+ * Tokens of a page prompt besides the retrieved code (instructions and file list)
+ */
+const PAGE_PROMPT_TOKENS = 1500;
+
+/**
+ * Number of pages to generate at once
+ * One request per API key in the pool (capped by config.wikiPageConcurrency); in low TPM mode,
+ * only as many requests as each key's TPM budget fits (prompt and output are estimated at twice
+ * the prompt, as the TPM tracker does). A local model answers one request at a time
+ */
+function getPageConcurrency(options = {}) {
+  const { generation } = resolvePreset(options);
+  if (generation.provider === 'ollama') {
+    return 1;
+  }
+
+  const keys = Math.max(1, getGenerationKeyCount(options));
+  let concurrency = keys;
+  if (options.lowTpmMode && generation.provider === 'gemini') {
+    const pageTokens = 2 * (getRagLimits(options).MAX_TOKENS + PAGE_PROMPT_TOKENS);
+    concurrency = keys * Math.max(1, Math.floor((options.tpmLimit || 15000) / pageTokens));
+  }
+
+  return Math.max(1, Math.min(config.wikiPageConcurrency, concurrency));
+}
+
+/**
+ * Run async generators with limited concurrency, yielding their values as they arrive
+ * Values of different generators interleave; an error in one generator is rethrown
+ * Once it is rethrown (or the consumer stops early), no other task starts and the running
+ * generators are closed at their next value, so a failed job stops spending API budget
+ * @param {Array<Function>} tasks - Functions creating the generators, started in order
+ * @param {number} concurrency - Max generators running at once
+ */
+async function* generateConcurrently(tasks, concurrency) {
+  const queue = [];
+  let wake = null;
+  let next = 0;
+  let running = 0;
+  let stopped = false;
+
+  const push = (item) => {
+    queue.push(item);
+    wake?.();
+    wake = null;
+  };
+
+  const start = () => {
+    if (stopped) return;
+    const generator = tasks[next++]();
+    running++;
+    (async () => {
+      try {
+        for await (const value of generator) {
+          if (stopped) break;
+          push({ value });
+        }
+      } catch (error) {
+        push({ error });
+      } finally {
+        running--;
+        push({ done: true });
+      }
+    })();
+  };
+
+  while (next < tasks.length && running < concurrency) {
+    start();
+  }
+
+  try {
+    while (running > 0 || queue.length > 0) {
+      if (queue.length === 0) {
+        await new Promise(resolve => { wake = resolve; });
+        continue;
+      }
+
+      const item = queue.shift();
+      if (item.error) {
+        throw item.error;
+      }
+      if (item.done) {
+        if (next < tasks.length) start();
+        continue;
+      }
+      yield item.value;
+    }
+  } finally {
+    stopped = true;
+  }
+}
+
+/**
+ * Retrieve chunks for one page query
+ * When the page declares filePaths, most of the chunks come from a search restricted to those
+ * files and directories; the rest of the repository fills the remaining slots (and any slots
+ * the declared files cannot fill)
+ */
+async function retrievePageChunks(owner, repo, page, searchQuery, options, limit) {
+  if (!page.filePaths?.length) {
+    return queryRag(owner, repo, searchQuery, options, limit);
+  }
+
+  // Declared paths are literal, so brackets (e.g. Next.js "[slug].tsx") are not glob classes
+  const paths = page.filePaths.map(path => path.replace(/[[\]]/g, '\\$&'));
+  const scopedLimit = Math.ceil(limit * FILE_PATHS_SHARE);
+  const [scoped, global] = await Promise.all([
+    queryRag(owner, repo, searchQuery, { ...options, filters: { ...options.filters, paths } }, scopedLimit),
+    queryRag(owner, repo, searchQuery, options, limit),
+  ]);
+
+  const ids = new Set(scoped.map(chunk => chunk.id));
+  const rest = global.filter(chunk => !ids.has(chunk.id));
+  console.log(`[Wiki] "${page.title}": ${scoped.length} chunks from declared files, ${Math.min(rest.length, limit - scoped.length)} from the rest`);
+  return [...scoped, ...rest].slice(0, limit);
+}
+
+/**
+ * Ask the LLM for search queries that cover a page: symbols, file names and concepts
+ * Returns no queries if the response cannot be parsed, so the page falls back to its own query
+ */
+async function expandPageQuery(page, options = {}) {
+  const prompt = `Wiki page: ${page.title}
+${page.description ? `Description: ${page.description}\n` : ''}${page.filePaths?.length ? `Related files: ${page.filePaths.join(', ')}\n` : ''}
+Write ${EXPANSION_QUERY_COUNT} short search queries that would find the source code this page should document. Cover different angles: likely function, class or component names, file names, and the concepts involved.
+
+Respond with only a JSON array of strings. Example: ["createSession", "auth middleware", "session token expiry"]`;
+
+  let response = '';
+  try {
+    for await (const chunk of streamChat('You write code search queries.', [{ role: 'user', content: prompt }], options)) {
+      response += chunk;
+    }
+
+    const queries = JSON.parse(response.match(/\[[\s\S]*\]/)?.[0] || '');
+    return [...new Set(queries.filter(query => typeof query === 'string').map(query => query.trim()).filter(Boolean))]
+      .slice(0, EXPANSION_QUERY_COUNT);
+  } catch (error) {
+    console.warn(`[Wiki] Query expansion failed for "${page.title}", using the page query only: ${error.message}`);
+    return [];
+  }
+}
+
+/**
+ * Get relevant chunks for a page using RAG search
+ * The page is searched with its title and description. With query expansion (options.queryExpansion,
+ * defaults to config.wikiQueryExpansion) the LLM adds sub-queries that run in parallel; their
+ * results are fused and each chunk lists the queries that found it in chunk.queries
  */
 async function getRelevantChunks(owner, repo, page, options = {}) {
   const limits = getLimits(options);
+  const limit = limits.WIKI_CHUNK_LIMIT;
   // Build search query from page title and description
   const searchQuery = `${page.title}. ${page.description || ''}`;
-  return queryRag(owner, repo, searchQuery, options, limits.WIKI_CHUNK_LIMIT);
+
+  if (!(options.queryExpansion ?? config.wikiQueryExpansion)) {
+    return retrievePageChunks(owner, repo, page, searchQuery, options, limit);
+  }
+
+  const subQueries = (await expandPageQuery(page, options)).filter(query => query !== searchQuery);
+  const queries = [searchQuery, ...subQueries];
+  console.log(`[Wiki] "${page.title}": searching with ${queries.length} queries`);
+
+  const rankings = await Promise.all(
+    queries.map(query => retrievePageChunks(owner, repo, page, query, options, limit))
+  );
+
+  // Remember which queries found each chunk and its best relevance before fusing
+  const found = new Map();
+  rankings.forEach((ranking, index) => {
+    for (const chunk of ranking) {
+      const entry = found.get(chunk.id) || { queries: [], relevance: 0 };
+      if (!entry.queries.includes(queries[index])) entry.queries.push(queries[index]);
+      entry.relevance = Math.max(entry.relevance, getChunkRelevance(chunk));
+      found.set(chunk.id, entry);
+    }
+  });
+
+  return fuseRankings(rankings)
+    .slice(0, limit)
+    .map(chunk => ({ ...chunk, ...found.get(chunk.id) }));
+}
+
+/**
+ * Flatten nested sections into a section list and a page list linked by parent ids
+ * Sections may nest their pages and subsections (as structure generation writes them), list page
+ * ids of structure.pages, or already be flat with parent ids (as stored)
+ */
+function flattenSections(sections, parentId, result = { sections: [], pages: [], pageParents: new Map() }) {
+  sections.forEach((section, index) => {
+    const id = section.id || `${parentId ? `${parentId}-` : ''}section-${index + 1}`;
+    const sectionParentId = parentId ?? section.parentId;
+    result.sections.push({ id, title: section.title || 'Untitled', ...(sectionParentId && { parentId: sectionParentId }) });
+
+    for (const page of Array.isArray(section.pages) ? section.pages : []) {
+      if (typeof page === 'string') {
+        result.pageParents.set(page, id);
+      } else {
+        result.pages.push({ ...page, parentId: id });
+      }
+    }
+
+    const subsections = section.sections || section.subsections;
+    if (Array.isArray(subsections)) {
+      flattenSections(subsections, id, result);
+    }
+  });
+  return result;
+}
+
+/**
+ * Link pages and sections into a valid tree and order both depth first, so pages generate in
+ * the order the sidebar shows them
+ * Unknown or cyclic parent ids are dropped (the page or section moves to the top level)
+ */
+function normalizeSections(structure) {
+  const sectionsById = new Map(structure.sections.map(section => [section.id, section]));
+  if (sectionsById.size !== structure.sections.length) {
+    throw new Error('Duplicate section id');
+  }
+
+  for (const section of structure.sections) {
+    const seen = new Set([section.id]);
+    let parent = sectionsById.get(section.parentId);
+    while (parent && !seen.has(parent.id)) {
+      seen.add(parent.id);
+      parent = sectionsById.get(parent.parentId);
+    }
+    if (!sectionsById.has(section.parentId) || parent) {
+      delete section.parentId;
+    }
+  }
+  for (const page of structure.pages) {
+    if (!sectionsById.has(page.parentId)) {
+      delete page.parentId;
+    }
+  }
+
+  const order = new Map();
+  const visit = (parentId) => {
+    for (const section of structure.sections.filter(s => s.parentId === parentId)) {
+      order.set(section.id, order.size + 1);
+      visit(section.id);
+    }
+  };
+  visit(undefined);
+
+  structure.sections.sort((a, b) => order.get(a.id) - order.get(b.id));
+  // Top-level pages first, then each section's pages in their own order (sort is stable)
+  structure.pages.sort((a, b) => (order.get(a.parentId) || 0) - (order.get(b.parentId) || 0));
+}
+
+/**
+ * Validate a wiki structure and fill in the optional fields of its pages
+ * Used for generated structures and for structures edited by the user before page generation
+ * @param {Object} structure - { title, description, pages: [{ id, title, filePaths, parentId?, ... }],
+ *   sections?: [{ id, title, parentId? }] } - sections may also nest their pages and subsections
+ * @returns {Object} The structure, with every page complete and sections flattened
+ * @throws {Error} If the structure has no title or pages, or page or section ids repeat
+ */
+export function normalizeWikiStructure(structure) {
+  // Validate required fields
+  if (!structure?.title || !(Array.isArray(structure.pages) || Array.isArray(structure.sections))) {
+    throw new Error('Invalid structure format');
+  }
+
+  const pages = Array.isArray(structure.pages) ? structure.pages : [];
+  if (Array.isArray(structure.sections) && structure.sections.length > 0) {
+    const flat = flattenSections(structure.sections);
+    structure.sections = flat.sections;
+    structure.pages = [...pages, ...flat.pages];
+    for (const page of structure.pages) {
+      page.parentId = flat.pageParents.get(page.id) ?? page.parentId;
+    }
+  } else {
+    delete structure.sections;
+    structure.pages = pages.map(({ parentId, ...page }) => page);
+  }
+
+  if (structure.pages.length === 0) {
+    throw new Error('The structure has no pages');
+  }
+
+  // Ensure each page has required fields
+  const ids = new Set();
+  for (const page of structure.pages) {
+    page.id = page.id || `page-${structure.pages.indexOf(page) + 1}`;
+    page.title = page.title || 'Untitled';
+    page.filePaths = Array.isArray(page.filePaths) ? page.filePaths : [];
+    page.relatedPages = Array.isArray(page.relatedPages) ? page.relatedPages : [];
+    page.importance = page.importance || 'medium';
+
+    if (ids.has(page.id)) {
+      throw new Error(`Duplicate page id: ${page.id}`);
+    }
+    ids.add(page.id);
+  }
+
+  // Pages removed or merged away may still be linked from others
+  for (const page of structure.pages) {
+    page.relatedPages = page.relatedPages.filter(id => ids.has(id) && id !== page.id);
+  }
+
+  if (structure.sections) {
+    normalizeSections(structure);
+  }
+
+  structure.description = structure.description || '';
+  return structure;
 }
 
 /**
@@ -70,7 +406,7 @@ async function getRelevantChunks(owner, repo, page, options = {}) {
  */
 async function generateWikiStructure(owner, repo, branch, isComprehensive, options = {}) {
   const limits = getLimits(options);
-  const { fileTree: rawFileTree, files } = await getFileTree(owner, repo, branch);
+  const { fileTree: rawFileTree, files } = await getFileTree(owner, repo, branch, options);
   let fileTree = rawFileTree;
 
   // Truncate file tree if too long
@@ -82,11 +418,15 @@ async function generateWikiStructure(owner, repo, branch, isComprehensive, optio
   // Use RAG to get project overview instead of raw README
   const overviewQuery = 'project overview purpose features architecture getting started README';
   const overviewChunks = await queryRag(owner, repo, overviewQuery, options, limits.STRUCTURE_CHUNK_LIMIT);
-  const overviewContext = buildRagContext(overviewChunks, options);
+  // The file tree shares the prompt with the overview
+  const overviewContext = buildRagContext(overviewChunks, options, {
+    systemPrompt: 'You are a technical documentation expert.',
+    messages: [{ role: 'user', content: fileTree }],
+  });
   console.log(`[Wiki] Structure using RAG context: ${overviewChunks.length} chunks, ${overviewContext.length} chars`);
 
   const prompt = getStructureGenerationPrompt(owner, repo, fileTree, overviewContext, isComprehensive);
-  console.log(`[Wiki] Structure prompt size: ${prompt.length} chars (~${Math.ceil(prompt.length / 4)} tokens)`);
+  console.log(`[Wiki] Structure prompt size: ${prompt.length} chars (${countTokens(prompt, resolvePreset(options).generation.provider)} tokens)`);
 
   const messages = [
     {
@@ -107,21 +447,7 @@ async function generateWikiStructure(owner, repo, branch, isComprehensive, optio
   try {
     const structure = JSON.parse(structureJson);
 
-    // Validate required fields
-    if (!structure.title || !structure.pages || !Array.isArray(structure.pages)) {
-      throw new Error('Invalid structure format');
-    }
-
-    // Ensure each page has required fields
-    for (const page of structure.pages) {
-      page.id = page.id || `page-${structure.pages.indexOf(page) + 1}`;
-      page.title = page.title || 'Untitled';
-      page.filePaths = page.filePaths || [];
-      page.relatedPages = page.relatedPages || [];
-      page.importance = page.importance || 'medium';
-    }
-
-    return structure;
+    return normalizeWikiStructure(structure);
   } catch (e) {
     console.error('Failed to parse wiki structure:', e.message);
     console.error('Raw response:', structureJson.slice(0, 500));
@@ -135,7 +461,7 @@ async function generateWikiStructure(owner, repo, branch, isComprehensive, optio
  */
 async function generateProductDocsStructure(owner, repo, branch, options = {}) {
   const limits = getLimits(options);
-  const { fileTree: rawFileTree, files } = await getFileTree(owner, repo, branch);
+  const { fileTree: rawFileTree, files } = await getFileTree(owner, repo, branch, options);
   let fileTree = rawFileTree;
 
   // Truncate file tree if too long
@@ -147,11 +473,15 @@ async function generateProductDocsStructure(owner, repo, branch, options = {}) {
   // Use RAG to get project overview instead of raw README
   const overviewQuery = 'product features user guide getting started usage documentation README';
   const overviewChunks = await queryRag(owner, repo, overviewQuery, options, limits.STRUCTURE_CHUNK_LIMIT);
-  const overviewContext = buildRagContext(overviewChunks, options);
+  // The file tree shares the prompt with the overview
+  const overviewContext = buildRagContext(overviewChunks, options, {
+    systemPrompt: 'You are a product documentation expert focused on end-user experience.',
+    messages: [{ role: 'user', content: fileTree }],
+  });
   console.log(`[ProductDocs] Structure using RAG context: ${overviewChunks.length} chunks, ${overviewContext.length} chars`);
 
   const prompt = getProductDocsStructurePrompt(owner, repo, fileTree, overviewContext);
-  console.log(`[ProductDocs] Structure prompt size: ${prompt.length} chars (~${Math.ceil(prompt.length / 4)} tokens)`);
+  console.log(`[ProductDocs] Structure prompt size: ${prompt.length} chars (${countTokens(prompt, resolvePreset(options).generation.provider)} tokens)`);
 
   const messages = [
     {
@@ -172,21 +502,7 @@ async function generateProductDocsStructure(owner, repo, branch, options = {}) {
   try {
     const structure = JSON.parse(structureJson);
 
-    // Validate required fields
-    if (!structure.title || !structure.pages || !Array.isArray(structure.pages)) {
-      throw new Error('Invalid structure format');
-    }
-
-    // Ensure each page has required fields
-    for (const page of structure.pages) {
-      page.id = page.id || `page-${structure.pages.indexOf(page) + 1}`;
-      page.title = page.title || 'Untitled';
-      page.filePaths = page.filePaths || [];
-      page.relatedPages = page.relatedPages || [];
-      page.importance = page.importance || 'medium';
-    }
-
-    return structure;
+    return normalizeWikiStructure(structure);
   } catch (e) {
     console.error('Failed to parse product docs structure:', e.message);
     console.error('Raw response:', structureJson.slice(0, 500));
@@ -215,8 +531,8 @@ async function getWikiStructure(owner, repo, branch, type, options = {}) {
     template.title = `${owner}/${repo}`;
     template.description = `Documentation for ${owner}/${repo}`;
 
-    // Populate file paths from repository via GitHub API
-    const { files } = await fetchRepositoryFiles(owner, repo, config);
+    // Populate file paths from the repository's source
+    const files = await fetchProjectFiles(owner, repo, branch, options);
     const allPaths = files.map(f => f.path);
 
     // Simple heuristic to assign files to pages
@@ -272,8 +588,8 @@ async function getProductDocsStructure(owner, repo, branch, options = {}) {
     template.title = `${owner}/${repo} - User Guide`;
     template.description = `User documentation for ${owner}/${repo}`;
 
-    // Populate file paths from repository via GitHub API - focus on user-facing files
-    const { files } = await fetchRepositoryFiles(owner, repo, config);
+    // Populate file paths from the repository's source - focus on user-facing files
+    const files = await fetchProjectFiles(owner, repo, branch, options);
     const allPaths = files.map(f => f.path);
 
     // Heuristic to assign files to pages based on feature areas
@@ -326,6 +642,45 @@ async function getProductDocsStructure(owner, repo, branch, options = {}) {
   }
 }
 
+/**
+ * Collapse RAG chunks into one source per file
+ * Keeps the highest relevance for each path and the line ranges of every retrieved chunk, and
+ * with query expansion the queries that found the file's chunks
+ */
+function toWikiSources(chunks) {
+  const sourceMap = new Map();
+
+  for (const chunk of chunks) {
+    const relevance = getChunkRelevance(chunk);
+    const source = sourceMap.get(chunk.path) || { path: chunk.path, relevance, ranges: [] };
+    source.relevance = Math.max(source.relevance, relevance);
+    if (chunk.startLine != null) {
+      source.ranges.push({ startLine: chunk.startLine, endLine: chunk.endLine });
+    }
+    if (chunk.queries) {
+      source.queries = [...new Set([...(source.queries || []), ...chunk.queries])];
+    }
+    sourceMap.set(chunk.path, source);
+  }
+
+  // Sort and merge overlapping ranges so each file lists distinct spans
+  for (const source of sourceMap.values()) {
+    source.ranges.sort((a, b) => a.startLine - b.startLine);
+    const merged = [];
+    for (const range of source.ranges) {
+      const last = merged[merged.length - 1];
+      if (last && range.startLine <= last.endLine + 1) {
+        last.endLine = Math.max(last.endLine, range.endLine);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+    source.ranges = merged;
+  }
+
+  return Array.from(sourceMap.values());
+}
+
 /**
  * Generate content for a single wiki page
  * Phase 2: Use RAG to find relevant code chunks and generate documentation
@@ -342,14 +697,16 @@ async function* generatePageContent(owner, repo, page, repoUrl, options = {}) {
     return { sources: [] };
   }
 
-  // Build context from RAG chunks
-  const context = buildRagContext(chunks);
-
   // Get unique file paths from chunks for the prompt
   const filePaths = [...new Set(chunks.map(c => c.path))];
+  const pagePrompt = getPageGenerationPrompt(page.title, filePaths, repoUrl);
+
+  // Build context from RAG chunks within what the page prompt leaves of the budget
+  const { context, usage } = packRagContext(chunks, options, { messages: [{ role: 'user', content: pagePrompt }] });
+  yield { type: 'status', message: `Generating: ${page.title} (${usage.contextTokens} tokens of context from ${usage.files} files)`, usage };
 
   // Generate page prompt
-  const userPrompt = `${getPageGenerationPrompt(page.title, filePaths, repoUrl)}
+  const userPrompt = `${pagePrompt}
 
 Here is the relevant content from the source files (retrieved via semantic search):
 
@@ -369,21 +726,8 @@ Generate the wiki page content now.`;
     yield { type: 'content', chunk };
   }
 
-  // Return sources with relevance scores from RAG
-  const sources = chunks.map(c => ({
-    path: c.path,
-    relevance: 1 - (c.distance || 0), // Convert distance to relevance (lower distance = higher relevance)
-  }));
-
-  // Deduplicate sources, keeping highest relevance for each path
-  const sourceMap = new Map();
-  for (const source of sources) {
-    if (!sourceMap.has(source.path) || sourceMap.get(source.path).relevance < source.relevance) {
-      sourceMap.set(source.path, source);
-    }
-  }
-
-  return { sources: Array.from(sourceMap.values()) };
+  // Return sources with relevance scores and line ranges from RAG
+  return { sources: toWikiSources(chunks) };
 }
 
 /**
@@ -402,14 +746,16 @@ async function* generateProductDocsPageContent(owner, repo, page, productName, o
     return { sources: [] };
   }
 
-  // Build context from RAG chunks
-  const context = buildRagContext(chunks);
-
   // Get unique file paths from chunks for the prompt
   const filePaths = [...new Set(chunks.map(c => c.path))];
+  const pagePrompt = getProductDocsPagePrompt(page.title, filePaths, productName);
+
+  // Build context from RAG chunks within what the page prompt leaves of the budget
+  const { context, usage } = packRagContext(chunks, options, { messages: [{ role: 'user', content: pagePrompt }] });
+  yield { type: 'status', message: `Generating: ${page.title} (${usage.contextTokens} tokens of context from ${usage.files} files)`, usage };
 
   // Generate page prompt using product docs prompt
-  const userPrompt = `${getProductDocsPagePrompt(page.title, filePaths, productName)}
+  const userPrompt = `${pagePrompt}
 
 Here is the relevant content from the source files (retrieved via semantic search). Extract the USER-FACING information:
 
@@ -429,55 +775,114 @@ Generate the product documentation page content now. Remember to focus on the EN
     yield { type: 'content', chunk };
   }
 
-  // Return sources with relevance scores from RAG
-  const sources = chunks.map(c => ({
-    path: c.path,
-    relevance: 1 - (c.distance || 0),
-  }));
+  // Return sources with relevance scores and line ranges from RAG
+  return { sources: toWikiSources(chunks) };
+}
+
+/**
+ * Generate only the structure of a wiki, so it can be edited before its pages are generated
+ * @param {string} owner - Repository owner
+ * @param {string} repo - Repository name
+ * @param {string} type - Wiki type (brief, detailed, dynamic, product-docs)
+ * @param {Object} options - Provider options
+ * @returns {Promise<Object>} The wiki structure
+ */
+export async function generateStructure(owner, repo, type, options = {}) {
+  const indexed = await isIndexed(owner, repo, options.snapshot);
+  if (!indexed) {
+    throw new Error('Repository must be indexed before generating documentation. Please index the repository first.');
+  }
 
-  // Deduplicate sources
-  const sourceMap = new Map();
-  for (const source of sources) {
-    if (!sourceMap.has(source.path) || sourceMap.get(source.path).relevance < source.relevance) {
-      sourceMap.set(source.path, source);
+  // Get metadata to find the indexed commit (older metadata only has the branch)
+  const metadata = await getProjectMetadata(owner, repo, options.snapshot);
+  const branch = metadata?.commitSha || metadata?.ref || metadata?.branch || 'main';
+
+  return type === 'product-docs'
+    ? getProductDocsStructure(owner, repo, branch, options)
+    : getWikiStructure(owner, repo, branch, type, options);
+}
+
+/**
+ * Run the content generator of one page, wrapped in its page events
+ * Page failures are reported as page_error so the remaining pages still generate
+ * @param {Object} page - Page from the wiki structure
+ * @param {AsyncGenerator} contentGenerator - Page content generator (returns { sources })
+ * @param {string} label - Log label for errors
+ */
+async function* generatePage(page, contentGenerator, label) {
+  // Signal page start
+  yield {
+    type: 'page_start',
+    pageId: page.id,
+    title: page.title,
+  };
+
+  yield { type: 'status', pageId: page.id, message: `Generating: ${page.title}...` };
+
+  // Generate page content using RAG
+  let sources = [];
+  try {
+    let result = await contentGenerator.next();
+
+    // Pages can generate side by side, so every event names its page
+    while (!result.done) {
+      yield { ...result.value, pageId: page.id };
+      result = await contentGenerator.next();
     }
+
+    // Get sources from return value
+    if (result.value && result.value.sources) {
+      sources = result.value.sources;
+    }
+  } catch (error) {
+    logError(`${label} generation error (${page.title}): ${error.message}`);
+    yield { type: 'page_error', pageId: page.id, message: error.message };
   }
 
-  return { sources: Array.from(sourceMap.values()) };
+  // Signal page complete
+  yield {
+    type: 'page_complete',
+    pageId: page.id,
+    sources,
+  };
 }
 
 /**
  * Generate wiki documentation with streaming events
+ * options.structure (a structure edited by the user) replaces structure generation
  *
  * Yields events in this order:
  * 1. { type: 'status', message: '...' }
  * 2. { type: 'structure', wiki: {...} }
- * 3. For each page:
+ * 3. For each page (pages generate concurrently, so their events interleave):
  *    - { type: 'page_start', pageId, title }
- *    - { type: 'content', chunk: '...' } (multiple)
+ *    - { type: 'status', pageId, message: '...', usage: {...} } (token usage of the page's context)
+ *    - { type: 'content', pageId, chunk: '...' } (multiple)
  *    - { type: 'page_complete', pageId, sources: [...] }
  * 4. { type: 'complete' }
  */
 export async function* generateWiki(owner, repo, type = 'detailed', options = {}) {
-  const repoUrl = `https://github.com/${owner}/${repo}`;
-
   // Check if repository is indexed (required for RAG)
-  const indexed = await isIndexed(owner, repo);
+  const indexed = await isIndexed(owner, repo, options.snapshot);
   if (!indexed) {
     yield { type: 'error', message: 'Repository must be indexed before generating documentation. Please index the repository first.' };
     return;
   }
 
-  // Get metadata to find the branch
-  const metadata = await getProjectMetadata(owner, repo);
-  const branch = metadata?.branch || 'main';
+  // Get metadata to find the indexed commit (older metadata only has the branch)
+  const metadata = await getProjectMetadata(owner, repo, options.snapshot);
+  const branch = metadata?.commitSha || metadata?.ref || metadata?.branch || 'main';
+  const repoUrl = metadata?.url || `https://github.com/${owner}/${repo}`;
 
   // Phase 1: Get/Generate structure
   yield { type: 'status', message: 'Analyzing codebase structure...' };
 
   let structure;
   try {
-    structure = await getWikiStructure(owner, repo, branch, type, options);
+    // A structure edited by the user skips structure generation
+    structure = options.structure
+      ? normalizeWikiStructure(options.structure)
+      : await getWikiStructure(owner, repo, branch, type, options);
   } catch (error) {
     yield { type: 'error', message: error.message };
     return;
@@ -488,44 +893,11 @@ export async function* generateWiki(owner, repo, type = 'detailed', options = {}
 
   yield { type: 'status', message: 'Generating documentation...' };
 
-  // Phase 2: Generate content for each page
-  for (const page of structure.pages) {
-    // Signal page start
-    yield {
-      type: 'page_start',
-      pageId: page.id,
-      title: page.title,
-    };
-
-    yield { type: 'status', message: `Generating: ${page.title}...` };
-
-    // Generate page content using RAG
-    let sources = [];
-    try {
-      const generator = generatePageContent(owner, repo, page, repoUrl, options);
-      let result = await generator.next();
-
-      while (!result.done) {
-        yield result.value;
-        result = await generator.next();
-      }
-
-      // Get sources from return value
-      if (result.value && result.value.sources) {
-        sources = result.value.sources;
-      }
-    } catch (error) {
-      logError(`Page generation error (${page.title}): ${error.message}`);
-      yield { type: 'page_error', pageId: page.id, message: error.message };
-    }
-
-    // Signal page complete
-    yield {
-      type: 'page_complete',
-      pageId: page.id,
-      sources,
-    };
-  }
+  // Phase 2: Generate content for the pages, several at once
+  yield* generateConcurrently(
+    structure.pages.map(page => () => generatePage(page, generatePageContent(owner, repo, page, repoUrl, options), 'Page')),
+    getPageConcurrency(options)
+  );
 
   // Signal complete
   yield { type: 'complete' };
@@ -548,34 +920,39 @@ export async function* generateDetailedWiki(owner, repo, options = {}) {
 /**
  * Generate product documentation with streaming events
  * Focused on end-user perspective, functionality, and features
+ * options.structure (a structure edited by the user) replaces structure generation
  *
  * Yields events in this order:
  * 1. { type: 'status', message: '...' }
  * 2. { type: 'structure', wiki: {...} }
- * 3. For each page:
+ * 3. For each page (pages generate concurrently, so their events interleave):
  *    - { type: 'page_start', pageId, title }
- *    - { type: 'content', chunk: '...' } (multiple)
+ *    - { type: 'status', pageId, message: '...', usage: {...} } (token usage of the page's context)
+ *    - { type: 'content', pageId, chunk: '...' } (multiple)
  *    - { type: 'page_complete', pageId, sources: [...] }
  * 4. { type: 'complete' }
  */
 export async function* generateProductDocs(owner, repo, options = {}) {
   // Check if repository is indexed (required for RAG)
-  const indexed = await isIndexed(owner, repo);
+  const indexed = await isIndexed(owner, repo, options.snapshot);
   if (!indexed) {
     yield { type: 'error', message: 'Repository must be indexed before generating documentation. Please index the repository first.' };
     return;
   }
 
-  // Get metadata to find the branch
-  const metadata = await getProjectMetadata(owner, repo);
-  const branch = metadata?.branch || 'main';
+  // Get metadata to find the indexed commit (older metadata only has the branch)
+  const metadata = await getProjectMetadata(owner, repo, options.snapshot);
+  const branch = metadata?.commitSha || metadata?.ref || metadata?.branch || 'main';
 
   // Phase 1: Get/Generate structure
   yield { type: 'status', message: 'Analyzing product features and functionality...' };
 
   let structure;
   try {
-    structure = await getProductDocsStructure(owner, repo, branch, options);
+    // A structure edited by the user skips structure generation
+    structure = options.structure
+      ? normalizeWikiStructure(options.structure)
+      : await getProductDocsStructure(owner, repo, branch, options);
   } catch (error) {
     yield { type: 'error', message: error.message };
     return;
@@ -586,45 +963,54 @@ export async function* generateProductDocs(owner, repo, options = {}) {
 
   yield { type: 'status', message: 'Generating user documentation...' };
 
-  // Phase 2: Generate content for each page
-  for (const page of structure.pages) {
-    // Signal page start
-    yield {
-      type: 'page_start',
-      pageId: page.id,
-      title: page.title,
-    };
+  // Phase 2: Generate content for the pages, several at once
+  yield* generateConcurrently(
+    structure.pages.map(page => () => generatePage(page, generateProductDocsPageContent(owner, repo, page, structure.title, options), 'Product docs page')),
+    getPageConcurrency(options)
+  );
 
-    yield { type: 'status', message: `Generating: ${page.title}...` };
-
-    // Generate page content using RAG
-    let sources = [];
-    try {
-      const generator = generateProductDocsPageContent(owner, repo, page, structure.title, options);
-      let result = await generator.next();
+  // Signal complete
+  yield { type: 'complete' };
+}
 
-      while (!result.done) {
-        yield result.value;
-        result = await generator.next();
-      }
+/**
+ * Regenerate a single page of a generated wiki with streaming events
+ * The structure is the one the wiki was generated with, so the page keeps its place and links
+ *
+ * Yields events in this order:
+ * 1. { type: 'page_start', pageId, title }
+ * 2. { type: 'status', pageId, message: '...', usage: {...} }
+ * 3. { type: 'content', pageId, chunk: '...' } (multiple)
+ * 4. { type: 'page_complete', pageId, sources: [...] } (after page_error if it failed)
+ * 5. { type: 'complete' }
+ *
+ * @param {string} owner - Repository owner
+ * @param {string} repo - Repository name
+ * @param {string} type - Wiki type (brief, detailed, dynamic, product-docs)
+ * @param {Object} structure - Stored wiki structure
+ * @param {string} pageId - Id of the page to regenerate
+ * @param {Object} options - Provider options
+ */
+export async function* generateWikiPage(owner, repo, type, structure, pageId, options = {}) {
+  const indexed = await isIndexed(owner, repo, options.snapshot);
+  if (!indexed) {
+    yield { type: 'error', message: 'Repository must be indexed before generating documentation. Please index the repository first.' };
+    return;
+  }
 
-      // Get sources from return value
-      if (result.value && result.value.sources) {
-        sources = result.value.sources;
-      }
-    } catch (error) {
-      logError(`Product docs page generation error (${page.title}): ${error.message}`);
-      yield { type: 'page_error', pageId: page.id, message: error.message };
-    }
+  const page = structure.pages.find(p => p.id === pageId);
+  if (!page) {
+    yield { type: 'error', message: `Page not found: ${pageId}` };
+    return;
+  }
 
-    // Signal page complete
-    yield {
-      type: 'page_complete',
-      pageId: page.id,
-      sources,
-    };
+  if (type === 'product-docs') {
+    yield* generatePage(page, generateProductDocsPageContent(owner, repo, page, structure.title, options), 'Product docs page');
+  } else {
+    const metadata = await getProjectMetadata(owner, repo, options.snapshot);
+    const repoUrl = metadata?.url || `https://github.com/${owner}/${repo}`;
+    yield* generatePage(page, generatePageContent(owner, repo, page, repoUrl, options), 'Page');
   }
 
-  // Signal complete
   yield { type: 'complete' };
 }
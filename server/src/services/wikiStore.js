@@ -0,0 +1,231 @@
+/**
+ * Generated wiki store
+ * Every generated wiki is kept as an immutable version per project snapshot, so generated docs
+ * are shared by everyone using the server and regenerations can be compared:
+ * `${wikisDir}/${projectKey}/${snapshot}/${type}/${versionId}.json` (see projectKeys.js)
+ * Each version records when it was generated, the preset and model, and the indexed commit.
+ * Wiki types hold { structure, pages: { [pageId]: { status, content, sources, error? } } },
+ * quick documentation ('docs') holds { content }
+ */
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { config } from '../config/index.js';
+import { resolvePreset } from '../providers/index.js';
+import { getProjectMetadata } from './snapshots.js';
+import { getProjectKey } from './projectKeys.js';
+
+/**
+ * Wiki types generated from a structure of pages
+ */
+export const STRUCTURED_WIKI_TYPES = ['brief', 'detailed', 'dynamic', 'product-docs'];
+
+/**
+ * All stored types, including the single-document quick documentation
+ */
+export const WIKI_TYPES = [...STRUCTURED_WIKI_TYPES, 'docs'];
+
+function getWikiDir(owner, repo, snapshot) {
+  return join(config.wikisDir, getProjectKey(owner, repo), snapshot);
+}
+
+function getVersionDir(owner, repo, snapshot, type) {
+  return join(getWikiDir(owner, repo, snapshot), type);
+}
+
+/**
+ * Rebuild a structured wiki from its generation events
+ * @param {Array} events - Events of a wiki job, in order
+ * @param {Object} [base] - Stored wiki the events apply to (single page regeneration)
+ * @returns {Object|null} { structure, pages } or null if generation failed before the structure
+ */
+export function wikiFromEvents(events, base = null) {
+  let structure = base?.structure || null;
+  let currentPageId = null;
+  const pages = { ...base?.pages };
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'structure':
+        structure = event.wiki;
+        for (const page of structure.pages) {
+          pages[page.id] = { status: 'pending', content: '', sources: [] };
+        }
+        break;
+      case 'page_start':
+        currentPageId = event.pageId;
+        pages[event.pageId] = { status: 'generating', content: '', sources: [] };
+        break;
+      case 'content': {
+        // Pages generate concurrently; wikis stored before that only name the page in page_start
+        const pageId = event.pageId ?? currentPageId;
+        if (pages[pageId]) {
+          pages[pageId].content += event.chunk;
+        }
+        break;
+      }
+      case 'page_complete':
+        pages[event.pageId] = {
+          ...pages[event.pageId],
+          status: pages[event.pageId]?.status === 'error' ? 'error' : 'complete',
+          sources: event.sources,
+        };
+        break;
+      case 'page_error':
+        pages[event.pageId] = { ...pages[event.pageId], status: 'error', error: event.message };
+        break;
+      case 'error':
+        return null;
+    }
+  }
+
+  return structure ? { structure, pages } : null;
+}
+
+/**
+ * Rebuild quick documentation from its generation events ({ content } chunks)
+ * @returns {Object|null} { content } or null if nothing was generated
+ */
+export function docsFromEvents(events) {
+  if (events.some(event => event.error)) {
+    return null;
+  }
+  const content = events.map(event => event.content || '').join('');
+  return content ? { content } : null;
+}
+
+/**
+ * Version id for a generation time (sortable and safe for file names)
+ * e.g. "2026-01-05T09:30:12.345Z" -> "20260105T093012345Z"
+ */
+function toVersionId(generatedAt) {
+  return generatedAt.replace(/[-:.]/g, '');
+}
+
+/**
+ * Move a wiki stored before versions existed (`${type}.json`) into the version directory
+ */
+async function migrateLegacyWiki(owner, repo, snapshot, type) {
+  const legacyPath = join(getWikiDir(owner, repo, snapshot), `${type}.json`);
+  let legacy;
+  try {
+    legacy = JSON.parse(await readFile(legacyPath, 'utf-8'));
+  } catch {
+    return;
+  }
+
+  const version = toVersionId(legacy.generatedAt);
+  const dir = getVersionDir(owner, repo, snapshot, type);
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, `${version}.json`), JSON.stringify({ ...legacy, version }, null, 2));
+  await rename(legacyPath, `${legacyPath}.migrated`);
+  console.log(`[WikiStore] Migrated ${type} wiki for ${owner}/${repo}@${snapshot} to version ${version}`);
+}
+
+/**
+ * Summarize a version for the version list
+ */
+function toVersionSummary(wiki) {
+  return {
+    version: wiki.version,
+    generatedAt: wiki.generatedAt,
+    preset: wiki.preset,
+    model: wiki.model,
+    ref: wiki.ref,
+    commitSha: wiki.commitSha,
+    ...(wiki.structure && { title: wiki.structure.title, pageCount: wiki.structure.pages.length }),
+  };
+}
+
+/**
+ * Save a generated wiki as a new version
+ * @param {string} owner - Repository owner
+ * @param {string} repo - Repository name
+ * @param {string} snapshot - Snapshot id
+ * @param {string} type - Wiki type (see WIKI_TYPES)
+ * @param {Object} wiki - { structure, pages } or { content }
+ * @param {Object} options - Provider options the wiki was generated with (preset)
+ * @returns {Promise<Object>} The stored version
+ */
+export async function saveWiki(owner, repo, snapshot, type, wiki, options = {}) {
+  const preset = resolvePreset(options);
+  const metadata = await getProjectMetadata(owner, repo, snapshot);
+  const generatedAt = new Date().toISOString();
+
+  const stored = {
+    type,
+    owner,
+    repo,
+    snapshot,
+    version: toVersionId(generatedAt),
+    generatedAt,
+    preset: preset.id,
+    model: preset.generation.model,
+    ref: metadata?.ref,
+    commitSha: metadata?.commitSha,
+    ...wiki,
+  };
+
+  const dir = getVersionDir(owner, repo, snapshot, type);
+  await mkdir(dir, { recursive: true });
+  // Versions are immutable: never overwrite an existing file
+  await writeFile(join(dir, `${stored.version}.json`), JSON.stringify(stored, null, 2), { flag: 'wx' });
+  console.log(`[WikiStore] Saved ${type} wiki for ${owner}/${repo}@${snapshot} (version ${stored.version})`);
+  return stored;
+}
+
+/**
+ * Version ids of a wiki type for a project snapshot, newest first
+ */
+async function listVersionIds(owner, repo, snapshot, type) {
+  await migrateLegacyWiki(owner, repo, snapshot, type);
+
+  try {
+    const files = await readdir(getVersionDir(owner, repo, snapshot, type));
+    return files
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.slice(0, -'.json'.length))
+      .sort()
+      .reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List the versions of a wiki type for a project snapshot, newest first
+ * @returns {Promise<Array>} Version summaries (version, generatedAt, preset, model, ref, commitSha, ...)
+ */
+export async function listWikiVersions(owner, repo, snapshot, type) {
+  const versions = [];
+  for (const version of await listVersionIds(owner, repo, snapshot, type)) {
+    const wiki = await getWikiVersion(owner, repo, snapshot, type, version);
+    if (wiki) {
+      versions.push(toVersionSummary(wiki));
+    }
+  }
+  return versions;
+}
+
+/**
+ * Get one version of a wiki
+ * @returns {Promise<Object|null>} The stored version or null if it does not exist
+ */
+export async function getWikiVersion(owner, repo, snapshot, type, version) {
+  if (!/^[0-9TZ]+$/.test(version)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await readFile(join(getVersionDir(owner, repo, snapshot, type), `${version}.json`), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the latest version of a wiki type for a project snapshot
+ * @returns {Promise<Object|null>} The stored wiki or null if none was generated
+ */
+export async function getWiki(owner, repo, snapshot, type) {
+  const [latest] = await listVersionIds(owner, repo, snapshot, type);
+  return latest ? getWikiVersion(owner, repo, snapshot, type, latest) : null;
+}
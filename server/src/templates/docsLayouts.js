@@ -0,0 +1,138 @@
+/**
+ * Project files for exported documentation layouts (MkDocs and Docusaurus)
+ * Markdown pages live in docs/; these files make the export buildable as it is
+ */
+
+/**
+ * Quote a string for YAML (JSON strings are valid double-quoted YAML scalars)
+ */
+export function yamlString(text) {
+  return JSON.stringify(String(text ?? ''));
+}
+
+/**
+ * mkdocs.yml with the Material theme and Mermaid fences
+ * @param {Object} site
+ * @param {string} site.title - Site name
+ * @param {string} [site.description] - Site description
+ * @param {string} site.nav - YAML list of the navigation (already indented under `nav:`)
+ * @returns {string} mkdocs.yml content
+ */
+export function renderMkDocsConfig({ title, description, nav }) {
+  return `site_name: ${yamlString(title)}
+${description ? `site_description: ${yamlString(description)}\n` : ''}docs_dir: docs
+theme:
+  name: material
+  features:
+    - navigation.sections
+    - search.highlight
+markdown_extensions:
+  - tables
+  - admonition
+  - pymdownx.highlight
+  - pymdownx.superfences:
+      custom_fences:
+        - name: mermaid
+          class: mermaid
+          format: !!python/name:pymdownx.superfences.fence_code_format
+nav:
+${nav}`;
+}
+
+export const MKDOCS_REQUIREMENTS = `mkdocs-material>=9.5
+`;
+
+/**
+ * docusaurus.config.js serving the docs from the site root, with Mermaid enabled
+ * Markdown files are parsed as CommonMark (not MDX) so generated content needs no escaping
+ * @param {Object} site
+ * @param {string} site.title - Site title
+ * @param {string} [site.description] - Tagline
+ * @returns {string} docusaurus.config.js content
+ */
+export function renderDocusaurusConfig({ title, description }) {
+  return `// @ts-check
+
+/** @type {import('@docusaurus/types').Config} */
+const config = {
+  title: ${JSON.stringify(title)},
+  tagline: ${JSON.stringify(description || '')},
+  url: 'https://example.com',
+  baseUrl: '/',
+  onBrokenLinks: 'warn',
+  markdown: {
+    format: 'detect',
+    mermaid: true,
+  },
+  themes: ['@docusaurus/theme-mermaid'],
+  presets: [
+    [
+      'classic',
+      /** @type {import('@docusaurus/preset-classic').Options} */
+      ({
+        docs: {
+          routeBasePath: '/',
+          sidebarPath: require.resolve('./sidebars.js'),
+        },
+        blog: false,
+      }),
+    ],
+  ],
+  themeConfig: {
+    navbar: {
+      title: ${JSON.stringify(title)},
+    },
+  },
+};
+
+module.exports = config;
+`;
+}
+
+/**
+ * sidebars.js with the given sidebar items
+ * @param {Array} items - Doc ids and categories ({ type: 'category', label, items })
+ * @returns {string} sidebars.js content
+ */
+export function renderDocusaurusSidebars(items) {
+  return `// @ts-check
+
+/** @type {import('@docusaurus/plugin-content-docs').SidebarsConfig} */
+const sidebars = {
+  docs: ${JSON.stringify(items, null, 2).replace(/\n/g, '\n  ')},
+};
+
+module.exports = sidebars;
+`;
+}
+
+/**
+ * package.json of a Docusaurus site
+ * @param {string} name - Package name
+ * @returns {string} package.json content
+ */
+export function renderDocusaurusPackage(name) {
+  return `${JSON.stringify({
+    name,
+    version: '0.0.0',
+    private: true,
+    scripts: {
+      start: 'docusaurus start',
+      build: 'docusaurus build',
+      serve: 'docusaurus serve',
+    },
+    dependencies: {
+      '@docusaurus/core': '^3.9.2',
+      '@docusaurus/preset-classic': '^3.9.2',
+      '@docusaurus/theme-mermaid': '^3.9.2',
+      '@mdx-js/react': '^3.1.0',
+      clsx: '^2.1.1',
+      'prism-react-renderer': '^2.4.1',
+      react: '^19.0.0',
+      'react-dom': '^19.0.0',
+    },
+    engines: {
+      node: '>=18.0',
+    },
+  }, null, 2)}\n`;
+}
@@ -0,0 +1,211 @@
+/**
+ * Static documentation site templates (HTML layout, styles and browser script)
+ * Exported sites are self-contained: no network access is needed to browse, search or render
+ * their diagrams
+ */
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+export function escapeHtml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export const SITE_STYLES = `:root {
+  --bg: #ffffff;
+  --fg: #1f2328;
+  --muted: #656d76;
+  --border: #d0d7de;
+  --subtle: #f6f8fa;
+  --accent: #0969da;
+}
+@media (prefers-color-scheme: dark) {
+  :root {
+    --bg: #0d1117;
+    --fg: #e6edf3;
+    --muted: #8d96a0;
+    --border: #30363d;
+    --subtle: #161b22;
+    --accent: #4493f8;
+  }
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+  color: var(--fg);
+  background: var(--bg);
+}
+a { color: var(--accent); text-decoration: none; }
+a:hover { text-decoration: underline; }
+.sidebar {
+  position: fixed;
+  top: 0;
+  bottom: 0;
+  left: 0;
+  width: 280px;
+  overflow-y: auto;
+  padding: 16px;
+  border-right: 1px solid var(--border);
+  background: var(--subtle);
+}
+.site-title { display: block; font-weight: 600; font-size: 16px; margin-bottom: 12px; color: var(--fg); }
+.search { position: relative; margin-bottom: 16px; }
+.search input {
+  width: 100%;
+  padding: 6px 10px;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  background: var(--bg);
+  color: var(--fg);
+  font: inherit;
+}
+.search-results {
+  position: absolute;
+  z-index: 10;
+  left: 0;
+  right: 0;
+  margin-top: 4px;
+  max-height: 60vh;
+  overflow-y: auto;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  background: var(--bg);
+}
+.search-results:empty { display: none; }
+.search-results a { display: block; padding: 8px 10px; border-bottom: 1px solid var(--border); color: var(--fg); }
+.search-results a:hover { background: var(--subtle); text-decoration: none; }
+.search-results small { display: block; color: var(--muted); }
+.nav ul { list-style: none; margin: 0; padding-left: 12px; }
+.nav > ul { padding-left: 0; }
+.nav li a { display: block; padding: 3px 8px; border-radius: 4px; color: var(--muted); }
+.nav li a.active { background: var(--border); color: var(--fg); }
+.nav summary { cursor: pointer; padding: 3px 0; font-weight: 600; }
+.content { margin-left: 280px; padding: 32px 48px; max-width: 1000px; }
+.content pre { padding: 12px; overflow-x: auto; border-radius: 6px; background: var(--subtle); }
+.content code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 13px; }
+.content pre.mermaid { background: none; text-align: center; }
+.content div.mermaid { margin: 16px 0; padding: 12px; border-radius: 6px; background: #ffffff; text-align: center; }
+.content div.mermaid svg { max-width: 100%; height: auto; }
+.content table { border-collapse: collapse; margin: 16px 0; }
+.content th, .content td { padding: 6px 12px; border: 1px solid var(--border); }
+.content img { max-width: 100%; }
+.sources { margin-top: 32px; padding-top: 16px; border-top: 1px solid var(--border); font-size: 13px; color: var(--muted); }
+.sources ul { padding-left: 20px; }
+.pager { display: flex; justify-content: space-between; margin-top: 32px; }
+.meta { color: var(--muted); font-size: 13px; }
+@media (max-width: 800px) {
+  .sidebar { position: static; width: auto; border-right: none; border-bottom: 1px solid var(--border); }
+  .content { margin-left: 0; padding: 24px 16px; }
+}
+`;
+
+/**
+ * Browser script: search over the index in search-index.js and Mermaid rendering (for diagrams
+ * that were not rendered to SVG at export time)
+ */
+export const SITE_SCRIPT = `(function () {
+  var input = document.getElementById('search');
+  var results = document.getElementById('search-results');
+  var index = window.SEARCH_INDEX || [];
+
+  function escape(text) {
+    var div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  function snippet(text, term) {
+    var at = text.toLowerCase().indexOf(term);
+    if (at === -1) return text.slice(0, 120);
+    var start = Math.max(0, at - 40);
+    return (start > 0 ? '...' : '') + text.slice(start, at + 80) + '...';
+  }
+
+  function search(query) {
+    var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+    return index
+      .map(function (page) {
+        var title = page.title.toLowerCase();
+        var text = page.text.toLowerCase();
+        var score = 0;
+        for (var i = 0; i < terms.length; i++) {
+          if (title.indexOf(terms[i]) !== -1) score += 10;
+          var count = text.split(terms[i]).length - 1;
+          if (count === 0 && title.indexOf(terms[i]) === -1) return null;
+          score += Math.min(count, 10);
+        }
+        return { page: page, score: score };
+      })
+      .filter(Boolean)
+      .sort(function (a, b) { return b.score - a.score; })
+      .slice(0, 10);
+  }
+
+  if (input && results) {
+    input.addEventListener('input', function () {
+      var term = input.value.trim().toLowerCase().split(/\\s+/)[0] || '';
+      results.innerHTML = search(input.value).map(function (match) {
+        return '<a href="' + match.page.url + '">' + escape(match.page.title) +
+          '<small>' + escape(snippet(match.page.text, term)) + '</small></a>';
+      }).join('');
+    });
+    input.addEventListener('keydown', function (event) {
+      if (event.key === 'Escape') {
+        input.value = '';
+        results.innerHTML = '';
+      }
+    });
+  }
+
+  if (window.mermaid) {
+    var dark = window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
+    window.mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: dark ? 'dark' : 'default' });
+    window.mermaid.run({ querySelector: 'pre.mermaid' });
+  }
+})();
+`;
+
+/**
+ * Render a page of the site
+ * @param {Object} page
+ * @param {string} page.siteTitle - Wiki title
+ * @param {string} page.title - Page title
+ * @param {string} page.nav - Sidebar navigation HTML
+ * @param {string} page.body - Page content HTML
+ * @param {boolean} page.mermaid - Whether the page has diagrams to render
+ * @returns {string} HTML document
+ */
+export function renderSitePage({ siteTitle, title, nav, body, mermaid }) {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title === siteTitle ? title : `${title} - ${siteTitle}`)}</title>
+<link rel="stylesheet" href="assets/style.css">
+</head>
+<body>
+<aside class="sidebar">
+<a class="site-title" href="index.html">${escapeHtml(siteTitle)}</a>
+<div class="search">
+<input id="search" type="search" placeholder="Search" autocomplete="off">
+<div id="search-results" class="search-results"></div>
+</div>
+<nav class="nav">${nav}</nav>
+</aside>
+<main class="content">
+${body}
+</main>
+<script src="assets/search-index.js"></script>
+${mermaid ? '<script src="assets/mermaid.min.js"></script>\n' : ''}<script src="assets/site.js"></script>
+</body>
+</html>
+`;
+}
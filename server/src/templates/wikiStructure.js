@@ -24,6 +24,41 @@ Create a structured wiki with the following main sections:
 
 Each section should contain relevant pages.`;
 
+  const pageFormat = `{
+      "id": "page-id",
+      "title": "Page title",
+      "description": "Brief description of what this page will cover",
+      "importance": "high|medium|low",
+      "filePaths": ["path/to/relevant/file1.js", "path/to/relevant/file2.ts"],
+      "relatedPages": ["other-page-id"]
+    }`;
+
+  const pagesFormat = `{
+  "title": "Overall title for the wiki",
+  "description": "Brief description of the repository",
+  "pages": [
+    ${pageFormat}
+  ]
+}`;
+
+  // Comprehensive wikis group their pages into sections, which may nest subsections
+  const sectionsFormat = `{
+  "title": "Overall title for the wiki",
+  "description": "Brief description of the repository",
+  "sections": [
+    {
+      "id": "section-id",
+      "title": "Section title",
+      "pages": [
+        ${pageFormat.replace(/\n/g, '\n    ')}
+      ],
+      "sections": [
+        { "id": "subsection-id", "title": "Subsection title", "pages": [], "sections": [] }
+      ]
+    }
+  ]
+}`;
+
   return `Analyze this GitHub repository ${owner}/${repo} and create a wiki structure for it.
 
 1. The complete file tree of the project:
@@ -50,20 +85,7 @@ ${isComprehensive ? comprehensiveSections : ''}
 
 Return your analysis in the following JSON format:
 
-{
-  "title": "Overall title for the wiki",
-  "description": "Brief description of the repository",
-  "pages": [
-    {
-      "id": "page-id",
-      "title": "Page title",
-      "description": "Brief description of what this page will cover",
-      "importance": "high|medium|low",
-      "filePaths": ["path/to/relevant/file1.js", "path/to/relevant/file2.ts"],
-      "relatedPages": ["other-page-id"]
-    }
-  ]
-}
+${isComprehensive ? sectionsFormat : pagesFormat}
 
 IMPORTANT:
 1. Create ${pageCount} pages that would make a ${viewType} wiki for this repository
@@ -71,7 +93,8 @@ IMPORTANT:
 3. The filePaths should be actual files from the repository that would be used to generate that page
 4. Each page should have 3-8 relevant files listed in filePaths
 5. Return ONLY valid JSON with the structure specified above, no markdown code blocks or explanation
-6. Start directly with { and end with }`;
+6. Start directly with { and end with }${isComprehensive ? `
+7. Page and section ids must be unique across the whole wiki; use nested sections only to split large sections (e.g., one per package of a monorepo)` : ''}`;
 }
 
 /**
@@ -120,7 +143,8 @@ Based ONLY on the content of the \`[RELEVANT_SOURCE_FILES]\`:
 6.  **Source Citations (EXTREMELY IMPORTANT):**
     *   For EVERY piece of significant information, you MUST cite the specific source file(s) from which the information was derived.
     *   Place citations at the end of the paragraph, under the diagram/table, or after the code snippet.
-    *   Use the format: \`Sources: [filename.ext]()\` or \`Sources: [filename.ext:line_number]()\`
+    *   Use the format: \`Sources: [filename.ext:start_line-end_line]()\`, taking line numbers from the "Lines X-Y" labels in the provided content
+    *   If no line numbers are given for a file, use \`Sources: [filename.ext]()\`
 
 7.  **Technical Accuracy:** All information must be derived SOLELY from the provided source files. Do not infer, invent, or use external knowledge unless directly supported by the provided code.
 
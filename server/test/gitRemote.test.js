@@ -0,0 +1,171 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { access, mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { config } from '../src/config/index.js';
+import { parseGitRemoteUrl, listRepositoryFiles, isValidGitRef } from '../src/services/gitRemote.js';
+
+// PNG header: NUL bytes and newlines, so the cat-file parser must go by the reported size
+const BINARY = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0x0a]);
+
+let dir;
+let localIndexRoots;
+let remote;
+let firstCommit;
+let secondCommit;
+
+function git(cwd, ...args) {
+  return execFileSync('git', args, {
+    cwd,
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_AUTHOR_DATE: '2026-01-01T00:00:00Z',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+      GIT_COMMITTER_DATE: '2026-01-01T00:00:00Z',
+    },
+  }).toString('utf-8').trim();
+}
+
+/**
+ * Bare repository with a non-default branch name, two commits and an annotated tag on the first
+ */
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'productwiki-test-'));
+  const work = join(dir, 'work');
+  await mkdir(join(work, 'src'), { recursive: true });
+
+  git(dir, 'init', '--quiet', '--initial-branch=trunk', work);
+  await writeFile(join(work, 'README.md'), '# Fixture\n');
+  await writeFile(join(work, 'data.txt'), BINARY);
+  await writeFile(join(work, 'src', 'index.js'), 'export const version = 1;\n');
+  git(work, 'add', '.');
+  git(work, 'commit', '--quiet', '-m', 'First');
+  git(work, 'tag', '-a', 'v1.0', '-m', 'Version 1.0');
+  firstCommit = git(work, 'rev-parse', 'HEAD');
+
+  await writeFile(join(work, 'src', 'index.js'), 'export const version = 2;\n');
+  await writeFile(join(work, 'src', 'util.js'), 'export function add(a, b) {\n  return a + b;\n}\n');
+  git(work, 'add', '.');
+  git(work, 'commit', '--quiet', '-m', 'Second');
+  secondCommit = git(work, 'rev-parse', 'HEAD');
+
+  git(dir, 'clone', '--quiet', '--bare', work, join(dir, 'fixture.git'));
+  localIndexRoots = config.localIndexRoots;
+  config.localIndexRoots = [dir];
+  remote = parseGitRemoteUrl(join(dir, 'fixture.git'));
+});
+
+after(async () => {
+  config.localIndexRoots = localIndexRoots;
+  await rm(dir, { recursive: true, force: true });
+});
+
+function contentOf(result, path) {
+  return result.files.find(file => file.path === path)?.content;
+}
+
+test('parses scp-style, SSH and HTTPS remotes with an optional ref', () => {
+  assert.deepEqual(
+    parseGitRemoteUrl('git@git.example.com:team/app.git#v1.2'),
+    {
+      type: 'git',
+      host: 'git.example.com',
+      path: 'team/app.git',
+      owner: 'team',
+      repo: 'app',
+      ref: 'v1.2',
+      cloneUrl: 'git@git.example.com:team/app.git',
+      webUrl: null,
+    }
+  );
+  assert.equal(parseGitRemoteUrl('ssh://git@git.example.com:2222/team/app.git').host, 'git.example.com');
+  assert.equal(parseGitRemoteUrl('https://git.example.com/team/app.git').webUrl, 'https://git.example.com/team/app');
+  assert.throws(() => parseGitRemoteUrl('--upload-pack=touch /tmp/x'), /Invalid git remote URL/);
+});
+
+test('parses a local bare repository path', () => {
+  assert.equal(remote.type, 'git');
+  assert.equal(remote.repo, 'fixture');
+  assert.equal(remote.cloneUrl, join(dir, 'fixture.git'));
+  assert.equal(parseGitRemoteUrl(`file://${join(dir, 'fixture.git')}`).cloneUrl, join(dir, 'fixture.git'));
+});
+
+test('rejects local repositories outside the allowed roots', () => {
+  assert.throws(() => parseGitRemoteUrl(tmpdir()), /outside the allowed roots/);
+  assert.throws(() => parseGitRemoteUrl(`file://${join(dir, '..')}`), /outside the allowed roots/);
+  assert.throws(() => parseGitRemoteUrl(join(dir, 'missing.git')), /Repository not found/);
+
+  config.localIndexRoots = [];
+  try {
+    assert.throws(() => parseGitRemoteUrl(join(dir, 'fixture.git')), /Local git repositories are disabled/);
+  } finally {
+    config.localIndexRoots = [dir];
+  }
+});
+
+test('accepts branch, tag and commit names and rejects refs git could read as options', () => {
+  for (const ref of ['main', 'release/1.x', 'v1.0', 'feature/a-b_c', firstCommit, firstCommit.slice(0, 7)]) {
+    assert.ok(isValidGitRef(ref), ref);
+  }
+  for (const ref of ['--upload-pack=touch /tmp/x', '-b', 'a..b', 'a b', 'a:b', 'a~1', 'topic.lock', '.hidden', 'a/', '@', '']) {
+    assert.ok(!isValidGitRef(ref), ref);
+  }
+  assert.throws(() => parseGitRemoteUrl('https://git.example.com/team/app.git#--upload-pack=touch%20/tmp/x'), /Invalid ref/);
+});
+
+test('never runs a ref as a git option', async () => {
+  const marker = join(dir, 'upload-pack-ran');
+  await assert.rejects(
+    listRepositoryFiles(remote, config, { ref: `--upload-pack=touch ${marker}; git-upload-pack` }),
+    /Invalid ref/
+  );
+  await assert.rejects(access(marker));
+});
+
+test('lists the default branch when no ref is given', async () => {
+  const result = await listRepositoryFiles(remote, config);
+
+  assert.equal(result.ref, 'trunk');
+  assert.equal(result.commitSha, secondCommit);
+  assert.equal(contentOf(result, 'src/index.js'), 'export const version = 2;\n');
+  assert.equal(contentOf(result, 'src/util.js'), 'export function add(a, b) {\n  return a + b;\n}\n');
+
+  const index = result.files.find(file => file.path === 'src/index.js');
+  assert.equal(index.sha, git(join(dir, 'fixture.git'), 'rev-parse', `${secondCommit}:src/index.js`));
+});
+
+test('resolves an annotated tag to its commit', async () => {
+  const result = await listRepositoryFiles(remote, config, { ref: 'v1.0' });
+
+  assert.equal(result.ref, 'v1.0');
+  assert.equal(result.commitSha, firstCommit);
+  assert.equal(contentOf(result, 'src/index.js'), 'export const version = 1;\n');
+  assert.equal(contentOf(result, 'src/util.js'), undefined);
+});
+
+test('resolves a short commit SHA that is not a branch tip', async () => {
+  const result = await listRepositoryFiles(remote, config, { ref: firstCommit.slice(0, 7) });
+
+  assert.equal(result.commitSha, firstCommit);
+  assert.equal(contentOf(result, 'src/index.js'), 'export const version = 1;\n');
+});
+
+test('skips binary files and reads the blobs after them intact', async () => {
+  const result = await listRepositoryFiles(remote, config);
+
+  assert.deepEqual(result.skipped, [{ path: 'data.txt', reason: 'Binary file' }]);
+  assert.deepEqual(result.files.map(file => file.path).sort(), ['README.md', 'src/index.js', 'src/util.js']);
+  assert.equal(contentOf(result, 'README.md'), '# Fixture\n');
+});
+
+test('fails with a clear error for an unknown ref', async () => {
+  await assert.rejects(
+    listRepositoryFiles(remote, config, { ref: 'does-not-exist' }),
+    /Branch, tag or commit not found/
+  );
+});
@@ -0,0 +1,92 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { config } from '../src/config/index.js';
+import { storeEmbeddings } from '../src/services/vectorStore.js';
+import { rankChunks } from '../src/services/ragQuery.js';
+
+const OWNER = 'fixture';
+const REPO = 'identifiers';
+const SNAPSHOT = 'main';
+const TOP_K = 5;
+
+let dir;
+let corpus;
+
+/**
+ * Deterministic embedding: counts of the corpus concepts in the text, normalized
+ */
+function embedConcepts(text) {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/);
+  const vector = Object.values(corpus.concepts)
+    .map(forms => words.filter(word => forms.includes(word)).length);
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(value => value / norm);
+}
+
+function rankOf(chunks, path) {
+  const index = chunks.findIndex(chunk => chunk.path === path);
+  return index === -1 ? Infinity : index + 1;
+}
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'productwiki-test-'));
+  config.vectorsDir = join(dir, 'vectors');
+  corpus = JSON.parse(await readFile(new URL('./fixtures/identifierCorpus.json', import.meta.url), 'utf-8'));
+
+  const chunks = corpus.files.map(file => ({
+    id: `${file.path}#0`,
+    path: file.path,
+    content: file.content,
+    chunkIndex: 0,
+    totalChunks: 1,
+    extension: `.${file.path.split('.').pop()}`,
+    startLine: 1,
+    endLine: file.content.split('\n').length,
+    sha: '',
+    vector: embedConcepts(file.content),
+  }));
+  await storeEmbeddings(OWNER, REPO, SNAPSHOT, chunks);
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('hybrid search ranks the chunk defining an exact identifier above vector search', async () => {
+  const queryVector = embedConcepts(corpus.query);
+  const limit = corpus.files.length;
+  const options = { snapshot: SNAPSHOT };
+
+  const vector = await rankChunks(OWNER, REPO, corpus.query, queryVector, 'vector', options, limit);
+  const hybrid = await rankChunks(OWNER, REPO, corpus.query, queryVector, 'hybrid', options, limit);
+
+  const vectorRank = rankOf(vector, corpus.expectedPath);
+  const hybridRank = rankOf(hybrid, corpus.expectedPath);
+  assert.equal(vectorRank, corpus.files.length, 'the embedding alone ranks the identifier last');
+  assert.ok(hybridRank < vectorRank, `expected hybrid rank ${hybridRank} to beat vector rank ${vectorRank}`);
+});
+
+test('hybrid search brings the identifier into the top results that vector search misses', async () => {
+  const queryVector = embedConcepts(corpus.query);
+  const options = { snapshot: SNAPSHOT };
+
+  const vector = await rankChunks(OWNER, REPO, corpus.query, queryVector, 'vector', options, TOP_K);
+  const hybrid = await rankChunks(OWNER, REPO, corpus.query, queryVector, 'hybrid', options, TOP_K);
+
+  assert.ok(!vector.some(chunk => chunk.path === corpus.expectedPath));
+  assert.ok(hybrid.some(chunk => chunk.path === corpus.expectedPath));
+});
+
+test('keyword search finds the identifier first', async () => {
+  const keyword = await rankChunks(OWNER, REPO, corpus.query, null, 'keyword', { snapshot: SNAPSHOT }, corpus.files.length);
+  assert.equal(keyword[0].path, corpus.expectedPath);
+});
+
+test('keyword search with a filter that matches no file finds nothing', async () => {
+  const options = { snapshot: SNAPSHOT, filters: { paths: ['missing/**'] } };
+  const keyword = await rankChunks(OWNER, REPO, corpus.query, null, 'keyword', options, corpus.files.length);
+  assert.deepEqual(keyword, []);
+});
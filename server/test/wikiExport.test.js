@@ -0,0 +1,202 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { inflateRawSync } from 'zlib';
+import { exportWiki } from '../src/services/wikiExport.js';
+import { renderMermaidDiagrams } from '../src/services/mermaidRenderer.js';
+
+const WIKI = {
+  owner: 'fixture',
+  repo: 'export',
+  generatedAt: '2026-01-05T09:30:12.000Z',
+  structure: {
+    title: 'Fixture',
+    description: 'Export fixture',
+    pages: [
+      { id: 'overview', title: 'Overview', filePaths: [], relatedPages: [] },
+      { id: 'flows', title: 'Flows', filePaths: [], relatedPages: [] },
+    ],
+  },
+  pages: {
+    overview: {
+      content: [
+        '# Overview',
+        '',
+        '[flows](flows) [docs](https://example.com/docs) [mail](mailto:team@example.com)',
+        '[anchor](#setup) [relative](guide/setup.md)',
+        '[script](javascript:alert(1)) [data](data:text/html,hello) [spaced]( JavaScript:alert(2))',
+      ].join('\n'),
+    },
+    flows: {
+      content: [
+        '# Flows',
+        '',
+        '```mermaid',
+        'flowchart TD',
+        '  Index[Index the repository] --> Wiki[Generate the wiki]',
+        '```',
+        '',
+        '```mermaid',
+        'this is not a diagram',
+        '```',
+      ].join('\n'),
+    },
+  },
+};
+
+/**
+ * Files of a zip archive by name (local file headers, stored or deflated)
+ */
+function readZip(buffer) {
+  const files = new Map();
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const method = buffer.readUInt16LE(offset + 8);
+    const size = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString('utf-8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength + extraLength;
+    const data = buffer.subarray(start, start + size);
+    files.set(name, (method === 8 ? inflateRawSync(data) : data).toString('utf-8'));
+    offset = start + size;
+  }
+  return files;
+}
+
+test('site export keeps web, mail, anchor and relative links and turns other schemes into text', async () => {
+  const files = readZip(await exportWiki(WIKI, 'site'));
+  const html = files.get('overview.html');
+
+  assert.match(html, /<a href="flows.html">flows<\/a>/);
+  assert.match(html, /<a href="https:\/\/example.com\/docs">docs<\/a>/);
+  assert.match(html, /<a href="mailto:team@example.com">mail<\/a>/);
+  assert.match(html, /<a href="#setup">anchor<\/a>/);
+  assert.match(html, /<a href="guide\/setup.md">relative<\/a>/);
+  assert.doesNotMatch(html, /javascript:|data:text/i);
+  assert.match(html, /script data spaced/);
+});
+
+test('site export renders mermaid diagrams to SVG, or leaves them to the bundled script without a browser', async () => {
+  const browserAvailable = await renderMermaidDiagrams(['flowchart TD\n  A --> B']).then(() => true, () => false);
+
+  const files = readZip(await exportWiki(WIKI, 'site'));
+  const html = files.get('flows.html');
+
+  if (browserAvailable) {
+    assert.match(html, /<div class="mermaid"><svg [^>]*id="mermaid-0"/);
+  } else {
+    assert.match(html, /<pre class="mermaid" data-diagram="0">flowchart TD\n  Index\[Index the repository\] --&gt; Wiki/);
+  }
+  assert.match(html, /Generate the wiki/);
+  // An invalid diagram is left for the bundled script, which shows Mermaid's error in its place
+  assert.match(html, /<pre class="mermaid" data-diagram="1">this is not a diagram<\/pre>/);
+  assert.ok(files.has('assets/mermaid.min.js'));
+  assert.doesNotMatch(files.get('assets/search-index.js'), /<svg|flowchart/);
+});
+
+const SECTIONED_WIKI = {
+  owner: 'fixture',
+  repo: 'sections',
+  generatedAt: '2026-01-05T09:30:12.000Z',
+  structure: {
+    title: 'Sectioned',
+    description: 'Pages in nested sections',
+    sections: [
+      { id: 'guides', title: 'Guides' },
+      { id: 'api', title: 'API', parentId: 'guides' },
+      { id: 'empty', title: 'Empty' },
+    ],
+    pages: [
+      { id: 'intro', title: 'Intro', relatedPages: ['setup'] },
+      { id: 'set up', title: 'Set up' },
+      { id: 'set-up', title: 'Set-up' },
+      { id: 'setup', title: 'Setup', parentId: 'guides', relatedPages: ['intro', 'reference', 'missing', 'setup'] },
+      { id: 'reference', title: 'Reference [v1]', parentId: 'api', relatedPages: ['setup'] },
+    ],
+  },
+  pages: {
+    intro: { content: '# Intro\n\nStart with [the setup](setup).' },
+    setup: { content: '# Setup\n\nSee [the reference](#reference) and [the docs](https://example.com).' },
+    reference: { content: '# Reference' },
+  },
+};
+
+/**
+ * Doc ids of Docusaurus sidebar items, in order
+ */
+function sidebarDocIds(items) {
+  return items.flatMap(item => (typeof item === 'string' ? [item] : sidebarDocIds(item.items)));
+}
+
+test('markdown export links related pages and pages named in the content relative to each file', async () => {
+  const files = readZip(await exportWiki(SECTIONED_WIKI, 'markdown'));
+
+  assert.deepEqual([...files.keys()].sort(), [
+    'guides/api/reference.md',
+    'guides/setup.md',
+    'index.md',
+    'intro.md',
+    'set-up-2.md',
+    'set-up.md',
+  ]);
+
+  const setup = files.get('guides/setup.md');
+  assert.match(setup, /See \[the reference\]\(api\/reference.md\) and \[the docs\]\(https:\/\/example.com\)/);
+  assert.ok(setup.endsWith('## Related pages\n\n- [Intro](../intro.md)\n- [Reference \\[v1\\]](api/reference.md)\n'));
+
+  assert.match(files.get('intro.md'), /Start with \[the setup\]\(guides\/setup.md\)/);
+  assert.match(files.get('intro.md'), /- \[Setup\]\(guides\/setup.md\)\n$/);
+  assert.match(files.get('guides/api/reference.md'), /- \[Setup\]\(..\/setup.md\)\n$/);
+  assert.match(files.get('set-up.md'), /_This page was not generated._/);
+});
+
+test('mkdocs export lists every page in the nav in wiki order, nested by section', async () => {
+  const files = readZip(await exportWiki(SECTIONED_WIKI, 'mkdocs'));
+
+  assert.ok(files.has('docs/index.md'));
+  assert.ok(files.has('docs/guides/api/reference.md'));
+  assert.ok(files.get('mkdocs.yml').endsWith([
+    'nav:',
+    '  - Home: index.md',
+    '  - "Intro": "intro.md"',
+    '  - "Set up": "set-up.md"',
+    '  - "Set-up": "set-up-2.md"',
+    '  - "Guides":',
+    '      - "Setup": "guides/setup.md"',
+    '      - "API":',
+    '          - "Reference [v1]": "guides/api/reference.md"',
+    '',
+  ].join('\n')));
+
+  for (const [, path] of files.get('mkdocs.yml').matchAll(/: "([^"]+\.md)"$/gm)) {
+    assert.ok(files.has(`docs/${path}`), path);
+  }
+});
+
+test('docusaurus sidebar ids match the exported doc files and their front matter ids', async () => {
+  const files = readZip(await exportWiki(SECTIONED_WIKI, 'docusaurus'));
+
+  const module = { exports: {} };
+  new Function('module', files.get('sidebars.js'))(module);
+  assert.deepEqual(module.exports.docs, [
+    'index',
+    'intro',
+    'set-up',
+    'set-up-2',
+    {
+      type: 'category',
+      label: 'Guides',
+      items: ['guides/setup', { type: 'category', label: 'API', items: ['guides/api/reference'] }],
+    },
+  ]);
+
+  const docFiles = [...files.keys()].filter(name => name.startsWith('docs/'));
+  const ids = sidebarDocIds(module.exports.docs);
+  assert.deepEqual([...ids].sort(), docFiles.map(name => name.slice('docs/'.length, -'.md'.length)).sort());
+
+  // Docusaurus ids a doc by its folder and front matter id
+  for (const id of ids.filter(id => id !== 'index')) {
+    assert.match(files.get(`docs/${id}.md`), new RegExp(`^---\nid: "${id.split('/').pop()}"\n`));
+  }
+  assert.match(files.get('docs/index.md'), /^---\ntitle: "Sectioned"\nslug: "\/"\n---/);
+});
@@ -1,3 +1,4 @@
+import { Fragment, type ReactNode } from 'react'
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { NotificationProvider } from './contexts/NotificationContext'
 import { Toaster } from './components/ui/sonner'
@@ -8,6 +9,16 @@ import PackagePromptPage from './pages/PackagePromptPage'
 import ReimplementPromptPage from './pages/ReimplementPromptPage'
 import WikiPage from './pages/WikiPage'
 import ProductDocsPage from './pages/ProductDocsPage'
+import ChatPage from './pages/ChatPage'
+import { useSnapshotParam } from './hooks/useSnapshotParam'
+
+/**
+ * Remount a repo page when the snapshot changes so its state and caches reload for that ref
+ */
+function SnapshotScoped({ children }: { children: ReactNode }) {
+  const snapshot = useSnapshotParam()
+  return <Fragment key={snapshot || ''}>{children}</Fragment>
+}
 
 function App() {
   return (
@@ -15,12 +26,13 @@ function App() {
       <NotificationProvider>
         <Routes>
           <Route path="/" element={<HomePage />} />
-          <Route path="/repo/:owner/:repo" element={<RepoPage />} />
-          <Route path="/repo/:owner/:repo/documentation" element={<DocumentationPage />} />
-          <Route path="/repo/:owner/:repo/package-prompt" element={<PackagePromptPage />} />
-          <Route path="/repo/:owner/:repo/reimplement-prompt" element={<ReimplementPromptPage />} />
-          <Route path="/repo/:owner/:repo/wiki/:type" element={<WikiPage />} />
-          <Route path="/repo/:owner/:repo/product-docs" element={<ProductDocsPage />} />
+          <Route path="/repo/:owner/:repo" element={<SnapshotScoped><RepoPage /></SnapshotScoped>} />
+          <Route path="/repo/:owner/:repo/documentation" element={<SnapshotScoped><DocumentationPage /></SnapshotScoped>} />
+          <Route path="/repo/:owner/:repo/package-prompt" element={<SnapshotScoped><PackagePromptPage /></SnapshotScoped>} />
+          <Route path="/repo/:owner/:repo/reimplement-prompt" element={<SnapshotScoped><ReimplementPromptPage /></SnapshotScoped>} />
+          <Route path="/repo/:owner/:repo/wiki/:type" element={<SnapshotScoped><WikiPage /></SnapshotScoped>} />
+          <Route path="/repo/:owner/:repo/product-docs" element={<SnapshotScoped><ProductDocsPage /></SnapshotScoped>} />
+          <Route path="/repo/:owner/:repo/chat" element={<SnapshotScoped><ChatPage /></SnapshotScoped>} />
         </Routes>
         <Toaster />
       </NotificationProvider>
@@ -4,6 +4,8 @@ import { Hexagon } from 'lucide-react'
 import { SettingsButton } from '@/components/Settings'
 import { NotificationDropdown } from '@/components/NotificationDropdown'
 import { AboutDialog } from '@/components/AboutDialog'
+import { SnapshotSwitcher } from '@/components/SnapshotSwitcher'
+import type { SnapshotSummary } from '@/lib/api'
 import { ReactNode } from 'react'
 
 interface AppHeaderProps {
@@ -11,9 +13,12 @@ interface AppHeaderProps {
   titleHref?: string
   subtitle?: string
   actions?: ReactNode
+  // Indexed refs of the current project, shown as a ref switcher next to the title
+  snapshots?: SnapshotSummary[]
+  snapshot?: string
 }
 
-export function AppHeader({ title, titleHref, subtitle, actions }: AppHeaderProps) {
+export function AppHeader({ title, titleHref, subtitle, actions, snapshots, snapshot }: AppHeaderProps) {
   const [aboutOpen, setAboutOpen] = useState(false)
 
   return (
@@ -36,6 +41,9 @@ export function AppHeader({ title, titleHref, subtitle, actions }: AppHeaderProp
               )}
             </>
           )}
+          {snapshots && snapshots.length > 0 && (
+            <SnapshotSwitcher snapshots={snapshots} current={snapshot} />
+          )}
           {subtitle && (
             <>
               <span className="text-muted-foreground">/</span>
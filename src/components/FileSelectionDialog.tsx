@@ -13,6 +13,7 @@ interface FileSelectionDialogProps {
   open: boolean
   projectName: string
   result: ProcessingResult
+  maxFileSize: number
   onConfirm: () => void
   onCancel: () => void
 }
@@ -21,6 +22,7 @@ export function FileSelectionDialog({
   open,
   projectName,
   result,
+  maxFileSize,
   onConfirm,
   onCancel,
 }: FileSelectionDialogProps) {
@@ -59,6 +61,12 @@ export function FileSelectionDialog({
             <div className="bg-muted/50 rounded-lg p-3 space-y-2">
               <div className="text-sm font-medium">Excluded files breakdown:</div>
               <div className="text-sm text-muted-foreground space-y-1">
+                {skippedReasons.ignored > 0 && (
+                  <div className="flex items-center gap-2">
+                    <FileX className="h-4 w-4" />
+                    <span>{skippedReasons.ignored.toLocaleString()} ignored by .gitignore / .productwikiignore</span>
+                  </div>
+                )}
                 {skippedReasons.excludedDirs > 0 && (
                   <div className="flex items-center gap-2">
                     <FolderX className="h-4 w-4" />
@@ -74,7 +82,7 @@ export function FileSelectionDialog({
                 {skippedReasons.tooLarge > 0 && (
                   <div className="flex items-center gap-2">
                     <FileX className="h-4 w-4" />
-                    <span>{skippedReasons.tooLarge.toLocaleString()} files too large (&gt;1MB)</span>
+                    <span>{skippedReasons.tooLarge.toLocaleString()} files too large (&gt;{Math.round(maxFileSize / 1024)} KB)</span>
                   </div>
                 )}
                 {skippedReasons.binary > 0 && (
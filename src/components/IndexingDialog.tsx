@@ -10,19 +10,23 @@ import { Check, Loader2, Circle } from 'lucide-react'
 import {
   indexRepoStream,
   indexLocalStream,
+  indexServerPathStream,
   type IndexProgress,
   type ProjectMetadata,
   type LocalFileData,
+  type IndexingSettings,
 } from '@/lib/api'
 
-export type IndexingMode = 'github' | 'local'
+export type IndexingMode = 'github' | 'local' | 'path'
 
 interface IndexingDialogProps {
   open: boolean
   mode: IndexingMode
   url: string
+  gitRef?: string
   projectName?: string
   localFiles?: LocalFileData[]
+  indexing?: IndexingSettings // Omitted to reuse the project's previous settings
   onComplete: (metadata: ProjectMetadata) => void
   onCancel: () => void
   onError: (error: string) => void
@@ -39,12 +43,21 @@ interface Step {
 
 const GITHUB_STEPS: Step[] = [
   { id: 'clone', label: 'Cloning repository', status: 'pending' },
+  { id: 'diff', label: 'Comparing with previous index', status: 'pending' },
   { id: 'extract', label: 'Extracting files', status: 'pending' },
   { id: 'chunk', label: 'Chunking documents', status: 'pending' },
   { id: 'embed', label: 'Embedding chunks', status: 'pending' },
   { id: 'store', label: 'Storing in database', status: 'pending' },
 ]
 
+const PATH_STEPS: Step[] = [
+  { id: 'clone', label: 'Reading server directory', status: 'pending' },
+  { id: 'extract', label: 'Processing files', status: 'pending' },
+  { id: 'chunk', label: 'Chunking documents', status: 'pending' },
+  { id: 'embed', label: 'Embedding chunks', status: 'pending' },
+  { id: 'store', label: 'Storing in database', status: 'pending' },
+]
+
 const LOCAL_STEPS: Step[] = [
   { id: 'clone', label: 'Uploading files', status: 'pending' },
   { id: 'extract', label: 'Processing files', status: 'pending' },
@@ -53,17 +66,25 @@ const LOCAL_STEPS: Step[] = [
   { id: 'store', label: 'Storing in database', status: 'pending' },
 ]
 
+function getStepsForMode(mode: IndexingMode): Step[] {
+  if (mode === 'local') return LOCAL_STEPS
+  if (mode === 'path') return PATH_STEPS
+  return GITHUB_STEPS
+}
+
 export function IndexingDialog({
   open,
   mode,
   url,
+  gitRef,
   projectName,
   localFiles,
+  indexing,
   onComplete,
   onCancel,
   onError,
 }: IndexingDialogProps) {
-  const initialSteps = mode === 'local' ? LOCAL_STEPS : GITHUB_STEPS
+  const initialSteps = getStepsForMode(mode)
   const [steps, setSteps] = useState<Step[]>(initialSteps)
   const [embedProgress, setEmbedProgress] = useState({ current: 0, total: 0 })
   const [elapsedTime, setElapsedTime] = useState(0)
@@ -76,16 +97,24 @@ export function IndexingDialog({
     if (mode === 'local') {
       return `local/${projectName || 'unknown'}`
     }
-    const match = url.match(/github\.com\/([^/]+\/[^/]+)/)
-    return match ? match[1] : url
+    if (mode === 'path') {
+      return `local/${projectName || url.split('/').filter(Boolean).pop() || 'unknown'}`
+    }
+    // "owner/repo" from any web, SSH or local git URL, ignoring /tree/<ref>-style suffixes
+    const segments = url.split('#')[0].replace(/^[a-z]+:\/\/[^/]+/i, '').replace(/^[^/]*:/, '').split('/').filter(Boolean)
+    const routeIndex = segments.findIndex(segment => ['-', 'tree', 'src', 'commit', 'commits', 'blob'].includes(segment))
+    const repoSegments = routeIndex === -1 ? segments : segments.slice(0, routeIndex)
+    const name = repoSegments.length >= 2
+      ? `${repoSegments[repoSegments.length - 2]}/${repoSegments[repoSegments.length - 1].replace(/\.git$/, '')}`
+      : url
+    return gitRef ? `${name}@${gitRef}` : name
   }
 
   useEffect(() => {
     if (!open) return
 
     // Reset state with mode-appropriate steps
-    const stepsForMode = mode === 'local' ? LOCAL_STEPS : GITHUB_STEPS
-    setSteps(stepsForMode.map(s => ({ ...s })))
+    setSteps(getStepsForMode(mode).map(s => ({ ...s })))
     setEmbedProgress({ current: 0, total: 0 })
     setElapsedTime(0)
     setIsCancelling(false)
@@ -102,8 +131,10 @@ export function IndexingDialog({
       try {
         const signal = abortControllerRef.current?.signal
         const generator = mode === 'local' && projectName && localFiles
-          ? indexLocalStream(projectName, localFiles, signal)
-          : indexRepoStream(url, signal)
+          ? indexLocalStream(projectName, localFiles, signal, indexing)
+          : mode === 'path'
+            ? indexServerPathStream(url, projectName || undefined, signal, indexing)
+            : indexRepoStream(url, signal, gitRef, indexing)
 
         for await (const event of generator) {
           handleProgressEvent(event)
@@ -112,7 +143,7 @@ export function IndexingDialog({
         if (err instanceof Error && err.name === 'AbortError') {
           // User cancelled - handled in handleCancel
         } else {
-          const errorMsg = mode === 'local'
+          const errorMsg = mode !== 'github'
             ? 'Failed to index local directory'
             : 'Failed to index repository'
           onError(err instanceof Error ? err.message : errorMsg)
@@ -126,7 +157,7 @@ export function IndexingDialog({
       clearInterval(timer)
       abortControllerRef.current?.abort()
     }
-  }, [open, mode, url, projectName, localFiles])
+  }, [open, mode, url, gitRef, projectName, localFiles, indexing])
 
   const handleProgressEvent = (event: IndexProgress) => {
     switch (event.phase) {
@@ -135,12 +166,29 @@ export function IndexingDialog({
           updateStep('clone', 'active')
         } else if (event.status === 'completed') {
           updateStep('clone', 'completed')
-          updateStep('extract', 'active')
+          updateStep(mode === 'github' ? 'diff' : 'extract', 'active')
         }
         break
 
+      case 'diff':
+        updateStep(
+          'diff',
+          'completed',
+          event.incremental
+            ? `${event.added} added, ${event.changed} changed, ${event.removed} removed, ${event.unchanged} unchanged`
+            : 'full index'
+        )
+        updateStep('extract', 'active')
+        break
+
       case 'extract':
-        updateStep('extract', 'completed', `${event.fileCount} files`)
+        updateStep(
+          'extract',
+          'completed',
+          event.skipped?.length
+            ? `${event.fileCount} files, ${event.skipped.length} skipped`
+            : `${event.fileCount} files`
+        )
         updateStep('chunk', 'active')
         break
 
@@ -217,7 +265,7 @@ export function IndexingDialog({
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>
-            {mode === 'local' ? 'Indexing Local Directory' : 'Indexing Repository'}
+            {mode === 'github' ? 'Indexing Repository' : 'Indexing Local Directory'}
           </DialogTitle>
           <p className="text-sm text-muted-foreground font-mono">
             {getDisplayName()}
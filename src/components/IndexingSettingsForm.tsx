@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Button } from '@/components/ui/button'
+import { RotateCcw } from 'lucide-react'
+import type { IndexingSettings } from '@/lib/api'
+
+type ListKey = 'supportedExtensions' | 'excludedDirs' | 'excludedFiles' | 'excludedPatterns'
+
+interface IndexingSettingsFormProps {
+  value: IndexingSettings
+  defaults?: IndexingSettings
+  onChange: (settings: IndexingSettings) => void
+  disabled?: boolean
+}
+
+const LIST_FIELDS: { key: ListKey; label: string; hint: string }[] = [
+  { key: 'supportedExtensions', label: 'File extensions', hint: 'e.g. .ts, .py, .md' },
+  { key: 'excludedDirs', label: 'Excluded directories', hint: 'Directory names skipped at any depth' },
+  { key: 'excludedFiles', label: 'Excluded files', hint: 'File names skipped at any depth' },
+  { key: 'excludedPatterns', label: 'Excluded patterns', hint: 'Regular expressions matched against the file path' },
+]
+
+function parseList(text: string): string[] {
+  return text.split(/[\n,]/).map(item => item.trim()).filter(Boolean)
+}
+
+interface ListFieldProps {
+  label: string
+  hint: string
+  value: string[]
+  onChange: (value: string[]) => void
+  disabled?: boolean
+}
+
+// Edited as text and parsed on blur, so separators can be typed freely
+function ListField({ label, hint, value, onChange, disabled }: ListFieldProps) {
+  const [text, setText] = useState(value.join(', '))
+
+  useEffect(() => {
+    setText(value.join(', '))
+  }, [value])
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">{label}</label>
+        <span className="text-xs text-muted-foreground">{value.length}</span>
+      </div>
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onChange(parseList(text))}
+        disabled={disabled}
+        rows={2}
+        className="text-xs font-mono"
+      />
+      <p className="text-xs text-muted-foreground">{hint}</p>
+    </div>
+  )
+}
+
+/**
+ * Edit a project's indexing settings (chunking, file filters and max file size)
+ */
+export function IndexingSettingsForm({ value, defaults, onChange, disabled }: IndexingSettingsFormProps) {
+  const setNumber = (key: 'chunkSize' | 'chunkOverlap' | 'maxFileSize', number: number) => {
+    if (Number.isFinite(number)) {
+      onChange({ ...value, [key]: Math.round(number) })
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Chunk size</label>
+          <Input
+            type="number"
+            min={50}
+            value={value.chunkSize}
+            onChange={(e) => setNumber('chunkSize', e.target.valueAsNumber)}
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">Words</p>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Overlap</label>
+          <Input
+            type="number"
+            min={0}
+            value={value.chunkOverlap}
+            onChange={(e) => setNumber('chunkOverlap', e.target.valueAsNumber)}
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">Words</p>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Max file size</label>
+          <Input
+            type="number"
+            min={1}
+            value={Math.round(value.maxFileSize / 1024)}
+            onChange={(e) => setNumber('maxFileSize', e.target.valueAsNumber * 1024)}
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">KB</p>
+        </div>
+      </div>
+
+      {LIST_FIELDS.map(field => (
+        <ListField
+          key={field.key}
+          label={field.label}
+          hint={field.hint}
+          value={value[field.key]}
+          onChange={(list) => onChange({ ...value, [field.key]: list })}
+          disabled={disabled}
+        />
+      ))}
+
+      {defaults && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange(defaults)}
+          disabled={disabled}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset to defaults
+        </Button>
+      )}
+    </div>
+  )
+}
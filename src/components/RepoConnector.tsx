@@ -4,9 +4,17 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { IndexingDialog, type IndexingMode } from '@/components/IndexingDialog'
 import { FileSelectionDialog } from '@/components/FileSelectionDialog'
-import { type ProjectMetadata, type LocalFileData } from '@/lib/api'
+import { IndexingSettingsForm } from '@/components/IndexingSettingsForm'
+import {
+  getServerPathRoots,
+  getIndexingDefaults,
+  type ProjectMetadata,
+  type LocalFileData,
+  type IndexingSettings,
+} from '@/lib/api'
 import { processLocalFiles, getRootDirectoryName, type ProcessingResult } from '@/lib/fileProcessor'
-import { ArrowUp, Github, FolderOpen, Loader2 } from 'lucide-react'
+import { ArrowUp, GitBranch, FolderOpen, Loader2, Server, SlidersHorizontal, ChevronDown, ChevronRight } from 'lucide-react'
+import { withSnapshot } from '@/lib/utils'
 
 interface RepoConnectorProps {
   onIndexComplete?: () => void
@@ -15,13 +23,20 @@ interface RepoConnectorProps {
 export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
   const [mode, setMode] = useState<IndexingMode>('github')
   const [url, setUrl] = useState('')
+  const [gitRef, setGitRef] = useState('')
   const [projectName, setProjectName] = useState('')
+  const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null)
   const [localFiles, setLocalFiles] = useState<LocalFileData[]>([])
   const [processingResult, setProcessingResult] = useState<ProcessingResult | null>(null)
   const [isProcessingFiles, setIsProcessingFiles] = useState(false)
   const [showFileSelectionDialog, setShowFileSelectionDialog] = useState(false)
   const [showIndexingDialog, setShowIndexingDialog] = useState(false)
   const [error, setError] = useState('')
+  const [serverRoots, setServerRoots] = useState<string[]>([])
+  const [indexingDefaults, setIndexingDefaults] = useState<IndexingSettings | null>(null)
+  const [indexing, setIndexing] = useState<IndexingSettings | null>(null)
+  const [indexingEdited, setIndexingEdited] = useState(false)
+  const [showIndexingSettings, setShowIndexingSettings] = useState(false)
   const navigate = useNavigate()
   const inputRef = useRef<HTMLInputElement>(null)
   const directoryInputRef = useRef<HTMLInputElement>(null)
@@ -30,6 +45,21 @@ export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
     inputRef.current?.focus()
   }, [])
 
+  // Server path indexing is only offered when the server allows some directories
+  useEffect(() => {
+    getServerPathRoots().then(setServerRoots).catch(() => setServerRoots([]))
+  }, [])
+
+  // Indexing settings start from the server defaults
+  useEffect(() => {
+    getIndexingDefaults()
+      .then(defaults => {
+        setIndexingDefaults(defaults)
+        setIndexing(defaults)
+      })
+      .catch(() => setError('Failed to load indexing settings from the server'))
+  }, [])
+
   // Re-focus input when dialogs close
   useEffect(() => {
     if (!showIndexingDialog && !showFileSelectionDialog) {
@@ -41,32 +71,59 @@ export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
   useEffect(() => {
     setError('')
     setUrl('')
+    setGitRef('')
     setProjectName('')
+    setSelectedFiles(null)
     setLocalFiles([])
     setProcessingResult(null)
   }, [mode])
 
+  // Re-filter the selected directory when the indexing settings change
+  useEffect(() => {
+    if (selectedFiles && indexing) {
+      processFiles(selectedFiles, indexing, false)
+    }
+  }, [indexing])
+
+  const handleIndexingChange = (settings: IndexingSettings) => {
+    setIndexing(settings)
+    setIndexingEdited(true)
+  }
+
   const handleDirectorySelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
     if (!files || files.length === 0) return
 
+    if (!indexing) {
+      setError('Indexing settings are not loaded yet')
+      return
+    }
+
+    setSelectedFiles(files)
+
+    // Auto-set project name from directory name
+    const dirName = getRootDirectoryName(files)
+    if (dirName) {
+      setProjectName(dirName)
+    }
+
+    // Show the file selection dialog with breakdown
+    await processFiles(files, indexing, true)
+  }
+
+  const processFiles = async (files: FileList, settings: IndexingSettings, showBreakdown: boolean) => {
     setError('')
     setIsProcessingFiles(true)
     setProcessingResult(null)
 
     try {
-      const result = await processLocalFiles(files)
+      const result = await processLocalFiles(files, settings)
       setLocalFiles(result.files)
       setProcessingResult(result)
 
-      // Auto-set project name from directory name
-      const dirName = getRootDirectoryName(files)
-      if (dirName) {
-        setProjectName(dirName)
+      if (showBreakdown) {
+        setShowFileSelectionDialog(true)
       }
-
-      // Show the file selection dialog with breakdown
-      setShowFileSelectionDialog(true)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process directory')
       setLocalFiles([])
@@ -92,7 +149,14 @@ export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
 
     if (mode === 'github') {
       if (!url.trim()) {
-        setError('Please enter a GitHub URL')
+        setError('Please enter a repository URL')
+        return
+      }
+      setError('')
+      setShowIndexingDialog(true)
+    } else if (mode === 'path') {
+      if (!url.trim()) {
+        setError('Please enter a server directory')
         return
       }
       setError('')
@@ -128,7 +192,7 @@ export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
     localStorage.setItem('repoHistory', JSON.stringify(history.slice(0, 20)))
 
     onIndexComplete?.()
-    navigate(`/repo/${result.owner}/${result.repo}`)
+    navigate(withSnapshot(`/repo/${result.owner}/${result.repo}`, result.snapshot))
   }
 
   const handleIndexCancel = () => {
@@ -159,8 +223,8 @@ export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
                   : 'text-muted-foreground hover:text-foreground'
               }`}
             >
-              <Github className="h-4 w-4" />
-              GitHub URL
+              <GitBranch className="h-4 w-4" />
+              Repository URL
             </button>
             <button
               type="button"
@@ -174,28 +238,84 @@ export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
               <FolderOpen className="h-4 w-4" />
               Local Directory
             </button>
+            {serverRoots.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setMode('path')}
+                className={`px-4 py-2 text-sm rounded-md transition-colors flex items-center gap-2 ${
+                  mode === 'path'
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <Server className="h-4 w-4" />
+                Server Path
+              </button>
+            )}
           </div>
         </div>
 
         <form onSubmit={handleSubmit}>
           {mode === 'github' ? (
-            <div className="relative">
+            <div className="space-y-3">
+              <div className="relative">
+                <Input
+                  ref={inputRef}
+                  type="text"
+                  placeholder="GitHub, GitLab, Bitbucket, Gitea or any git URL"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  disabled={showIndexingDialog}
+                  className="h-14 text-base pr-14 rounded-2xl bg-muted/50 border-0 focus-visible:ring-1"
+                />
+                <button
+                  type="submit"
+                  disabled={showIndexingDialog || !url.trim()}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 h-10 w-10 rounded-full bg-foreground text-background flex items-center justify-center hover:opacity-80 transition-opacity disabled:opacity-40"
+                >
+                  <ArrowUp className="h-5 w-5" />
+                </button>
+              </div>
               <Input
-                ref={inputRef}
                 type="text"
-                placeholder="https://github.com/owner/repo"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
+                placeholder="Branch, tag or commit (optional)"
+                value={gitRef}
+                onChange={(e) => setGitRef(e.target.value)}
                 disabled={showIndexingDialog}
-                className="h-14 text-base pr-14 rounded-2xl bg-muted/50 border-0 focus-visible:ring-1"
+                className="max-w-xs mx-auto h-9 text-sm text-center rounded-xl bg-muted/50 border-0 focus-visible:ring-1"
               />
-              <button
-                type="submit"
-                disabled={showIndexingDialog || !url.trim()}
-                className="absolute right-2 top-1/2 -translate-y-1/2 h-10 w-10 rounded-full bg-foreground text-background flex items-center justify-center hover:opacity-80 transition-opacity disabled:opacity-40"
-              >
-                <ArrowUp className="h-5 w-5" />
-              </button>
+            </div>
+          ) : mode === 'path' ? (
+            <div className="space-y-3">
+              <div className="relative">
+                <Input
+                  ref={inputRef}
+                  type="text"
+                  placeholder={`${serverRoots[0]}/my-project`}
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  disabled={showIndexingDialog}
+                  className="h-14 text-base pr-14 rounded-2xl bg-muted/50 border-0 focus-visible:ring-1"
+                />
+                <button
+                  type="submit"
+                  disabled={showIndexingDialog || !url.trim()}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 h-10 w-10 rounded-full bg-foreground text-background flex items-center justify-center hover:opacity-80 transition-opacity disabled:opacity-40"
+                >
+                  <ArrowUp className="h-5 w-5" />
+                </button>
+              </div>
+              <Input
+                type="text"
+                placeholder="Project name (optional)"
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+                disabled={showIndexingDialog}
+                className="max-w-xs mx-auto h-9 text-sm text-center rounded-xl bg-muted/50 border-0 focus-visible:ring-1"
+              />
+              <p className="text-xs text-muted-foreground">
+                Allowed: {serverRoots.join(', ')}
+              </p>
             </div>
           ) : (
             <div className="space-y-4 max-w-md mx-auto">
@@ -254,6 +374,31 @@ export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
             </p>
           )}
         </form>
+
+        {/* Indexing settings - stored with the project and reused when it is re-indexed */}
+        {indexing && (
+          <div className="max-w-md mx-auto space-y-3">
+            <button
+              type="button"
+              onClick={() => setShowIndexingSettings(!showIndexingSettings)}
+              className="text-sm text-muted-foreground hover:text-foreground inline-flex items-center gap-1.5"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              Indexing settings
+              {showIndexingSettings ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </button>
+            {showIndexingSettings && (
+              <div className="p-4 bg-muted/50 rounded-lg border">
+                <IndexingSettingsForm
+                  value={indexing}
+                  defaults={indexingDefaults || undefined}
+                  onChange={handleIndexingChange}
+                  disabled={showIndexingDialog || isProcessingFiles}
+                />
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* File Selection Dialog - shows breakdown before indexing */}
@@ -262,6 +407,7 @@ export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
           open={showFileSelectionDialog}
           projectName={projectName}
           result={processingResult}
+          maxFileSize={indexing?.maxFileSize ?? 0}
           onConfirm={handleFileSelectionConfirm}
           onCancel={handleFileSelectionCancel}
         />
@@ -272,8 +418,10 @@ export function RepoConnector({ onIndexComplete }: RepoConnectorProps) {
         open={showIndexingDialog}
         mode={mode}
         url={url}
+        gitRef={gitRef.trim() || undefined}
         projectName={projectName}
         localFiles={localFiles}
+        indexing={(mode === 'local' || indexingEdited) && indexing ? indexing : undefined}
         onComplete={handleIndexComplete}
         onCancel={handleIndexCancel}
         onError={handleIndexError}
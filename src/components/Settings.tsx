@@ -5,15 +5,15 @@ import {
   Dialog,
   DialogContent,
 } from '@/components/ui/dialog'
-import { Settings as SettingsIcon, Check, Plus, X, Crown, Package, RefreshCw, BookOpen, Zap, Cloud, Server } from 'lucide-react'
-import { getApiKeyEntries, setApiKeyEntries, getGroqApiKeyEntries, setGroqApiKeyEntries, getPreset, setPreset, isPlusUser, setPlusAccessCode, getLowTpmMode, setLowTpmMode as setLowTpmModeStorage, getTpmLimit, setTpmLimit as setTpmLimitStorage, type Preset, type ApiKeyEntry } from '@/lib/api'
+import { Settings as SettingsIcon, Check, Plus, X, Crown, Package, RefreshCw, BookOpen, Zap, Cloud, Server, Github } from 'lucide-react'
+import { getApiKeyEntries, setApiKeyEntries, getGroqApiKeyEntries, setGroqApiKeyEntries, getPreset, setPreset, isPlusUser, setPlusAccessCode, getLowTpmMode, setLowTpmMode as setLowTpmModeStorage, getTpmLimit, setTpmLimit as setTpmLimitStorage, getGitHubToken, setGitHubToken, type Preset, type ApiKeyEntry } from '@/lib/api'
 
 interface SettingsProps {
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
-type SettingsTab = 'ai-providers' | 'plus'
+type SettingsTab = 'ai-providers' | 'github' | 'plus'
 
 export function Settings({ open, onOpenChange }: SettingsProps) {
   const [activeTab, setActiveTab] = useState<SettingsTab>('ai-providers')
@@ -24,6 +24,7 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
   const [isPlusActive, setIsPlusActive] = useState(false)
   const [lowTpmMode, setLowTpmMode] = useState(false)
   const [tpmLimit, setTpmLimit] = useState(15000)
+  const [githubToken, setGitHubTokenState] = useState('')
   const [saved, setSaved] = useState(false)
 
   useEffect(() => {
@@ -36,6 +37,7 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
       setIsPlusActive(isPlusUser())
       setLowTpmMode(getLowTpmMode())
       setTpmLimit(getTpmLimit())
+      setGitHubTokenState(getGitHubToken())
       setPlusAccessCodeState('')
       setSaved(false)
       setActiveTab('ai-providers')
@@ -64,6 +66,7 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
     setPreset(preset)
     setLowTpmModeStorage(lowTpmMode)
     setTpmLimitStorage(tpmLimit)
+    setGitHubToken(githubToken)
 
     // Handle Plus access code
     const wasPlusActive = isPlusActive
@@ -140,6 +143,20 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
             >
               AI Providers
             </button>
+            <button
+              onClick={() => setActiveTab('github')}
+              className={`w-full px-3 py-2 text-sm text-left rounded-md transition-colors flex items-center gap-2 ${
+                activeTab === 'github'
+                  ? 'bg-background text-foreground font-medium'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-background/50'
+              }`}
+            >
+              <Github className="h-3.5 w-3.5" />
+              GitHub
+              {githubToken.trim() && (
+                <span className="ml-auto w-1.5 h-1.5 rounded-full bg-primary" />
+              )}
+            </button>
             <button
               onClick={() => setActiveTab('plus')}
               className={`w-full px-3 py-2 text-sm text-left rounded-md transition-colors flex items-center gap-2 ${
@@ -452,6 +469,46 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
                 </div>
               )}
 
+              {activeTab === 'github' && (
+                <div className="space-y-6">
+                  <div>
+                    <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+                      <Github className="h-5 w-5" />
+                      GitHub
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                      Index private repositories and avoid the anonymous API rate limit
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Personal Access Token</label>
+                    <Input
+                      type="password"
+                      placeholder="ghp_... or github_pat_..."
+                      value={githubToken}
+                      onChange={(e) => setGitHubTokenState(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Private repositories need the <code className="bg-muted px-1 py-0.5 rounded">repo</code> scope
+                      (classic tokens) or <code className="bg-muted px-1 py-0.5 rounded">Contents: read</code> access
+                      (fine-grained tokens). Without a token, GitHub allows 60 requests per hour.
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Create a token in{' '}
+                      <a
+                        href="https://github.com/settings/tokens"
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline"
+                      >
+                        GitHub Developer Settings
+                      </a>
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {activeTab === 'plus' && (
                 <div className="space-y-6">
                   <div>
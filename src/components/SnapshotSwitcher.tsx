@@ -0,0 +1,58 @@
+import { useSearchParams } from 'react-router-dom'
+import { GitBranch, ChevronDown } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import type { SnapshotSummary } from '@/lib/api'
+
+interface SnapshotSwitcherProps {
+  snapshots: SnapshotSummary[]
+  current?: string
+}
+
+/**
+ * Switch between the indexed refs of a project
+ * The selected snapshot is kept in the ?snapshot= query parameter
+ */
+export function SnapshotSwitcher({ snapshots, current }: SnapshotSwitcherProps) {
+  const [, setSearchParams] = useSearchParams()
+  const active = snapshots.find(s => s.snapshot === current)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 gap-1.5 px-2 text-xs">
+          <GitBranch className="h-3.5 w-3.5" />
+          <code className="max-w-40 truncate">{active?.ref || current}</code>
+          <ChevronDown className="h-3 w-3 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Indexed refs</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={current}
+          onValueChange={(snapshot) => setSearchParams({ snapshot })}
+        >
+          {snapshots.map(s => (
+            <DropdownMenuRadioItem key={s.snapshot} value={s.snapshot}>
+              <code className="truncate">{s.ref || s.snapshot}</code>
+              {s.commitSha && (
+                <span className="ml-auto pl-2 text-xs text-muted-foreground">
+                  {s.commitSha.slice(0, 7)}
+                </span>
+              )}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,52 @@
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { getWikiExportUrl, type WikiExportFormat, type WikiType } from '@/lib/api'
+
+interface WikiExportMenuProps {
+  owner: string
+  repo: string
+  type: WikiType | 'docs'
+  snapshot?: string
+}
+
+const EXPORT_OPTIONS: { format: WikiExportFormat; label: string; description: string }[] = [
+  { format: 'site', label: 'Static site', description: 'HTML with search, ready to host' },
+  { format: 'markdown', label: 'Markdown', description: 'One file per page with front matter' },
+  { format: 'mkdocs', label: 'MkDocs', description: 'docs/ with mkdocs.yml' },
+  { format: 'docusaurus', label: 'Docusaurus', description: 'docs/ with sidebars.js' },
+]
+
+/**
+ * Download the stored wiki as a zip in one of the export formats
+ */
+export function WikiExportMenu({ owner, repo, type, snapshot }: WikiExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" title="Export">
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Export as zip</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_OPTIONS.map(option => (
+          <DropdownMenuItem key={option.format} asChild>
+            <a href={getWikiExportUrl(owner, repo, type, option.format, snapshot)} download className="flex flex-col items-start gap-0">
+              <span>{option.label}</span>
+              <span className="text-xs text-muted-foreground">{option.description}</span>
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowDown, ArrowUp, Loader2, Merge, Plus, Sparkles, Trash2 } from 'lucide-react'
+import type { WikiPage, WikiStructure } from '@/lib/api'
+
+interface WikiStructureEditorProps {
+  structure: WikiStructure
+  onGenerate: (structure: WikiStructure) => void
+  onCancel: () => void
+  onSuggest: () => void
+  suggesting?: boolean
+}
+
+// Select value for pages outside any section (Select items cannot have an empty value)
+const NO_SECTION = '__none__'
+
+function parsePaths(text: string): string[] {
+  return text.split('\n').map(path => path.trim()).filter(Boolean)
+}
+
+function uniqueId(pages: WikiPage[]): string {
+  const ids = new Set(pages.map(page => page.id))
+  let n = pages.length + 1
+  while (ids.has(`page-${n}`)) n++
+  return `page-${n}`
+}
+
+// Edited as text and parsed on blur, so paths can be typed freely
+function FilePathsField({ value, onChange }: { value: string[]; onChange: (value: string[]) => void }) {
+  const [text, setText] = useState(value.join('\n'))
+
+  useEffect(() => {
+    setText(value.join('\n'))
+  }, [value])
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Files</label>
+        <span className="text-xs text-muted-foreground">{value.length}</span>
+      </div>
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onChange(parsePaths(text))}
+        rows={3}
+        className="text-xs font-mono"
+        placeholder="One path per line"
+      />
+    </div>
+  )
+}
+
+/**
+ * Edit a wiki structure before its pages are generated: reorder, rename, add, remove and
+ * merge pages, move them between sections, and choose the files each page is written from
+ */
+export function WikiStructureEditor({ structure, onGenerate, onCancel, onSuggest, suggesting }: WikiStructureEditorProps) {
+  const [draft, setDraft] = useState<WikiStructure>(structure)
+
+  useEffect(() => {
+    setDraft(structure)
+  }, [structure])
+
+  const setPages = (pages: WikiPage[]) => setDraft(prev => ({ ...prev, pages }))
+
+  const updatePage = (index: number, changes: Partial<WikiPage>) => {
+    setPages(draft.pages.map((page, i) => (i === index ? { ...page, ...changes } : page)))
+  }
+
+  const movePage = (index: number, offset: number) => {
+    const pages = [...draft.pages]
+    const [page] = pages.splice(index, 1)
+    pages.splice(index + offset, 0, page)
+    setPages(pages)
+  }
+
+  // Links to a removed page are dropped, links to a merged page point to the page it merged into
+  const relink = (pages: WikiPage[], fromId: string, toId?: string) => pages.map(page => ({
+    ...page,
+    relatedPages: [...new Set((page.relatedPages || [])
+      .map(id => (id === fromId ? toId : id))
+      .filter((id): id is string => !!id && id !== page.id))],
+  }))
+
+  const removePage = (index: number) => {
+    const removed = draft.pages[index]
+    setPages(relink(draft.pages.filter((_, i) => i !== index), removed.id))
+  }
+
+  // Merge a page with the next one, keeping the first page's id and title
+  const mergeWithNext = (index: number) => {
+    const page = draft.pages[index]
+    const next = draft.pages[index + 1]
+    const merged: WikiPage = {
+      ...page,
+      description: [page.description, next.description].filter(Boolean).join(' '),
+      filePaths: [...new Set([...page.filePaths, ...next.filePaths])],
+      relatedPages: [...new Set([...(page.relatedPages || []), ...(next.relatedPages || [])])],
+    }
+    const pages = draft.pages.filter((_, i) => i !== index + 1).map((p, i) => (i === index ? merged : p))
+    setPages(relink(pages, next.id, page.id))
+  }
+
+  const addPage = () => {
+    setPages([...draft.pages, {
+      id: uniqueId(draft.pages),
+      title: 'New page',
+      description: '',
+      importance: 'medium',
+      filePaths: [],
+      relatedPages: [],
+    }])
+  }
+
+  // Sections listed depth first, indented by nesting level
+  const sectionOptions = (draft.sections || []).map(section => {
+    let depth = 0
+    let parentId = section.parentId
+    while (parentId && depth < 10) {
+      depth++
+      parentId = draft.sections?.find(s => s.id === parentId)?.parentId
+    }
+    return { id: section.id, label: `${'\u00a0\u00a0'.repeat(depth)}${section.title}` }
+  })
+
+  const valid = !!draft.title.trim() && draft.pages.length > 0 && draft.pages.every(page => page.title.trim())
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Edit structure</h2>
+          <p className="text-sm text-muted-foreground">
+            Pages are generated in this order from the files listed for each.
+          </p>
+        </div>
+        <Button onClick={onSuggest} variant="outline" size="sm" disabled={suggesting}>
+          {suggesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+          Suggest structure
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Title</label>
+          <Input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Description</label>
+          <Textarea
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            rows={2}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {draft.pages.map((page, index) => (
+          <Card key={page.id}>
+            <CardContent className="space-y-3 py-4">
+              <div className="flex items-center gap-2">
+                <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+                <Input
+                  value={page.title}
+                  onChange={(e) => updatePage(index, { title: e.target.value })}
+                  className="flex-1"
+                />
+                <Button
+                  onClick={() => movePage(index, -1)}
+                  variant="ghost"
+                  size="icon"
+                  title="Move up"
+                  disabled={index === 0}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  onClick={() => movePage(index, 1)}
+                  variant="ghost"
+                  size="icon"
+                  title="Move down"
+                  disabled={index === draft.pages.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  onClick={() => mergeWithNext(index)}
+                  variant="ghost"
+                  size="icon"
+                  title="Merge with next page"
+                  disabled={index === draft.pages.length - 1}
+                >
+                  <Merge className="h-4 w-4" />
+                </Button>
+                <Button onClick={() => removePage(index)} variant="ghost" size="icon" title="Remove page">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {sectionOptions.length > 0 && (
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Section</label>
+                  <Select
+                    value={page.parentId || NO_SECTION}
+                    onValueChange={(value) => updatePage(index, { parentId: value === NO_SECTION ? undefined : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SECTION}>No section</SelectItem>
+                      {sectionOptions.map(option => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Description</label>
+                <Textarea
+                  value={page.description || ''}
+                  onChange={(e) => updatePage(index, { description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <FilePathsField value={page.filePaths} onChange={(filePaths) => updatePage(index, { filePaths })} />
+            </CardContent>
+          </Card>
+        ))}
+
+        <Button onClick={addPage} variant="outline" className="w-full">
+          <Plus className="mr-2 h-4 w-4" />
+          Add page
+        </Button>
+      </div>
+
+      <div className="flex justify-end gap-2 border-t pt-4">
+        <Button onClick={onCancel} variant="outline">Cancel</Button>
+        <Button onClick={() => onGenerate(draft)} disabled={!valid || suggesting}>
+          Generate {draft.pages.length} page{draft.pages.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+import { useState, useEffect, useMemo } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import {
+  getWikiVersions,
+  getWikiVersion,
+  type StoredWiki,
+  type WikiType,
+  type WikiVersionSummary,
+} from '@/lib/api'
+import { diffLines } from '@/lib/diff'
+import { cn } from '@/lib/utils'
+
+interface WikiVersionsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  owner: string
+  repo: string
+  type: WikiType
+  snapshot: string
+}
+
+type PageChange = 'added' | 'removed' | 'changed' | 'unchanged'
+
+interface PageComparison {
+  id: string
+  title: string
+  change: PageChange
+  before: string
+  after: string
+}
+
+const CHANGE_STYLES: Record<PageChange, string> = {
+  added: 'text-green-600',
+  removed: 'text-destructive',
+  changed: 'text-amber-600',
+  unchanged: 'text-muted-foreground',
+}
+
+function formatVersion(version: WikiVersionSummary): string {
+  const parts = [new Date(version.generatedAt).toLocaleString()]
+  if (version.model) parts.push(version.model)
+  if (version.commitSha) parts.push(version.commitSha.slice(0, 7))
+  return parts.join(' · ')
+}
+
+/**
+ * Match the pages of two versions by id, in the order of the newer structure
+ */
+function comparePages(base: StoredWiki, compare: StoredWiki): PageComparison[] {
+  const basePages = base.structure?.pages || []
+  const newPages = compare.structure?.pages || []
+  const baseIds = new Set(basePages.map(page => page.id))
+  const compareIds = new Set(newPages.map(page => page.id))
+
+  const toComparison = (id: string, title: string): PageComparison => {
+    const before = baseIds.has(id) ? base.pages?.[id]?.content || '' : ''
+    const after = compareIds.has(id) ? compare.pages?.[id]?.content || '' : ''
+    const change: PageChange = !baseIds.has(id) ? 'added'
+      : !compareIds.has(id) ? 'removed'
+      : before === after ? 'unchanged' : 'changed'
+    return { id, title, change, before, after }
+  }
+
+  return [
+    ...newPages.map(page => toComparison(page.id, page.title)),
+    ...basePages.filter(page => !compareIds.has(page.id)).map(page => toComparison(page.id, page.title)),
+  ]
+}
+
+/**
+ * Browse the generated versions of a wiki and compare two of them page by page
+ */
+export function WikiVersionsDialog({ open, onOpenChange, owner, repo, type, snapshot }: WikiVersionsDialogProps) {
+  const [versions, setVersions] = useState<WikiVersionSummary[]>([])
+  const [baseId, setBaseId] = useState('')
+  const [compareId, setCompareId] = useState('')
+  const [base, setBase] = useState<StoredWiki | null>(null)
+  const [compare, setCompare] = useState<StoredWiki | null>(null)
+  const [activePage, setActivePage] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // Compare the two most recent versions by default
+  useEffect(() => {
+    if (!open) return
+
+    setLoading(true)
+    setError('')
+    getWikiVersions(owner, repo, type, snapshot)
+      .then((list) => {
+        setVersions(list)
+        setCompareId(list[0]?.version || '')
+        setBaseId(list[1]?.version || '')
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load versions'))
+      .finally(() => setLoading(false))
+  }, [open, owner, repo, type, snapshot])
+
+  useEffect(() => {
+    if (!baseId || !compareId) return
+
+    setLoading(true)
+    setError('')
+    Promise.all([
+      getWikiVersion(owner, repo, type, baseId, snapshot),
+      getWikiVersion(owner, repo, type, compareId, snapshot),
+    ])
+      .then(([baseVersion, compareVersion]) => {
+        setBase(baseVersion)
+        setCompare(compareVersion)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load versions'))
+      .finally(() => setLoading(false))
+  }, [owner, repo, type, snapshot, baseId, compareId])
+
+  const pages = useMemo(() => (base && compare ? comparePages(base, compare) : []), [base, compare])
+
+  // Start on the first page that changed
+  useEffect(() => {
+    const first = pages.find(page => page.change !== 'unchanged') || pages[0]
+    setActivePage(first?.id || '')
+  }, [pages])
+
+  const current = pages.find(page => page.id === activePage)
+  const lines = useMemo(() => (current ? diffLines(current.before, current.after) : []), [current])
+  const changedCount = pages.filter(page => page.change !== 'unchanged').length
+
+  const versionSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="text-xs">
+        <SelectValue placeholder="Select a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version.version} value={version.version} className="text-xs">
+            {formatVersion(version)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            {versions.length} generated version{versions.length === 1 ? '' : 's'} of this wiki
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length < 2 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {loading ? <Loader2 className="mx-auto h-5 w-5 animate-spin" /> : 'Regenerate the wiki to have versions to compare.'}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="text-sm font-medium">From</label>
+                {versionSelect(baseId, setBaseId)}
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium">To</label>
+                {versionSelect(compareId, setCompareId)}
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex min-h-0 flex-1 gap-4 border-t pt-3">
+              <nav className="w-56 shrink-0 space-y-1 overflow-y-auto">
+                <p className="px-2 pb-1 text-xs text-muted-foreground">
+                  {changedCount} of {pages.length} pages changed
+                </p>
+                {pages.map(page => (
+                  <button
+                    key={page.id}
+                    onClick={() => setActivePage(page.id)}
+                    className={cn(
+                      'w-full rounded px-2 py-1.5 text-left text-sm',
+                      page.id === activePage ? 'bg-muted font-medium' : 'hover:bg-muted/50'
+                    )}
+                  >
+                    <span className="block truncate">{page.title}</span>
+                    <span className={cn('text-xs', CHANGE_STYLES[page.change])}>{page.change}</span>
+                  </button>
+                ))}
+              </nav>
+
+              <div className="min-w-0 flex-1 overflow-auto rounded border bg-muted/30 font-mono text-xs">
+                {loading ? (
+                  <Loader2 className="m-4 h-5 w-5 animate-spin" />
+                ) : current?.change === 'unchanged' ? (
+                  <p className="p-4 text-muted-foreground">No changes on this page.</p>
+                ) : (
+                  lines.map((line, idx) => (
+                    <div
+                      key={idx}
+                      className={cn(
+                        'whitespace-pre-wrap px-3',
+                        line.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+                        line.type === 'removed' && 'bg-red-500/10 text-destructive'
+                      )}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -75,7 +75,7 @@ export function useWikiJobReconnection({
 }: {
   jobId: string
   generator: () => AsyncGenerator<WikiEvent>
-  processEvent: (event: WikiEvent, pageIdRef: { value: string }, contentRef: { value: string }) => void
+  processEvent: (event: WikiEvent) => void
   enabled: boolean
   toastId?: string
   setLoadingToast?: (id: string, message: string) => void
@@ -93,12 +93,9 @@ export function useWikiJobReconnection({
           setLoadingToast(toastId, 'Reconnecting to generation...')
         }
 
-        const currentPageIdRef = { value: '' }
-        const currentContentRef = { value: '' }
-
         try {
           for await (const event of generator()) {
-            processEvent(event, currentPageIdRef, currentContentRef)
+            processEvent(event)
           }
         } finally {
           setReconnecting(false)
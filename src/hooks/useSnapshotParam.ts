@@ -0,0 +1,10 @@
+import { useSearchParams } from 'react-router-dom'
+
+/**
+ * Snapshot id requested via ?snapshot= on repo pages
+ * undefined means the project's default (most recently indexed) snapshot
+ */
+export function useSnapshotParam(): string | undefined {
+  const [searchParams] = useSearchParams()
+  return searchParams.get('snapshot') || undefined
+}
@@ -8,6 +8,7 @@ const GEMINI_MODEL_STORAGE_KEY = 'productwiki_gemini_model' // Legacy
 const PLUS_ACCESS_CODE_KEY = 'productwiki_plus_access_code'
 const LOW_TPM_MODE_KEY = 'productwiki_low_tpm_mode'
 const TPM_LIMIT_KEY = 'productwiki_tpm_limit'
+const GITHUB_TOKEN_KEY = 'productwiki_github_token'
 
 export const DEFAULT_GEMINI_MODEL = 'gemma-3-27b-it'
 const PLUS_ACCESS_CODE = 'plus'
@@ -70,39 +71,101 @@ export interface WikiPage {
   importance?: 'high' | 'medium' | 'low'
   filePaths: string[]
   relatedPages?: string[]
+  parentId?: string // Section the page belongs to
+}
+
+// A group of pages in the sidebar; sections nest through parentId
+export interface WikiSection {
+  id: string
+  title: string
+  parentId?: string
 }
 
 export interface WikiStructure {
   title: string
   description: string
-  pages: WikiPage[]
+  pages: WikiPage[] // Depth first, in sidebar order
+  sections?: WikiSection[]
+}
+
+export interface LineRange {
+  startLine: number
+  endLine: number
 }
 
 export interface WikiSource {
   path: string
   relevance: number
+  ranges?: LineRange[]
+  queries?: string[] // Search queries that found the file (with query expansion)
+}
+
+// Token usage of the retrieved code packed into a prompt
+export interface ContextUsage {
+  contextTokens: number
+  promptTokens: number // Whole prompt, including the context
+  budget: number // Tokens available for the context
+  files: number
+  outlinedFiles: number // Files shortened to an outline to fit the budget
+  droppedFiles: number // Files left out to fit the budget
 }
 
 // Wiki generation event types
 export type WikiEvent =
-  | { type: 'status'; message: string }
+  | { type: 'status'; message: string; usage?: ContextUsage; pageId?: string }
   | { type: 'structure'; wiki: WikiStructure }
   | { type: 'page_start'; pageId: string; title: string }
-  | { type: 'content'; chunk: string }
+  | { type: 'content'; chunk: string; pageId: string } // Pages generate concurrently, so chunks interleave
   | { type: 'page_complete'; pageId: string; sources: WikiSource[] }
   | { type: 'page_error'; pageId: string; message: string }
   | { type: 'complete' }
   | { type: 'error'; message: string }
 
+// A matching file that could not be indexed (too large, binary, download failed, ...)
+export interface SkippedFile {
+  path: string
+  reason: string
+}
+
+// Per-project indexing settings (defaults from GET /config/indexing-defaults)
+export interface IndexingSettings {
+  chunkSize: number // Words per chunk
+  chunkOverlap: number // Words shared with the previous chunk
+  supportedExtensions: string[]
+  excludedDirs: string[]
+  excludedFiles: string[]
+  excludedPatterns: string[] // Regular expression sources
+  maxFileSize: number // Bytes
+}
+
+// One indexed ref of a project, as listed in the ref switcher
+export interface SnapshotSummary {
+  snapshot: string
+  ref?: string
+  commitSha?: string
+  indexedAt: string
+  fileCount: number
+  chunkCount: number
+}
+
 export interface ProjectMetadata {
   owner: string
   repo: string
   url: string
+  snapshot?: string // Id of the snapshot this metadata describes
+  snapshots?: SnapshotSummary[] // All indexed snapshots, most recent first
+  ref?: string // Branch, tag or commit that was indexed
+  commitSha?: string
+  branch?: string // Legacy, replaced by ref
+  source?: string
+  path?: string // Server directory, for projects indexed with /index/path
   indexedAt: string
   fileCount: number
   chunkCount: number
   embedding?: EmbeddingInfo
   embeddingCompatibility?: EmbeddingCompatibility
+  skippedFiles?: SkippedFile[]
+  indexing?: IndexingSettings // Settings the snapshot was indexed with
 }
 
 export function getApiKey(): string | null {
@@ -185,6 +248,19 @@ export function setGroqApiKeyEntries(entries: ApiKeyEntry[]): void {
   }
 }
 
+// GitHub token functions
+export function getGitHubToken(): string {
+  return localStorage.getItem(GITHUB_TOKEN_KEY) || ''
+}
+
+export function setGitHubToken(token: string): void {
+  if (token.trim()) {
+    localStorage.setItem(GITHUB_TOKEN_KEY, token.trim())
+  } else {
+    localStorage.removeItem(GITHUB_TOKEN_KEY)
+  }
+}
+
 // Preset functions
 export function getPreset(): Preset {
   const stored = localStorage.getItem(PRESET_STORAGE_KEY) as Preset | null
@@ -301,12 +377,27 @@ function getHeaders(): Record<string, string> {
     }
   }
 
+  // GitHub token for private repos (optional - server has fallback)
+  const githubToken = getGitHubToken()
+  if (githubToken) {
+    headers['X-GitHub-Token'] = githubToken
+  }
+
   return headers
 }
 
 export type IndexProgress =
   | { phase: 'clone'; status: 'started' | 'completed' }
-  | { phase: 'extract'; status: 'completed'; fileCount: number }
+  | {
+      phase: 'diff'
+      status: 'completed'
+      incremental: boolean
+      added: number
+      changed: number
+      removed: number
+      unchanged: number
+    }
+  | { phase: 'extract'; status: 'completed'; fileCount: number; skipped?: SkippedFile[] }
   | { phase: 'chunk'; status: 'completed'; chunkCount: number }
   | { phase: 'embed'; status: 'progress'; current: number; total: number }
   | { phase: 'embed'; status: 'completed' }
@@ -316,14 +407,30 @@ export type IndexProgress =
   | { phase: 'cancelled' }
   | { phase: 'done' }
 
+// Server defaults for new projects
+export async function getIndexingDefaults(): Promise<IndexingSettings> {
+  const response = await fetch(`${BASE_URL}/config/indexing-defaults`, {
+    headers: getHeaders(),
+  })
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch indexing defaults')
+  }
+
+  return response.json()
+}
+
+// Without indexing settings the server reuses the ones the project was last indexed with
 export async function* indexRepoStream(
   url: string,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  ref?: string,
+  indexing?: IndexingSettings
 ): AsyncGenerator<IndexProgress> {
   const response = await fetch(`${BASE_URL}/index`, {
     method: 'POST',
     headers: getHeaders(),
-    body: JSON.stringify({ url }),
+    body: JSON.stringify({ url, ref, indexing }),
     signal,
   })
 
@@ -375,12 +482,13 @@ export interface LocalFileData {
 export async function* indexLocalStream(
   projectName: string,
   files: LocalFileData[],
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  indexing?: IndexingSettings
 ): AsyncGenerator<IndexProgress> {
   const response = await fetch(`${BASE_URL}/index/local`, {
     method: 'POST',
     headers: getHeaders(),
-    body: JSON.stringify({ projectName, files }),
+    body: JSON.stringify({ projectName, files, indexing }),
     signal,
   })
 
@@ -424,6 +532,73 @@ export async function* indexLocalStream(
   }
 }
 
+// Server directories that can be indexed in place (empty when server path indexing is disabled)
+export async function getServerPathRoots(): Promise<string[]> {
+  const response = await fetch(`${BASE_URL}/index/path/roots`, {
+    headers: getHeaders(),
+  })
+
+  if (!response.ok) {
+    return []
+  }
+
+  const data = await response.json()
+  return data.roots || []
+}
+
+export async function* indexServerPathStream(
+  path: string,
+  projectName?: string,
+  signal?: AbortSignal,
+  indexing?: IndexingSettings
+): AsyncGenerator<IndexProgress> {
+  const response = await fetch(`${BASE_URL}/index/path`, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify({ path, projectName, indexing }),
+    signal,
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to index server directory')
+  }
+
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body')
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        const data = line.slice(6)
+        try {
+          const parsed = JSON.parse(data) as IndexProgress
+          yield parsed
+          if (parsed.phase === 'done' || parsed.phase === 'error' || parsed.phase === 'cancelled') {
+            return
+          }
+        } catch {
+          // Skip non-JSON lines
+        }
+      }
+    }
+  }
+}
+
 export async function indexRepo(url: string): Promise<ProjectMetadata> {
   const generator = indexRepoStream(url)
   let metadata: ProjectMetadata | undefined
@@ -456,14 +631,21 @@ export async function getProjects(): Promise<ProjectMetadata[]> {
   return response.json()
 }
 
-export async function getProject(owner: string, repo: string): Promise<ProjectMetadata> {
-  const response = await fetch(`${BASE_URL}/projects/${owner}/${repo}`, {
+/**
+ * Build a ?snapshot= query string (empty for the default snapshot)
+ */
+function snapshotQuery(snapshot?: string): string {
+  return snapshot ? `?snapshot=${encodeURIComponent(snapshot)}` : ''
+}
+
+export async function getProject(owner: string, repo: string, snapshot?: string): Promise<ProjectMetadata> {
+  const response = await fetch(`${BASE_URL}/projects/${owner}/${repo}${snapshotQuery(snapshot)}`, {
     headers: getHeaders(),
   })
 
   if (!response.ok) {
     if (response.status === 404) {
-      throw new Error('Project not found')
+      throw new Error(snapshot ? 'Snapshot not found' : 'Project not found')
     }
     throw new Error('Failed to fetch project')
   }
@@ -471,8 +653,8 @@ export async function getProject(owner: string, repo: string): Promise<ProjectMe
   return response.json()
 }
 
-export async function getIndexStatus(owner: string, repo: string): Promise<{ indexed: boolean }> {
-  const response = await fetch(`${BASE_URL}/index/status/${owner}/${repo}`)
+export async function getIndexStatus(owner: string, repo: string, snapshot?: string): Promise<{ indexed: boolean }> {
+  const response = await fetch(`${BASE_URL}/index/status/${owner}/${repo}${snapshotQuery(snapshot)}`)
 
   if (!response.ok) {
     throw new Error('Failed to check index status')
@@ -481,11 +663,11 @@ export async function getIndexStatus(owner: string, repo: string): Promise<{ ind
   return response.json()
 }
 
-export async function* generateDocs(owner: string, repo: string): AsyncGenerator<string> {
+export async function* generateDocs(owner: string, repo: string, snapshot?: string): AsyncGenerator<string> {
   const response = await fetch(`${BASE_URL}/generate/docs`, {
     method: 'POST',
     headers: getHeaders(),
-    body: JSON.stringify({ owner, repo }),
+    body: JSON.stringify({ owner, repo, snapshot }),
   })
 
   if (!response.ok) {
@@ -551,11 +733,11 @@ export async function clearServerLogs(): Promise<void> {
   await fetch(`${BASE_URL}/logs`, { method: 'DELETE' })
 }
 
-export async function* generatePackagePrompt(owner: string, repo: string): AsyncGenerator<string> {
+export async function* generatePackagePrompt(owner: string, repo: string, snapshot?: string): AsyncGenerator<string> {
   const response = await fetch(`${BASE_URL}/generate/package-prompt`, {
     method: 'POST',
     headers: getHeaders(),
-    body: JSON.stringify({ owner, repo }),
+    body: JSON.stringify({ owner, repo, snapshot }),
   })
 
   if (!response.ok) {
@@ -606,11 +788,11 @@ export async function* generatePackagePrompt(owner: string, repo: string): Async
   }
 }
 
-export async function* generateReimplementPrompt(owner: string, repo: string): AsyncGenerator<string> {
+export async function* generateReimplementPrompt(owner: string, repo: string, snapshot?: string): AsyncGenerator<string> {
   const response = await fetch(`${BASE_URL}/generate/reimplement-prompt`, {
     method: 'POST',
     headers: getHeaders(),
-    body: JSON.stringify({ owner, repo }),
+    body: JSON.stringify({ owner, repo, snapshot }),
   })
 
   if (!response.ok) {
@@ -667,20 +849,29 @@ export type WikiType = 'brief' | 'detailed' | 'dynamic' | 'product-docs'
 async function* generateWikiInternal(
   owner: string,
   repo: string,
-  type: WikiType
+  type: WikiType,
+  snapshot?: string,
+  structure?: WikiStructure
 ): AsyncGenerator<WikiEvent> {
   const endpoint = `${BASE_URL}/wiki/${type}`
 
   const response = await fetch(endpoint, {
     method: 'POST',
     headers: getHeaders(),
-    body: JSON.stringify({ owner, repo }),
+    body: JSON.stringify({ owner, repo, snapshot, structure }),
   })
 
   if (!response.ok) {
     throw new Error(`Failed to generate ${type} wiki`)
   }
 
+  yield* readWikiEvents(response)
+}
+
+/**
+ * Read the wiki events of an SSE response until the job completes or fails
+ */
+async function* readWikiEvents(response: Response): AsyncGenerator<WikiEvent> {
   const reader = response.body?.getReader()
   if (!reader) {
     throw new Error('No response body')
@@ -725,30 +916,281 @@ async function* generateWikiInternal(
 
 export async function* generateBriefWiki(
   owner: string,
-  repo: string
+  repo: string,
+  snapshot?: string,
+  structure?: WikiStructure
 ): AsyncGenerator<WikiEvent> {
-  yield* generateWikiInternal(owner, repo, 'brief')
+  yield* generateWikiInternal(owner, repo, 'brief', snapshot, structure)
 }
 
 export async function* generateDetailedWiki(
   owner: string,
-  repo: string
+  repo: string,
+  snapshot?: string,
+  structure?: WikiStructure
 ): AsyncGenerator<WikiEvent> {
-  yield* generateWikiInternal(owner, repo, 'detailed')
+  yield* generateWikiInternal(owner, repo, 'detailed', snapshot, structure)
 }
 
 export async function* generateDynamicWiki(
   owner: string,
-  repo: string
+  repo: string,
+  snapshot?: string,
+  structure?: WikiStructure
 ): AsyncGenerator<WikiEvent> {
-  yield* generateWikiInternal(owner, repo, 'dynamic')
+  yield* generateWikiInternal(owner, repo, 'dynamic', snapshot, structure)
 }
 
 export async function* generateProductDocs(
   owner: string,
-  repo: string
+  repo: string,
+  snapshot?: string,
+  structure?: WikiStructure
 ): AsyncGenerator<WikiEvent> {
-  yield* generateWikiInternal(owner, repo, 'product-docs')
+  yield* generateWikiInternal(owner, repo, 'product-docs', snapshot, structure)
+}
+
+/**
+ * Generate only the structure of a wiki, to be edited and passed back when generating its pages
+ */
+export async function generateWikiStructure(
+  owner: string,
+  repo: string,
+  type: WikiType,
+  snapshot?: string
+): Promise<WikiStructure> {
+  const response = await fetch(`${BASE_URL}/wiki/${type}/structure`, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify({ owner, repo, snapshot }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to generate wiki structure')
+  }
+
+  const data = await response.json()
+  return data.structure
+}
+
+/**
+ * Regenerate one page of the latest generated wiki, saved as a new version of the wiki
+ */
+export async function* regenerateWikiPage(
+  owner: string,
+  repo: string,
+  type: WikiType,
+  pageId: string,
+  snapshot?: string
+): AsyncGenerator<WikiEvent> {
+  const response = await fetch(`${BASE_URL}/wiki/${type}/page`, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify({ owner, repo, pageId, snapshot }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to regenerate page')
+  }
+
+  yield* readWikiEvents(response)
+}
+
+// A generated page as stored on the server
+export interface StoredWikiPage {
+  status: 'pending' | 'generating' | 'complete' | 'error'
+  content: string
+  sources: WikiSource[]
+  error?: string
+}
+
+// One generated version of a wiki, as listed in its history
+export interface WikiVersionSummary {
+  version: string
+  generatedAt: string
+  preset?: string
+  model?: string
+  ref?: string
+  commitSha?: string // Indexed commit the wiki was generated from
+  title?: string
+  pageCount?: number
+}
+
+// A generated wiki version for a snapshot, shared through the server
+export interface StoredWiki extends WikiVersionSummary {
+  type: WikiType | 'docs'
+  owner: string
+  repo: string
+  snapshot: string
+  structure?: WikiStructure
+  pages?: Record<string, StoredWikiPage>
+  content?: string // Quick documentation
+}
+
+/**
+ * Get the latest generated wiki of a type, or null if none was generated for the snapshot
+ */
+export async function getStoredWiki(
+  owner: string,
+  repo: string,
+  type: WikiType | 'docs',
+  snapshot?: string
+): Promise<StoredWiki | null> {
+  const response = await fetch(`${BASE_URL}/wiki/${type}/${owner}/${repo}${snapshotQuery(snapshot)}`, {
+    headers: getHeaders(),
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error('Failed to fetch wiki')
+  }
+
+  return response.json()
+}
+
+/**
+ * List the generated versions of a wiki, newest first
+ */
+export async function getWikiVersions(
+  owner: string,
+  repo: string,
+  type: WikiType | 'docs',
+  snapshot?: string
+): Promise<WikiVersionSummary[]> {
+  const response = await fetch(`${BASE_URL}/wiki/${type}/${owner}/${repo}/versions${snapshotQuery(snapshot)}`, {
+    headers: getHeaders(),
+  })
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch wiki versions')
+  }
+
+  const data = await response.json()
+  return data.versions
+}
+
+/**
+ * Get one generated version of a wiki
+ */
+export async function getWikiVersion(
+  owner: string,
+  repo: string,
+  type: WikiType | 'docs',
+  version: string,
+  snapshot?: string
+): Promise<StoredWiki> {
+  const response = await fetch(`${BASE_URL}/wiki/${type}/${owner}/${repo}/versions/${version}${snapshotQuery(snapshot)}`, {
+    headers: getHeaders(),
+  })
+
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? 'Version not found' : 'Failed to fetch wiki version')
+  }
+
+  return response.json()
+}
+
+export type WikiExportFormat = 'site' | 'markdown' | 'mkdocs' | 'docusaurus'
+
+/**
+ * Download URL of a generated wiki exported as a zip: a static HTML documentation site, markdown
+ * files with front matter, or an MkDocs or Docusaurus project
+ */
+export function getWikiExportUrl(
+  owner: string,
+  repo: string,
+  type: WikiType | 'docs',
+  format: WikiExportFormat,
+  snapshot?: string
+): string {
+  const params = new URLSearchParams({ format })
+  if (snapshot) {
+    params.set('snapshot', snapshot)
+  }
+  return `${BASE_URL}/wiki/${type}/${owner}/${repo}/export?${params}`
+}
+
+// Codebase chat types
+export interface ChatMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatSource {
+  path: string
+  chunkIndex: number
+  startLine?: number | null
+  endLine?: number | null
+  relevance: number
+}
+
+export type ChatEvent =
+  | { type: 'status'; message: string; usage: ContextUsage }
+  | { type: 'content'; chunk: string }
+  | { type: 'sources'; sources: ChatSource[] }
+  | { type: 'error'; message: string }
+
+/**
+ * Ask a question about an indexed repository
+ * messages is the full conversation, ending with the new user question
+ */
+export async function* chatStream(
+  owner: string,
+  repo: string,
+  messages: ChatMessage[],
+  snapshot?: string,
+  signal?: AbortSignal
+): AsyncGenerator<ChatEvent> {
+  const response = await fetch(`${BASE_URL}/chat/${owner}/${repo}`, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify({ messages, snapshot }),
+    signal,
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to send message')
+  }
+
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body')
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        const data = line.slice(6)
+
+        if (data === '[DONE]') {
+          return
+        }
+
+        try {
+          yield JSON.parse(data) as ChatEvent
+        } catch {
+          // Skip non-JSON lines
+        }
+      }
+    }
+  }
 }
 
 // Job status types
@@ -787,14 +1229,16 @@ export async function getJobEvents(jobId: string): Promise<JobEventsResponse> {
 }
 
 /**
- * Job ID builders for different generation types
+ * Job ID builders for different generation types (one job per project snapshot)
  */
 export const JobIds = {
-  briefWiki: (owner: string, repo: string) => `wiki_brief_${owner}_${repo}`,
-  detailedWiki: (owner: string, repo: string) => `wiki_detailed_${owner}_${repo}`,
-  dynamicWiki: (owner: string, repo: string) => `wiki_dynamic_${owner}_${repo}`,
-  productDocs: (owner: string, repo: string) => `wiki_product-docs_${owner}_${repo}`,
-  docs: (owner: string, repo: string) => `generate_docs_${owner}_${repo}`,
-  packagePrompt: (owner: string, repo: string) => `generate_package-prompt_${owner}_${repo}`,
-  reimplementPrompt: (owner: string, repo: string) => `generate_reimplement-prompt_${owner}_${repo}`,
+  briefWiki: (owner: string, repo: string, snapshot: string) => `wiki_brief_${owner}_${repo}@${snapshot}`,
+  detailedWiki: (owner: string, repo: string, snapshot: string) => `wiki_detailed_${owner}_${repo}@${snapshot}`,
+  dynamicWiki: (owner: string, repo: string, snapshot: string) => `wiki_dynamic_${owner}_${repo}@${snapshot}`,
+  productDocs: (owner: string, repo: string, snapshot: string) => `wiki_product-docs_${owner}_${repo}@${snapshot}`,
+  wikiPage: (type: WikiType, owner: string, repo: string, snapshot: string, pageId: string) =>
+    `wiki_${type}_${owner}_${repo}@${snapshot}_page_${pageId}`,
+  docs: (owner: string, repo: string, snapshot: string) => `generate_docs_${owner}_${repo}@${snapshot}`,
+  packagePrompt: (owner: string, repo: string, snapshot: string) => `generate_package-prompt_${owner}_${repo}@${snapshot}`,
+  reimplementPrompt: (owner: string, repo: string, snapshot: string) => `generate_reimplement-prompt_${owner}_${repo}@${snapshot}`,
 }
@@ -0,0 +1,61 @@
+/**
+ * Line diff for comparing generated documentation versions
+ */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Diff two texts line by line (longest common subsequence)
+ * Common leading and trailing lines are matched first, so regenerated pages with local edits
+ * only compare the lines in between
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+  const lengths: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i][j] = midA[i] === midB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      result.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: midA[i++] });
+    } else {
+      result.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) result.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) result.push({ type: 'added', text: midB[j++] });
+
+  return result.concat(a.slice(endA).map(text => ({ type: 'same', text })));
+}
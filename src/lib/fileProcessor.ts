@@ -1,11 +1,6 @@
-import {
-  SUPPORTED_EXTENSIONS,
-  EXCLUDED_DIRS,
-  EXCLUDED_FILES,
-  EXCLUDED_PATTERNS,
-  MAX_FILE_SIZE,
-  MAX_FILE_COUNT,
-} from './constants';
+import { MAX_FILE_COUNT } from './constants';
+import type { IndexingSettings } from './api';
+import { createIgnoreRules, addIgnoreFile, getIgnoreState, isIgnoreFile, type IgnoreRules } from './ignoreRules';
 
 export interface FileData {
   path: string;
@@ -17,6 +12,7 @@ export interface ProcessingResult {
   totalFiles: number;
   filteredCount: number;
   skippedReasons: {
+    ignored: number; // .gitignore or .productwikiignore
     excludedDirs: number;
     unsupportedExtension: number;
     tooLarge: number;
@@ -25,21 +21,56 @@ export interface ProcessingResult {
   };
 }
 
-type SkipReason = 'excludedDirs' | 'unsupportedExtension' | 'tooLarge' | 'excludedFile' | 'excludedPattern' | null;
+type SkipReason = 'ignored' | 'excludedDirs' | 'unsupportedExtension' | 'tooLarge' | 'excludedFile' | 'excludedPattern' | null;
 
 /**
  * Check if a file should be included based on filtering rules
  * Returns null if file should be included, or the reason it was skipped
  */
-function getSkipReason(relativePath: string, size: number): SkipReason {
+function getSkipReason(
+  relativePath: string,
+  size: number,
+  ignoreRules: IgnoreRules,
+  settings: IndexingSettings
+): SkipReason {
+  // Check .gitignore / .productwikiignore; re-included paths skip the default exclusions
+  const { ignored, included } = getIgnoreState(ignoreRules, relativePath);
+  if (ignored) {
+    return 'ignored';
+  }
+
   // Check file size
-  if (size > MAX_FILE_SIZE) {
+  if (size > settings.maxFileSize) {
     return 'tooLarge';
   }
 
+  if (!included) {
+    const exclusion = getExclusionReason(relativePath, settings);
+    if (exclusion) {
+      return exclusion;
+    }
+  }
+
+  // Check extension
+  const lastDotIndex = relativePath.lastIndexOf('.');
+  if (lastDotIndex === -1) {
+    return 'unsupportedExtension'; // No extension
+  }
+  const ext = relativePath.substring(lastDotIndex).toLowerCase();
+  if (!settings.supportedExtensions.includes(ext)) {
+    return 'unsupportedExtension';
+  }
+
+  return null; // Include the file
+}
+
+/**
+ * Check the project's excluded directories, files and patterns
+ */
+function getExclusionReason(relativePath: string, settings: IndexingSettings): SkipReason {
   // Check excluded directories
   const parts = relativePath.split('/');
-  for (const dir of EXCLUDED_DIRS) {
+  for (const dir of settings.excludedDirs) {
     if (parts.includes(dir)) {
       return 'excludedDirs';
     }
@@ -47,36 +78,54 @@ function getSkipReason(relativePath: string, size: number): SkipReason {
 
   // Check excluded files
   const fileName = parts[parts.length - 1];
-  if (EXCLUDED_FILES.includes(fileName)) {
+  if (settings.excludedFiles.includes(fileName)) {
     return 'excludedFile';
   }
 
   // Check excluded patterns
-  for (const pattern of EXCLUDED_PATTERNS) {
-    if (pattern.test(relativePath)) {
+  for (const pattern of settings.excludedPatterns) {
+    if (new RegExp(pattern).test(relativePath)) {
       return 'excludedPattern';
     }
   }
 
-  // Check extension
-  const lastDotIndex = relativePath.lastIndexOf('.');
-  if (lastDotIndex === -1) {
-    return 'unsupportedExtension'; // No extension
-  }
-  const ext = relativePath.substring(lastDotIndex).toLowerCase();
-  if (!SUPPORTED_EXTENSIONS.includes(ext)) {
-    return 'unsupportedExtension';
+  return null;
+}
+
+/**
+ * Get a file's path relative to the selected directory (removes the root directory name)
+ */
+function getRelativePath(file: File): string {
+  return file.webkitRelativePath.split('/').slice(1).join('/');
+}
+
+/**
+ * Read every .gitignore and .productwikiignore in the selection
+ */
+async function readIgnoreRules(files: File[]): Promise<IgnoreRules> {
+  const ignoreRules = createIgnoreRules();
+
+  for (const file of files) {
+    const relativePath = getRelativePath(file);
+    if (relativePath && isIgnoreFile(relativePath)) {
+      try {
+        addIgnoreFile(ignoreRules, relativePath, await file.text());
+      } catch {
+        console.warn(`Failed to read ignore file: ${relativePath}`);
+      }
+    }
   }
 
-  return null; // Include the file
+  return ignoreRules;
 }
 
 /**
  * Process local files from directory picker
- * Filters files based on extension, excluded directories, and file size
+ * Filters files based on .gitignore/.productwikiignore and the project's indexing settings
+ * (extensions, exclusions and file size)
  * Returns processing result with files and statistics
  */
-export async function processLocalFiles(files: FileList): Promise<ProcessingResult> {
+export async function processLocalFiles(files: FileList, settings: IndexingSettings): Promise<ProcessingResult> {
   const fileArray = Array.from(files);
   const totalFiles = fileArray.length;
 
@@ -84,8 +133,10 @@ export async function processLocalFiles(files: FileList): Promise<ProcessingResu
     throw new Error(`Directory contains too many files (${totalFiles}). Maximum is ${MAX_FILE_COUNT}.`);
   }
 
+  const ignoreRules = await readIgnoreRules(fileArray);
   const processed: FileData[] = [];
   const skippedReasons = {
+    ignored: 0,
     excludedDirs: 0,
     unsupportedExtension: 0,
     tooLarge: 0,
@@ -94,10 +145,7 @@ export async function processLocalFiles(files: FileList): Promise<ProcessingResu
   };
 
   for (const file of fileArray) {
-    // Get relative path from webkitRelativePath (removes the root directory name)
-    const fullPath = file.webkitRelativePath;
-    const parts = fullPath.split('/');
-    const relativePath = parts.slice(1).join('/');
+    const relativePath = getRelativePath(file);
 
     // Skip if path is empty (shouldn't happen, but safety check)
     if (!relativePath) {
@@ -106,9 +154,11 @@ export async function processLocalFiles(files: FileList): Promise<ProcessingResu
     }
 
     // Apply filters
-    const skipReason = getSkipReason(relativePath, file.size);
+    const skipReason = getSkipReason(relativePath, file.size, ignoreRules, settings);
     if (skipReason) {
-      if (skipReason === 'excludedDirs') {
+      if (skipReason === 'ignored') {
+        skippedReasons.ignored++;
+      } else if (skipReason === 'excludedDirs') {
         skippedReasons.excludedDirs++;
       } else if (skipReason === 'unsupportedExtension' || skipReason === 'excludedFile' || skipReason === 'excludedPattern') {
         skippedReasons.unsupportedExtension++;
@@ -0,0 +1,204 @@
+// gitignore-syntax rules - mirrored from server/src/services/ignoreRules.js
+// Keep in sync with the server implementation
+
+export const GITIGNORE = '.gitignore';
+export const PRODUCTWIKIIGNORE = '.productwikiignore';
+
+interface IgnoreRule {
+  base: string;
+  source: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;
+  depth: number;
+}
+
+export interface IgnoreRules {
+  gitignore: IgnoreRule[];
+  productwikiignore: IgnoreRule[];
+}
+
+export interface IgnoreState {
+  ignored: boolean;
+  included: boolean;
+  source?: string;
+}
+
+/**
+ * Check whether a path is an ignore file
+ */
+export function isIgnoreFile(path: string): boolean {
+  const name = path.split('/').pop();
+  return name === GITIGNORE || name === PRODUCTWIKIIGNORE;
+}
+
+/**
+ * Create an empty rule set; ignore files are added with addIgnoreFile
+ */
+export function createIgnoreRules(): IgnoreRules {
+  return { gitignore: [], productwikiignore: [] };
+}
+
+/**
+ * Convert a gitignore glob to a regular expression source
+ */
+function globToRegex(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/';
+        const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atStart && atEnd) {
+          // "**/" matches zero or more directories, a trailing "**" matches everything inside
+          if (i + 2 === glob.length) {
+            source += '.*';
+          } else {
+            source += '(?:.*/)?';
+            i++;
+          }
+          i++;
+          continue;
+        }
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let range = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      if (range[0] === '!') range = '^' + range.slice(1);
+      source += `[${range}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Parse one line of an ignore file into a rule (null for blank lines and comments)
+ */
+function parseRule(line: string, base: string, source: string, depth: number): IgnoreRule | null {
+  // Trailing spaces are ignored unless escaped
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  let directoryOnly = false;
+  if (pattern.endsWith('/')) {
+    directoryOnly = true;
+    pattern = pattern.slice(0, -1);
+  }
+  if (!pattern) return null;
+
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory;
+  // otherwise it matches a name at any depth
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  const body = globToRegex(pattern);
+
+  return {
+    base,
+    source,
+    negated,
+    directoryOnly,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+    depth,
+  };
+}
+
+/**
+ * Add the rules of an ignore file
+ * path is relative to the project root (e.g. "src/.gitignore")
+ */
+export function addIgnoreFile(ignoreRules: IgnoreRules, path: string, content: string): void {
+  const parts = path.split('/');
+  const source = parts.pop() || '';
+  const base = parts.join('/');
+
+  const rules = content
+    .split(/\r?\n/)
+    .map(line => parseRule(line, base, source, parts.length))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+
+  if (source === PRODUCTWIKIIGNORE) {
+    ignoreRules.productwikiignore = [...ignoreRules.productwikiignore, ...rules];
+  } else {
+    // Deeper files override shallower ones; the stable sort keeps line order within a file
+    ignoreRules.gitignore = [...ignoreRules.gitignore, ...rules].sort((a, b) => a.depth - b.depth);
+  }
+}
+
+/**
+ * Find the last rule matching a path (null if none match)
+ */
+function findMatchingRule(rules: IgnoreRule[], path: string, isDirectory: boolean): IgnoreRule | null {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !path.startsWith(rule.base + '/')) continue;
+
+    const relativePath = rule.base ? path.slice(rule.base.length + 1) : path;
+    if (rule.regex.test(relativePath)) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Evaluate one list of rules against a path and its parent directories
+ * As in git, a path is ignored when it or a parent directory is ignored
+ */
+function evaluateRules(rules: IgnoreRule[], path: string, isDirectory: boolean): IgnoreState {
+  const state: IgnoreState = { ignored: false, included: false };
+  if (rules.length === 0) return state;
+
+  const parts = path.split('/');
+  for (let i = 1; i <= parts.length; i++) {
+    const isLast = i === parts.length;
+    const rule = findMatchingRule(rules, parts.slice(0, i).join('/'), isLast ? isDirectory : true);
+    if (!rule) continue;
+
+    if (!rule.negated) {
+      return { ignored: true, included: false, source: rule.source };
+    }
+    state.included = true;
+  }
+
+  return state;
+}
+
+/**
+ * Evaluate the rules for a path
+ * included is set when a negated .productwikiignore rule matched the path or a parent directory;
+ * such paths are indexed even if .gitignore or the default exclusions would skip them
+ */
+export function getIgnoreState(ignoreRules: IgnoreRules, path: string, isDirectory = false): IgnoreState {
+  const override = evaluateRules(ignoreRules.productwikiignore, path, isDirectory);
+  if (override.ignored || override.included) {
+    return override;
+  }
+
+  const state = evaluateRules(ignoreRules.gitignore, path, isDirectory);
+  return { ...state, included: false };
+}
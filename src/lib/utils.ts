@@ -1,6 +1,23 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { LineRange } from "./api"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Format line ranges for display, e.g. "L1-40, L88-120"
+ */
+export function formatLineRanges(ranges: LineRange[] = []): string {
+  return ranges
+    .map(r => (r.startLine === r.endLine ? `L${r.startLine}` : `L${r.startLine}-${r.endLine}`))
+    .join(", ")
+}
+
+/**
+ * Append the snapshot to an in-app path so links stay on the same indexed ref
+ */
+export function withSnapshot(path: string, snapshot?: string): string {
+  return snapshot ? `${path}?snapshot=${encodeURIComponent(snapshot)}` : path
+}
@@ -0,0 +1,57 @@
+/**
+ * Sidebar tree of a wiki structure (sections with nested pages and subsections)
+ */
+
+import type { WikiPage, WikiSection, WikiStructure } from './api';
+
+export interface WikiTreeSection {
+  section: WikiSection;
+  pages: WikiPage[];
+  sections: WikiTreeSection[];
+}
+
+export interface WikiTree {
+  pages: WikiPage[]; // Pages outside any section
+  sections: WikiTreeSection[];
+}
+
+/**
+ * Build the section tree of a wiki, keeping the order of its pages and sections
+ * Pages and sections whose parent is unknown are shown at the top level
+ */
+export function buildWikiTree(structure: WikiStructure): WikiTree {
+  const tree: WikiTree = { pages: [], sections: [] };
+  const nodes = new Map<string, WikiTreeSection>();
+
+  for (const section of structure.sections || []) {
+    nodes.set(section.id, { section, pages: [], sections: [] });
+  }
+
+  for (const node of nodes.values()) {
+    const parent = node.section.parentId ? nodes.get(node.section.parentId) : undefined;
+    (parent ? parent.sections : tree.sections).push(node);
+  }
+
+  for (const page of structure.pages) {
+    const parent = page.parentId ? nodes.get(page.parentId) : undefined;
+    (parent ? parent.pages : tree.pages).push(page);
+  }
+
+  return tree;
+}
+
+/**
+ * Ids of the sections containing a page, outermost first
+ */
+export function getSectionPath(structure: WikiStructure, pageId: string): string[] {
+  const sections = new Map((structure.sections || []).map(section => [section.id, section]));
+  const path: string[] = [];
+  let parentId = structure.pages.find(page => page.id === pageId)?.parentId;
+
+  while (parentId && sections.has(parentId) && !path.includes(parentId)) {
+    path.unshift(parentId);
+    parentId = sections.get(parentId)?.parentId;
+  }
+
+  return path;
+}
@@ -0,0 +1,352 @@
+import { useState, useEffect, useRef } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { MarkdownRenderer } from '@/components/MarkdownRenderer'
+import { AppHeader } from '@/components/AppHeader'
+import { useSnapshotParam } from '@/hooks/useSnapshotParam'
+import { withSnapshot } from '@/lib/utils'
+import {
+  getProject,
+  chatStream,
+  type ProjectMetadata,
+  type ChatMessage,
+  type ChatSource,
+  type ContextUsage,
+} from '@/lib/api'
+import { Loader2, ArrowUp, ArrowLeft, AlertTriangle, Trash2, Square } from 'lucide-react'
+
+interface ChatEntry extends ChatMessage {
+  sources?: ChatSource[]
+  usage?: ContextUsage
+  error?: string
+}
+
+/**
+ * Build a link to a source file for GitHub-hosted projects
+ */
+function getSourceUrl(project: ProjectMetadata | null, source: ChatSource): string | null {
+  if (!project?.url || !project.url.includes('github.com')) {
+    return null
+  }
+  // Link to the indexed commit so line numbers match what was retrieved
+  const ref = project.commitSha || project.ref || project.branch || 'main'
+  const lines = source.startLine ? `#L${source.startLine}-L${source.endLine}` : ''
+  return `https://github.com/${project.owner}/${project.repo}/blob/${ref}/${source.path}${lines}`
+}
+
+export default function ChatPage() {
+  const { owner, repo } = useParams<{ owner: string; repo: string }>()
+  const requestedSnapshot = useSnapshotParam()
+  const [project, setProject] = useState<ProjectMetadata | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [entries, setEntries] = useState<ChatEntry[]>([])
+  const [input, setInput] = useState('')
+  const [sending, setSending] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  // Conversations are kept per snapshot since answers depend on the indexed ref
+  const snapshot = project?.snapshot || ''
+  const cacheKey = `chat_${owner}_${repo}@${snapshot}`
+
+  useEffect(() => {
+    async function loadProject() {
+      if (!owner || !repo) return
+
+      try {
+        const data = await getProject(owner, repo, requestedSnapshot)
+
+        // Restore previous conversation
+        const cached = localStorage.getItem(`chat_${owner}_${repo}@${data.snapshot}`)
+        if (cached) {
+          try {
+            setEntries(JSON.parse(cached))
+          } catch {
+            // Ignore parse errors
+          }
+        }
+
+        setProject(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load project')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadProject()
+  }, [owner, repo, requestedSnapshot])
+
+  // Persist conversation once an answer has finished streaming
+  useEffect(() => {
+    if (snapshot && !sending && entries.length > 0) {
+      localStorage.setItem(cacheKey, JSON.stringify(entries))
+    }
+  }, [entries, sending, snapshot, cacheKey])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' })
+  }, [entries])
+
+  // Abort any in-flight answer when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const updateLastEntry = (update: Partial<ChatEntry>) => {
+    setEntries(prev => {
+      const next = [...prev]
+      next[next.length - 1] = { ...next[next.length - 1], ...update }
+      return next
+    })
+  }
+
+  const handleSend = async () => {
+    const question = input.trim()
+    if (!owner || !repo || !question || sending) return
+
+    // Only send role/content to the server, not sources or errors
+    const conversation: ChatMessage[] = [
+      ...entries
+        .filter(e => !e.error)
+        .map(({ role, content }) => ({ role, content })),
+      { role: 'user', content: question },
+    ]
+
+    setInput('')
+    setSending(true)
+    setEntries(prev => [
+      ...prev,
+      { role: 'user', content: question },
+      { role: 'assistant', content: '' },
+    ])
+
+    abortControllerRef.current = new AbortController()
+
+    try {
+      let answer = ''
+      for await (const event of chatStream(owner, repo, conversation, snapshot, abortControllerRef.current.signal)) {
+        switch (event.type) {
+          case 'content':
+            answer += event.chunk
+            updateLastEntry({ content: answer })
+            break
+          case 'status':
+            updateLastEntry({ usage: event.usage })
+            break
+          case 'sources':
+            updateLastEntry({ sources: event.sources })
+            break
+          case 'error':
+            updateLastEntry({ error: event.message })
+            break
+        }
+      }
+    } catch (err) {
+      if (!(err instanceof Error && err.name === 'AbortError')) {
+        updateLastEntry({ error: err instanceof Error ? err.message : 'Failed to get an answer' })
+      }
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const handleClear = () => {
+    setEntries([])
+    localStorage.removeItem(cacheKey)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSend()
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  if (error && !project) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4 relative">
+        <p className="text-destructive">{error}</p>
+        <Link to={`/repo/${owner}/${repo}`}>
+          <Button variant="outline">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Repository
+          </Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <AppHeader
+        title={`${owner}/${repo}`}
+        titleHref={withSnapshot(`/repo/${owner}/${repo}`, snapshot)}
+        snapshots={project?.snapshots}
+        snapshot={snapshot}
+        subtitle="Ask the Codebase"
+        actions={
+          entries.length > 0 && !sending && (
+            <Button onClick={handleClear} variant="outline" size="icon" title="Clear conversation">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )
+        }
+      />
+
+      {/* Embedding compatibility warning */}
+      {project?.embeddingCompatibility && !project.embeddingCompatibility.compatible && (
+        <Card className="mx-4 mt-4 border-yellow-500 bg-yellow-500/10">
+          <CardContent className="py-3">
+            <div className="flex items-center gap-3">
+              <AlertTriangle className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                  Embedding model mismatch: {project.embeddingCompatibility.reason}
+                </p>
+              </div>
+              <Link to={withSnapshot(`/repo/${owner}/${repo}`, snapshot)}>
+                <Button variant="outline" size="sm">Re-index</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Conversation */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-4xl mx-auto p-6 space-y-6">
+          {entries.length === 0 && (
+            <div className="text-center py-12 text-muted-foreground">
+              Ask anything about {owner}/{repo} - how it is structured, where something is implemented, or how a feature works.
+            </div>
+          )}
+
+          {entries.map((entry, idx) => (
+            entry.role === 'user' ? (
+              <div key={idx} className="flex justify-end">
+                <div className="max-w-[80%] rounded-2xl bg-muted px-4 py-2 text-sm whitespace-pre-wrap">
+                  {entry.content}
+                </div>
+              </div>
+            ) : (
+              <div key={idx} className="space-y-3">
+                {!entry.content && !entry.error && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Searching the codebase...
+                  </div>
+                )}
+
+                {entry.content && (
+                  <MarkdownRenderer content={entry.content} className="prose-sm" />
+                )}
+
+                {entry.error && (
+                  <div className="p-3 bg-destructive/10 rounded text-destructive text-sm">
+                    {entry.error}
+                  </div>
+                )}
+
+                {/* Cited sources */}
+                {entry.sources && entry.sources.length > 0 && (
+                  <details className="border-t pt-3">
+                    <summary className="text-sm text-muted-foreground cursor-pointer hover:text-foreground">
+                      Sources ({entry.sources.length})
+                      {entry.usage && ` · ${entry.usage.contextTokens.toLocaleString()} context tokens`}
+                      {entry.usage && entry.usage.outlinedFiles + entry.usage.droppedFiles > 0 &&
+                        ` (${entry.usage.outlinedFiles} files outlined, ${entry.usage.droppedFiles} left out to fit)`}
+                    </summary>
+                    <div className="mt-2 space-y-1">
+                      {entry.sources.map((source, sourceIdx) => {
+                        const sourceUrl = getSourceUrl(project, source)
+                        const label = source.startLine
+                          ? `${source.path}:${source.startLine}-${source.endLine}`
+                          : source.path
+                        return (
+                          <div
+                            key={sourceIdx}
+                            className="flex items-center justify-between text-xs text-muted-foreground bg-muted/30 rounded px-3 py-2"
+                          >
+                            {sourceUrl ? (
+                              <a
+                                href={sourceUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="truncate hover:text-foreground hover:underline"
+                              >
+                                <code>{label}</code>
+                              </a>
+                            ) : (
+                              <code className="truncate">{label}</code>
+                            )}
+                            <span className="text-green-600 ml-2">
+                              {Math.round(source.relevance * 100)}%
+                            </span>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </details>
+                )}
+              </div>
+            )
+          ))}
+
+          <div ref={bottomRef} />
+        </div>
+      </div>
+
+      {/* Input */}
+      <div className="border-t bg-background sticky bottom-0">
+        <div className="max-w-4xl mx-auto p-4">
+          <div className="relative">
+            <Textarea
+              placeholder="Ask a question about the codebase..."
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              rows={2}
+              className="pr-14 resize-none rounded-2xl bg-muted/50 border-0 focus-visible:ring-1"
+            />
+            {sending ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                title="Stop"
+                className="absolute right-2 bottom-2 h-10 w-10 rounded-full bg-foreground text-background flex items-center justify-center hover:opacity-80 transition-opacity"
+              >
+                <Square className="h-4 w-4" />
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handleSend}
+                disabled={!input.trim()}
+                title="Send"
+                className="absolute right-2 bottom-2 h-10 w-10 rounded-full bg-foreground text-background flex items-center justify-center hover:opacity-80 transition-opacity disabled:opacity-40"
+              >
+                <ArrowUp className="h-5 w-5" />
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,12 +4,16 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { DocumentationViewer } from '@/components/DocumentationViewer'
 import { AppHeader } from '@/components/AppHeader'
-import { getProject, generateDocs, JobIds, type ProjectMetadata } from '@/lib/api'
+import { WikiExportMenu } from '@/components/WikiExportMenu'
+import { getProject, getStoredWiki, generateDocs, JobIds, type ProjectMetadata } from '@/lib/api'
 import { useSimpleJobReconnection } from '@/hooks/useJobReconnection'
+import { useSnapshotParam } from '@/hooks/useSnapshotParam'
+import { withSnapshot } from '@/lib/utils'
 import { Loader2, Copy, Check, AlertTriangle, RotateCw, ArrowLeft } from 'lucide-react'
 
 export default function DocumentationPage() {
   const { owner, repo } = useParams<{ owner: string; repo: string }>()
+  const requestedSnapshot = useSnapshotParam()
   const [project, setProject] = useState<ProjectMetadata | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -28,13 +32,15 @@ export default function DocumentationPage() {
       if (!owner || !repo) return
 
       try {
-        // Check localStorage for cached docs
-        const cachedDocs = localStorage.getItem(`docs_${owner}_${repo}`)
+        const data = await getProject(owner, repo, requestedSnapshot)
+
+        // Docs generated by anyone using this server come first, then this browser's cache
+        const stored = await getStoredWiki(owner, repo, 'docs', data.snapshot).catch(() => null)
+        const cachedDocs = stored?.content || localStorage.getItem(`docs_${owner}_${repo}@${data.snapshot}`)
         if (cachedDocs) {
           setDocs(cachedDocs)
         }
 
-        const data = await getProject(owner, repo)
         setProject(data)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load project')
@@ -44,15 +50,18 @@ export default function DocumentationPage() {
     }
 
     loadProject()
-  }, [owner, repo])
+  }, [owner, repo, requestedSnapshot])
+
+  const snapshot = project?.snapshot || ''
+  const cacheKey = `docs_${owner}_${repo}@${snapshot}`
 
   // Check for running job and reconnect if needed
   const { reconnecting } = useSimpleJobReconnection({
-    jobId: owner && repo ? JobIds.docs(owner, repo) : '',
-    generator: () => generateDocs(owner!, repo!),
+    jobId: owner && repo && snapshot ? JobIds.docs(owner, repo, snapshot) : '',
+    generator: () => generateDocs(owner!, repo!, snapshot),
     onContent: setDocs,
-    cacheKey: `docs_${owner}_${repo}`,
-    enabled: !loading && !!owner && !!repo,
+    cacheKey,
+    enabled: !loading && !!owner && !!repo && !!snapshot,
   })
 
   const handleGenerate = async () => {
@@ -65,12 +74,12 @@ export default function DocumentationPage() {
     try {
       let fullContent = ''
 
-      for await (const chunk of generateDocs(owner, repo)) {
+      for await (const chunk of generateDocs(owner, repo, snapshot)) {
         fullContent += chunk
         setDocs(fullContent)
       }
 
-      localStorage.setItem(`docs_${owner}_${repo}`, fullContent)
+      localStorage.setItem(cacheKey, fullContent)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate documentation')
     } finally {
@@ -111,7 +120,9 @@ export default function DocumentationPage() {
     <div className="min-h-screen bg-background relative">
       <AppHeader
         title={`${owner}/${repo}`}
-        titleHref={`/repo/${owner}/${repo}`}
+        titleHref={withSnapshot(`/repo/${owner}/${repo}`, snapshot)}
+        snapshots={project?.snapshots}
+        snapshot={snapshot}
         subtitle="Quick Documentation"
         actions={
           <>
@@ -120,6 +131,9 @@ export default function DocumentationPage() {
                 <RotateCw className="h-4 w-4" />
               </Button>
             )}
+            {docs && !generating && (
+              <WikiExportMenu owner={owner!} repo={repo!} type="docs" snapshot={snapshot} />
+            )}
             {docs && (
               <Button onClick={handleCopy} variant="outline" size="sm">
                 {copied ? (
@@ -154,7 +168,7 @@ export default function DocumentationPage() {
                   <p className="text-sm text-muted-foreground mt-1">
                     {project.embeddingCompatibility.reason} Generation may produce poor results.
                   </p>
-                  <Link to={`/repo/${owner}/${repo}`} className="inline-block mt-2">
+                  <Link to={withSnapshot(`/repo/${owner}/${repo}`, snapshot)} className="inline-block mt-2">
                     <Button variant="outline" size="sm">
                       Re-index Repository
                     </Button>
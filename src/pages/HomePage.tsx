@@ -110,6 +110,7 @@ export default function HomePage() {
                           </div>
                           <p className="text-sm text-muted-foreground mt-1">
                             {project.chunkCount.toLocaleString()} chunks • Indexed {formatTimeAgo(project.indexedAt)}
+                            {project.snapshots && project.snapshots.length > 1 && ` • ${project.snapshots.length} refs`}
                           </p>
                         </div>
                       </div>
@@ -6,10 +6,13 @@ import { DocumentationViewer } from '@/components/DocumentationViewer'
 import { AppHeader } from '@/components/AppHeader'
 import { getProject, generateReimplementPrompt, JobIds, type ProjectMetadata } from '@/lib/api'
 import { useSimpleJobReconnection } from '@/hooks/useJobReconnection'
+import { useSnapshotParam } from '@/hooks/useSnapshotParam'
+import { withSnapshot } from '@/lib/utils'
 import { Loader2, Copy, Check, RotateCw, ArrowLeft } from 'lucide-react'
 
 export default function ReimplementPromptPage() {
   const { owner, repo } = useParams<{ owner: string; repo: string }>()
+  const requestedSnapshot = useSnapshotParam()
   const [project, setProject] = useState<ProjectMetadata | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -28,13 +31,14 @@ export default function ReimplementPromptPage() {
       if (!owner || !repo) return
 
       try {
-        // Check localStorage for cached prompt
-        const cachedPrompt = localStorage.getItem(`reimplement_prompt_${owner}_${repo}`)
+        const data = await getProject(owner, repo, requestedSnapshot)
+
+        // Check localStorage for cached prompt of this snapshot
+        const cachedPrompt = localStorage.getItem(`reimplement_prompt_${owner}_${repo}@${data.snapshot}`)
         if (cachedPrompt) {
           setPrompt(cachedPrompt)
         }
 
-        const data = await getProject(owner, repo)
         setProject(data)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load project')
@@ -44,15 +48,18 @@ export default function ReimplementPromptPage() {
     }
 
     loadProject()
-  }, [owner, repo])
+  }, [owner, repo, requestedSnapshot])
+
+  const snapshot = project?.snapshot || ''
+  const cacheKey = `reimplement_prompt_${owner}_${repo}@${snapshot}`
 
   // Check for running job and reconnect if needed
   const { reconnecting } = useSimpleJobReconnection({
-    jobId: owner && repo ? JobIds.reimplementPrompt(owner, repo) : '',
-    generator: () => generateReimplementPrompt(owner!, repo!),
+    jobId: owner && repo && snapshot ? JobIds.reimplementPrompt(owner, repo, snapshot) : '',
+    generator: () => generateReimplementPrompt(owner!, repo!, snapshot),
     onContent: setPrompt,
-    cacheKey: `reimplement_prompt_${owner}_${repo}`,
-    enabled: !loading && !!owner && !!repo,
+    cacheKey,
+    enabled: !loading && !!owner && !!repo && !!snapshot,
   })
 
   const handleGenerate = async () => {
@@ -65,12 +72,12 @@ export default function ReimplementPromptPage() {
     try {
       let fullContent = ''
 
-      for await (const chunk of generateReimplementPrompt(owner, repo)) {
+      for await (const chunk of generateReimplementPrompt(owner, repo, snapshot)) {
         fullContent += chunk
         setPrompt(fullContent)
       }
 
-      localStorage.setItem(`reimplement_prompt_${owner}_${repo}`, fullContent)
+      localStorage.setItem(cacheKey, fullContent)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate prompt')
     } finally {
@@ -111,7 +118,9 @@ export default function ReimplementPromptPage() {
     <div className="min-h-screen bg-background relative">
       <AppHeader
         title={`${owner}/${repo}`}
-        titleHref={`/repo/${owner}/${repo}`}
+        titleHref={withSnapshot(`/repo/${owner}/${repo}`, snapshot)}
+        snapshots={project?.snapshots}
+        snapshot={snapshot}
         subtitle="Reimplement"
         actions={
           <>
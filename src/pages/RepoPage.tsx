@@ -4,16 +4,18 @@ import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { AppHeader } from '@/components/AppHeader'
 import { IndexingDialog } from '@/components/IndexingDialog'
-import { getProject, isPlusUser, type ProjectMetadata } from '@/lib/api'
-import { Loader2, ExternalLink, ArrowLeft, BookOpen, Package, RefreshCw, RotateCw, Check, FileText, Users, type LucideIcon } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { IndexingSettingsForm } from '@/components/IndexingSettingsForm'
+import { getProject, getIndexingDefaults, isPlusUser, type ProjectMetadata, type IndexingSettings } from '@/lib/api'
+import { useSnapshotParam } from '@/hooks/useSnapshotParam'
+import { Loader2, ExternalLink, ArrowLeft, BookOpen, Package, RefreshCw, RotateCw, Check, FileText, Users, MessageSquare, GitBranch, type LucideIcon } from 'lucide-react'
+import { cn, withSnapshot } from '@/lib/utils'
 
 interface Tool {
   id: string
   name: string
   icon: LucideIcon
   description: string
-  cacheKey: (owner: string, repo: string) => string
+  cacheKey: (owner: string, repo: string, snapshot: string) => string
   route: (owner: string, repo: string) => string
   plusOnly?: boolean
 }
@@ -24,7 +26,7 @@ const tools: Tool[] = [
     name: 'Product Documentation',
     icon: Users,
     description: 'End-user focused documentation with features and workflows',
-    cacheKey: (o, r) => `product_docs_${o}_${r}`,
+    cacheKey: (o, r, s) => `product_docs_${o}_${r}@${s}`,
     route: (o, r) => `/repo/${o}/${r}/product-docs`
   },
   {
@@ -32,15 +34,23 @@ const tools: Tool[] = [
     name: 'Technical Documentation',
     icon: FileText,
     description: 'Generate comprehensive multi-page documentation',
-    cacheKey: (o, r) => `wiki_detailed_${o}_${r}`,
+    cacheKey: (o, r, s) => `wiki_detailed_${o}_${r}@${s}`,
     route: (o, r) => `/repo/${o}/${r}/wiki/detailed`
   },
+  {
+    id: 'chat',
+    name: 'Ask the Codebase',
+    icon: MessageSquare,
+    description: 'Ask questions about the code in natural language',
+    cacheKey: (o, r, s) => `chat_${o}_${r}@${s}`,
+    route: (o, r) => `/repo/${o}/${r}/chat`
+  },
   {
     id: 'docs',
     name: 'Quick Documentation',
     icon: BookOpen,
     description: 'Single-page technical documentation',
-    cacheKey: (o, r) => `docs_${o}_${r}`,
+    cacheKey: (o, r, s) => `docs_${o}_${r}@${s}`,
     route: (o, r) => `/repo/${o}/${r}/documentation`,
     plusOnly: true
   },
@@ -49,7 +59,7 @@ const tools: Tool[] = [
     name: 'Package Prompt',
     icon: Package,
     description: 'Migrate this SaaS to Electron',
-    cacheKey: (o, r) => `package_prompt_${o}_${r}`,
+    cacheKey: (o, r, s) => `package_prompt_${o}_${r}@${s}`,
     route: (o, r) => `/repo/${o}/${r}/package-prompt`,
     plusOnly: true
   },
@@ -58,7 +68,7 @@ const tools: Tool[] = [
     name: 'Reimplement',
     icon: RefreshCw,
     description: 'Rebuild with React/Vite/shadcn',
-    cacheKey: (o, r) => `reimplement_prompt_${o}_${r}`,
+    cacheKey: (o, r, s) => `reimplement_prompt_${o}_${r}@${s}`,
     route: (o, r) => `/repo/${o}/${r}/reimplement-prompt`,
     plusOnly: true
   },
@@ -77,18 +87,23 @@ function timeAgo(date: Date): string {
 
 export default function RepoPage() {
   const { owner, repo } = useParams<{ owner: string; repo: string }>()
+  const requestedSnapshot = useSnapshotParam()
   const navigate = useNavigate()
   const [project, setProject] = useState<ProjectMetadata | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [showReindexDialog, setShowReindexDialog] = useState(false)
+  const [indexingDefaults, setIndexingDefaults] = useState<IndexingSettings | null>(null)
+  const [reindexSettings, setReindexSettings] = useState<IndexingSettings | null>(null)
   const [generatedTools, setGeneratedTools] = useState<Set<string>>(new Set())
 
-  const checkGeneratedTools = () => {
+  const snapshot = project?.snapshot || ''
+
+  const checkGeneratedTools = (snapshotId: string) => {
     if (!owner || !repo) return
     const generated = new Set<string>()
     for (const tool of tools) {
-      const cached = localStorage.getItem(tool.cacheKey(owner, repo))
+      const cached = localStorage.getItem(tool.cacheKey(owner, repo, snapshotId))
       if (cached) {
         generated.add(tool.id)
       }
@@ -99,6 +114,7 @@ export default function RepoPage() {
   const handleReindexComplete = (result: ProjectMetadata) => {
     setShowReindexDialog(false)
     setProject(result)
+    setReindexSettings(result.indexing || indexingDefaults)
   }
 
   const handleReindexCancel = () => {
@@ -115,8 +131,15 @@ export default function RepoPage() {
       if (!owner || !repo) return
 
       try {
-        const data = await getProject(owner, repo)
+        const data = await getProject(owner, repo, requestedSnapshot)
         setProject(data)
+        checkGeneratedTools(data.snapshot || '')
+
+        // Re-indexing starts from the settings this snapshot was indexed with
+        // (projects indexed before settings were stored used the defaults)
+        const defaults = await getIndexingDefaults().catch(() => null)
+        setIndexingDefaults(defaults)
+        setReindexSettings(data.indexing || defaults)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load project')
       } finally {
@@ -125,8 +148,7 @@ export default function RepoPage() {
     }
 
     loadProject()
-    checkGeneratedTools()
-  }, [owner, repo])
+  }, [owner, repo, requestedSnapshot])
 
   if (loading) {
     return (
@@ -152,7 +174,7 @@ export default function RepoPage() {
 
   return (
     <div className="min-h-screen bg-background relative">
-      <AppHeader title={`${owner}/${repo}`} />
+      <AppHeader title={`${owner}/${repo}`} snapshots={project?.snapshots} snapshot={snapshot} />
 
       <div className="max-w-4xl mx-auto p-6 space-y-8">
         {/* Repository Details Card */}
@@ -163,11 +185,11 @@ export default function RepoPage() {
               <div className="flex items-start justify-between mb-4">
                 <h3 className="text-lg font-semibold">{owner}/{repo}</h3>
                 <div className="flex gap-2">
-                  {project.url && (
+                  {project.url && /^https?:\/\//.test(project.url) && (
                     <a href={project.url} target="_blank" rel="noopener noreferrer">
                       <Button variant="outline" size="sm">
                         <ExternalLink className="mr-2 h-4 w-4" />
-                        View on GitHub
+                        View Source
                       </Button>
                     </a>
                   )}
@@ -185,8 +207,48 @@ export default function RepoPage() {
                 </div>
               </div>
               <div className="text-sm text-muted-foreground space-y-1">
+                {(project.ref || project.branch) && (
+                  <p className="flex items-center gap-1.5">
+                    <GitBranch className="h-3.5 w-3.5" />
+                    <code>{project.ref || project.branch}</code>
+                    {project.commitSha && (
+                      <span>@ <code>{project.commitSha.slice(0, 7)}</code></span>
+                    )}
+                  </p>
+                )}
                 <p>{project.fileCount} files · {project.chunkCount} chunks · {project.embedding?.provider || 'unknown'} embeddings</p>
                 <p>Last indexed {timeAgo(new Date(project.indexedAt))}</p>
+                {project.skippedFiles && project.skippedFiles.length > 0 && (
+                  <details className="pt-1">
+                    <summary className="cursor-pointer hover:text-foreground">
+                      {project.skippedFiles.length} files skipped
+                    </summary>
+                    <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 text-xs">
+                      {project.skippedFiles.map(file => (
+                        <li key={file.path} className="flex justify-between gap-4">
+                          <code className="truncate">{file.path}</code>
+                          <span className="flex-shrink-0">{file.reason}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {reindexSettings && project.url && !project.url.startsWith('local://') && (
+                  <details className="pt-1">
+                    <summary className="cursor-pointer hover:text-foreground">
+                      Indexing settings
+                    </summary>
+                    <div className="mt-3">
+                      <IndexingSettingsForm
+                        value={reindexSettings}
+                        defaults={indexingDefaults || undefined}
+                        onChange={setReindexSettings}
+                        disabled={showReindexDialog}
+                      />
+                      <p className="text-xs mt-3">Changes apply the next time you re-index.</p>
+                    </div>
+                  </details>
+                )}
               </div>
             </Card>
           </div>
@@ -206,7 +268,7 @@ export default function RepoPage() {
                     "p-6 cursor-pointer hover:bg-muted/50 transition-colors",
                     !isGenerated && "opacity-60"
                   )}
-                  onClick={() => navigate(tool.route(owner!, repo!))}
+                  onClick={() => navigate(withSnapshot(tool.route(owner!, repo!), snapshot))}
                 >
                   <div className="flex items-center gap-3 mb-2">
                     <Icon className="h-5 w-5" />
@@ -233,12 +295,14 @@ export default function RepoPage() {
         )}
       </div>
 
-      {/* Re-index Dialog - only for GitHub projects */}
+      {/* Re-index Dialog - only for git repositories */}
       {project?.url && !project.url.startsWith('local://') && (
         <IndexingDialog
           open={showReindexDialog}
           mode="github"
           url={project.url}
+          gitRef={project.ref}
+          indexing={reindexSettings || undefined}
           onComplete={handleReindexComplete}
           onCancel={handleReindexCancel}
           onError={handleReindexError}
@@ -4,8 +4,14 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { MarkdownRenderer } from '@/components/MarkdownRenderer'
 import { AppHeader } from '@/components/AppHeader'
+import { WikiVersionsDialog } from '@/components/WikiVersionsDialog'
+import { WikiStructureEditor } from '@/components/WikiStructureEditor'
+import { WikiExportMenu } from '@/components/WikiExportMenu'
 import {
   getProject,
+  getStoredWiki,
+  regenerateWikiPage,
+  generateWikiStructure,
   generateBriefWiki,
   generateDetailedWiki,
   JobIds,
@@ -15,6 +21,7 @@ import {
   type WikiEvent,
 } from '@/lib/api'
 import { useWikiJobReconnection } from '@/hooks/useJobReconnection'
+import { useSnapshotParam } from '@/hooks/useSnapshotParam'
 import { useNotifications } from '@/contexts/NotificationContext'
 import {
   Loader2,
@@ -24,8 +31,13 @@ import {
   RotateCw,
   FileText,
   ArrowLeft,
+  History,
+  ListTree,
+  ChevronDown,
+  ChevronRight,
 } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { cn, formatLineRanges, withSnapshot } from '@/lib/utils'
+import { buildWikiTree, getSectionPath, type WikiTreeSection } from '@/lib/wikiTree'
 
 interface PageState {
   status: 'pending' | 'generating' | 'complete' | 'error'
@@ -42,23 +54,32 @@ const TOAST_ID = 'wiki-status'
 
 export default function WikiPage() {
   const { owner, repo, type } = useParams<{ owner: string; repo: string; type: string }>()
+  const requestedSnapshot = useSnapshotParam()
   const [project, setProject] = useState<ProjectMetadata | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [generating, setGenerating] = useState(false)
   const [copied, setCopied] = useState(false)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [regenerating, setRegenerating] = useState(false)
+  const [planning, setPlanning] = useState(false)
+  // Structure being edited before its pages are generated
+  const [draftStructure, setDraftStructure] = useState<WikiStructure | null>(null)
   const { setLoadingToast, updateLoadingToast, dismissToast } = useNotifications()
 
   // Wiki state
   const [structure, setStructure] = useState<WikiStructure | null>(null)
   const [wikiState, setWikiState] = useState<WikiState>({})
   const [activePage, setActivePage] = useState<string>('')
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set())
   const [cacheChecked, setCacheChecked] = useState(false)
 
   const contentRef = useRef<HTMLDivElement>(null)
 
   const wikiType = type === 'brief' ? 'brief' : 'detailed'
-  const cacheKey = `wiki_${wikiType}_${owner}_${repo}`
+  // Docs are cached per snapshot so different refs can be compared side by side
+  const snapshot = project?.snapshot || ''
+  const cacheKey = `wiki_${wikiType}_${owner}_${repo}@${snapshot}`
 
   const handleCopy = async () => {
     // Build markdown from all pages
@@ -80,7 +101,8 @@ export default function WikiPage() {
   }
 
   // Process wiki events to update state
-  const processEvent = (event: WikiEvent, currentPageIdRef: { value: string }, currentContentRef: { value: string }) => {
+  // Pages generate concurrently, so page events name their page
+  const processEvent = (event: WikiEvent) => {
     switch (event.type) {
       case 'status':
         updateLoadingToast(TOAST_ID, event.message)
@@ -103,8 +125,6 @@ export default function WikiPage() {
         break
 
       case 'page_start':
-        currentPageIdRef.value = event.pageId
-        currentContentRef.value = ''
         setWikiState(prev => ({
           ...prev,
           [event.pageId]: {
@@ -113,27 +133,26 @@ export default function WikiPage() {
             sources: [],
           },
         }))
-        setActivePage(event.pageId)
         updateLoadingToast(TOAST_ID, `Generating: ${event.title}...`)
         break
 
       case 'content':
-        currentContentRef.value += event.chunk
         setWikiState(prev => ({
           ...prev,
-          [currentPageIdRef.value]: {
-            ...prev[currentPageIdRef.value],
-            content: currentContentRef.value,
+          [event.pageId]: {
+            ...prev[event.pageId],
+            content: (prev[event.pageId]?.content || '') + event.chunk,
           },
         }))
         break
 
       case 'page_complete':
+        // page_complete also follows page_error, which must stay visible (and retryable)
         setWikiState(prev => ({
           ...prev,
           [event.pageId]: {
             ...prev[event.pageId],
-            status: 'complete',
+            status: prev[event.pageId]?.status === 'error' ? 'error' : 'complete',
             sources: event.sources,
           },
         }))
@@ -160,36 +179,63 @@ export default function WikiPage() {
     }
   }
 
-  // Load cached wiki on mount and check for running job
+  // Load the stored wiki on mount
   useEffect(() => {
-    const cached = localStorage.getItem(cacheKey)
-    if (cached) {
+    if (!snapshot || !owner || !repo) return
+    let cancelled = false
+
+    const showWiki = (wikiStructure: WikiStructure, state: WikiState) => {
+      setStructure(wikiStructure)
+      setWikiState(state)
+      if (wikiStructure.pages.length > 0) {
+        setActivePage(wikiStructure.pages[0].id)
+      }
+    }
+
+    async function loadWiki() {
+      // Docs generated by anyone using this server come first, then this browser's cache
       try {
-        const parsed = JSON.parse(cached)
-        if (parsed.structure && parsed.wikiState) {
-          setStructure(parsed.structure)
-          setWikiState(parsed.wikiState)
-          if (parsed.structure.pages.length > 0) {
-            setActivePage(parsed.structure.pages[0].id)
-          }
+        const stored = await getStoredWiki(owner!, repo!, wikiType, snapshot)
+        if (stored?.structure && stored.pages) {
+          if (!cancelled) showWiki(stored.structure, stored.pages)
+          return
         }
       } catch {
-        // Ignore parse errors
+        // Fall back to the local cache
+      }
+
+      const cached = localStorage.getItem(cacheKey)
+      if (cached && !cancelled) {
+        try {
+          const parsed = JSON.parse(cached)
+          if (parsed.structure && parsed.wikiState) {
+            showWiki(parsed.structure, parsed.wikiState)
+          }
+        } catch {
+          // Ignore parse errors
+        }
       }
     }
-    setCacheChecked(true)
-  }, [cacheKey])
+
+    loadWiki().finally(() => {
+      if (!cancelled) setCacheChecked(true)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [cacheKey, snapshot])
 
   // Check for running job and reconnect if needed
   const { reconnecting } = useWikiJobReconnection({
-    jobId: owner && repo
-      ? (wikiType === 'brief' ? JobIds.briefWiki(owner, repo) : JobIds.detailedWiki(owner, repo))
+    jobId: owner && repo && snapshot
+      ? (wikiType === 'brief' ? JobIds.briefWiki(owner, repo, snapshot) : JobIds.detailedWiki(owner, repo, snapshot))
       : '',
     generator: () => wikiType === 'brief'
-      ? generateBriefWiki(owner!, repo!)
-      : generateDetailedWiki(owner!, repo!),
+      ? generateBriefWiki(owner!, repo!, snapshot)
+      : generateDetailedWiki(owner!, repo!, snapshot),
     processEvent,
-    enabled: cacheChecked && !!owner && !!repo,
+    enabled: cacheChecked && !!owner && !!repo && !!snapshot,
     toastId: TOAST_ID,
     setLoadingToast,
     dismissToast,
@@ -200,7 +246,7 @@ export default function WikiPage() {
       if (!owner || !repo) return
 
       try {
-        const data = await getProject(owner, repo)
+        const data = await getProject(owner, repo, requestedSnapshot)
         setProject(data)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load project')
@@ -210,11 +256,13 @@ export default function WikiPage() {
     }
 
     loadProject()
-  }, [owner, repo])
+  }, [owner, repo, requestedSnapshot])
 
-  const handleGenerate = async () => {
+  // Generate the wiki, from an edited structure if one is given
+  const handleGenerate = async (editedStructure?: WikiStructure) => {
     if (!owner || !repo) return
 
+    setDraftStructure(null)
     setGenerating(true)
     setError('')
     setLoadingToast(TOAST_ID, 'Starting generation...')
@@ -223,14 +271,11 @@ export default function WikiPage() {
 
     try {
       const generator = wikiType === 'brief'
-        ? generateBriefWiki(owner, repo)
-        : generateDetailedWiki(owner, repo)
-
-      const currentPageIdRef = { value: '' }
-      const currentContentRef = { value: '' }
+        ? generateBriefWiki(owner, repo, snapshot, editedStructure)
+        : generateDetailedWiki(owner, repo, snapshot, editedStructure)
 
       for await (const event of generator) {
-        processEvent(event, currentPageIdRef, currentContentRef)
+        processEvent(event)
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate wiki')
@@ -240,24 +285,86 @@ export default function WikiPage() {
     }
   }
 
+  // Regenerate pages one at a time from the stored structure, each saved as a new version
+  const handleRegeneratePages = async (pageIds: string[]) => {
+    if (!owner || !repo || pageIds.length === 0) return
+
+    setRegenerating(true)
+    setError('')
+    setActivePage(pageIds[0])
+    setLoadingToast(TOAST_ID, 'Starting generation...')
+
+    try {
+      for (const pageId of pageIds) {
+        for await (const event of regenerateWikiPage(owner, repo, wikiType, pageId, snapshot)) {
+          processEvent(event)
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate page')
+      dismissToast(TOAST_ID)
+    } finally {
+      setRegenerating(false)
+    }
+  }
+
+  // Generate a structure only, to edit before generating its pages
+  const handlePlanStructure = async () => {
+    if (!owner || !repo) return
+
+    setPlanning(true)
+    setError('')
+    setLoadingToast(TOAST_ID, 'Analyzing codebase structure...')
+
+    try {
+      setDraftStructure(await generateWikiStructure(owner, repo, wikiType, snapshot))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate structure')
+    } finally {
+      setPlanning(false)
+      dismissToast(TOAST_ID)
+    }
+  }
+
   // Save to cache when wiki state changes
   useEffect(() => {
-    if (structure && Object.keys(wikiState).length > 0 && !generating) {
+    if (structure && Object.keys(wikiState).length > 0 && !generating && !regenerating) {
       localStorage.setItem(cacheKey, JSON.stringify({
         structure,
         wikiState,
         generatedAt: new Date().toISOString(),
       }))
     }
-  }, [structure, wikiState, generating, cacheKey])
+  }, [structure, wikiState, generating, regenerating, cacheKey])
 
   // Auto-generate on mount if no cached wiki
   useEffect(() => {
     // Wait for cache check to complete before deciding to auto-generate
-    if (!loading && project && !structure && !generating && cacheChecked) {
+    if (!loading && project && !structure && !generating && !planning && !draftStructure && cacheChecked) {
       handleGenerate()
     }
-  }, [loading, project, structure, generating, cacheChecked])
+  }, [loading, project, structure, generating, planning, draftStructure, cacheChecked])
+
+  const toggleSection = (sectionId: string) => {
+    setCollapsedSections(prev => {
+      const next = new Set(prev)
+      if (next.has(sectionId)) {
+        next.delete(sectionId)
+      } else {
+        next.add(sectionId)
+      }
+      return next
+    })
+  }
+
+  // Expand the sections of the active page, e.g. while its content generates
+  useEffect(() => {
+    if (!structure || !activePage) return
+    const path = getSectionPath(structure, activePage)
+    setCollapsedSections(prev => (path.some(id => prev.has(id))
+      ? new Set([...prev].filter(id => !path.includes(id)))
+      : prev))
+  }, [structure, activePage])
 
   const scrollToPage = (pageId: string) => {
     setActivePage(pageId)
@@ -291,20 +398,108 @@ export default function WikiPage() {
 
   const currentPageData = structure?.pages.find(p => p.id === activePage)
   const currentPageState = activePage ? wikiState[activePage] : null
+  const failedPageIds = structure?.pages.filter(p => wikiState[p.id]?.status === 'error').map(p => p.id) || []
+  const busy = generating || reconnecting || regenerating || planning
+  const tree = structure ? buildWikiTree(structure) : null
+
+  const renderPageItem = (page: WikiStructure['pages'][number]) => {
+    const pageState = wikiState[page.id]
+    return (
+      <div key={page.id} className="group relative">
+        <button
+          className={cn(
+            "flex items-center gap-2 w-full text-left text-sm py-2 pl-3 pr-9 rounded",
+            activePage === page.id
+              ? "bg-muted text-foreground"
+              : "text-muted-foreground hover:text-foreground hover:bg-muted/50"
+          )}
+          onClick={() => scrollToPage(page.id)}
+        >
+          {pageState?.status === 'generating' && (
+            <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+          )}
+          {pageState?.status === 'complete' && (
+            <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
+          )}
+          {pageState?.status === 'error' && (
+            <AlertTriangle className="h-4 w-4 text-destructive flex-shrink-0" />
+          )}
+          {pageState?.status === 'pending' && (
+            <FileText className="h-4 w-4 flex-shrink-0" />
+          )}
+          {!pageState && (
+            <FileText className="h-4 w-4 flex-shrink-0" />
+          )}
+          <span className="truncate">{page.title}</span>
+        </button>
+        {!busy && (
+          <button
+            className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-1.5 text-muted-foreground opacity-0 hover:bg-muted hover:text-foreground group-hover:opacity-100 focus:opacity-100"
+            onClick={() => handleRegeneratePages([page.id])}
+            title="Regenerate page"
+          >
+            <RotateCw className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  // Sections are expanded unless collapsed in the sidebar
+  const renderSection = (node: WikiTreeSection) => {
+    const collapsed = collapsedSections.has(node.section.id)
+    return (
+      <div key={node.section.id} className="space-y-1">
+        <button
+          className="flex items-center gap-1 w-full text-left text-sm font-medium py-1.5 px-1 rounded hover:bg-muted/50"
+          onClick={() => toggleSection(node.section.id)}
+        >
+          {collapsed ? (
+            <ChevronRight className="h-4 w-4 flex-shrink-0" />
+          ) : (
+            <ChevronDown className="h-4 w-4 flex-shrink-0" />
+          )}
+          <span className="truncate">{node.section.title}</span>
+        </button>
+        {!collapsed && (
+          <div className="ml-3 border-l pl-2 space-y-1">
+            {node.pages.map(renderPageItem)}
+            {node.sections.map(renderSection)}
+          </div>
+        )}
+      </div>
+    )
+  }
+
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <AppHeader
         title={`${owner}/${repo}`}
-        titleHref={`/repo/${owner}/${repo}`}
+        titleHref={withSnapshot(`/repo/${owner}/${repo}`, snapshot)}
+        snapshots={project?.snapshots}
+        snapshot={snapshot}
         subtitle="Technical Documentation"
         actions={
           <>
-            {structure && !generating && !reconnecting && (
-              <Button onClick={handleGenerate} variant="outline" size="icon" title="Regenerate">
+            {structure && !busy && !draftStructure && (
+              <Button onClick={() => handleGenerate()} variant="outline" size="icon" title="Regenerate">
                 <RotateCw className="h-4 w-4" />
               </Button>
             )}
+            {structure && !busy && !draftStructure && (
+              <Button onClick={() => setDraftStructure(structure)} variant="outline" size="icon" title="Edit structure">
+                <ListTree className="h-4 w-4" />
+              </Button>
+            )}
+            {structure && !busy && (
+              <Button onClick={() => setHistoryOpen(true)} variant="outline" size="icon" title="Version history">
+                <History className="h-4 w-4" />
+              </Button>
+            )}
+            {structure && !busy && (
+              <WikiExportMenu owner={owner!} repo={repo!} type={wikiType} snapshot={snapshot} />
+            )}
             {structure && (
               <Button onClick={handleCopy} variant="outline" size="sm">
                 {copied ? (
@@ -324,6 +519,17 @@ export default function WikiPage() {
         }
       />
 
+      {owner && repo && snapshot && (
+        <WikiVersionsDialog
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          owner={owner}
+          repo={repo}
+          type={wikiType}
+          snapshot={snapshot}
+        />
+      )}
+
       {/* Embedding compatibility warning */}
       {project?.embeddingCompatibility && !project.embeddingCompatibility.compatible && (
         <Card className="mx-4 mt-4 border-yellow-500 bg-yellow-500/10">
@@ -335,7 +541,7 @@ export default function WikiPage() {
                   Embedding model mismatch: {project.embeddingCompatibility.reason}
                 </p>
               </div>
-              <Link to={`/repo/${owner}/${repo}`}>
+              <Link to={withSnapshot(`/repo/${owner}/${repo}`, snapshot)}>
                 <Button variant="outline" size="sm">Re-index</Button>
               </Link>
             </div>
@@ -349,38 +555,19 @@ export default function WikiPage() {
         {structure && (
           <div className="w-full md:w-64 md:border-r md:fixed md:top-[4rem] md:bottom-0 md:overflow-y-auto">
             <div className="p-4 space-y-2">
-              {structure.pages.map(page => {
-                const pageState = wikiState[page.id]
-                return (
-                  <button
-                    key={page.id}
-                    className={cn(
-                      "flex items-center gap-2 w-full text-left text-sm py-2 px-3 rounded",
-                      activePage === page.id
-                        ? "bg-muted text-foreground"
-                        : "text-muted-foreground hover:text-foreground hover:bg-muted/50"
-                    )}
-                    onClick={() => scrollToPage(page.id)}
-                  >
-                    {pageState?.status === 'generating' && (
-                      <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
-                    )}
-                    {pageState?.status === 'complete' && (
-                      <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                    )}
-                    {pageState?.status === 'error' && (
-                      <AlertTriangle className="h-4 w-4 text-destructive flex-shrink-0" />
-                    )}
-                    {pageState?.status === 'pending' && (
-                      <FileText className="h-4 w-4 flex-shrink-0" />
-                    )}
-                    {!pageState && (
-                      <FileText className="h-4 w-4 flex-shrink-0" />
-                    )}
-                    <span className="truncate">{page.title}</span>
-                  </button>
-                )
-              })}
+              {failedPageIds.length > 0 && !busy && (
+                <Button
+                  onClick={() => handleRegeneratePages(failedPageIds)}
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                >
+                  <RotateCw className="mr-2 h-4 w-4" />
+                  Retry failed ({failedPageIds.length})
+                </Button>
+              )}
+              {tree?.pages.map(renderPageItem)}
+              {tree?.sections.map(renderSection)}
             </div>
           </div>
         )}
@@ -388,14 +575,30 @@ export default function WikiPage() {
         {/* Content area */}
         <div className="flex-1 md:ml-64 md:overflow-y-auto">
           <div ref={contentRef} className="p-6 max-w-4xl mx-auto">
-            {!structure && !generating && (
+            {draftStructure && (
+              <WikiStructureEditor
+                structure={draftStructure}
+                onGenerate={handleGenerate}
+                onCancel={() => setDraftStructure(null)}
+                onSuggest={handlePlanStructure}
+                suggesting={planning}
+              />
+            )}
+
+            {!structure && !generating && !draftStructure && (
               <div className="text-center py-12">
                 <p className="text-muted-foreground mb-4">No wiki generated yet.</p>
-                <Button onClick={handleGenerate}>Generate Wiki</Button>
+                <div className="flex justify-center gap-2">
+                  <Button onClick={() => handleGenerate()}>Generate Wiki</Button>
+                  <Button onClick={handlePlanStructure} variant="outline" disabled={planning}>
+                    <ListTree className="mr-2 h-4 w-4" />
+                    Edit structure first
+                  </Button>
+                </div>
               </div>
             )}
 
-            {structure && currentPageData && (
+            {!draftStructure && structure && currentPageData && (
               <div className="space-y-6" id={`page-${activePage}`}>
                 {/* Page content */}
                 {currentPageState?.status === 'pending' && (
@@ -411,9 +614,15 @@ export default function WikiPage() {
                   <div className="flex flex-col items-center justify-center py-12 text-center">
                     <AlertTriangle className="h-12 w-12 text-destructive mb-4" />
                     <p className="text-destructive font-medium mb-2">Failed to generate this page</p>
-                    <p className="text-sm text-muted-foreground">
-                      Check the error log for details. You can try regenerating the wiki.
+                    <p className="text-sm text-muted-foreground mb-4">
+                      {currentPageState.error || 'Check the error log for details.'}
                     </p>
+                    {!busy && (
+                      <Button onClick={() => handleRegeneratePages([activePage])} variant="outline" size="sm">
+                        <RotateCw className="mr-2 h-4 w-4" />
+                        Regenerate page
+                      </Button>
+                    )}
                   </div>
                 )}
 
@@ -436,7 +645,19 @@ export default function WikiPage() {
                           key={idx}
                           className="flex items-center justify-between text-xs text-muted-foreground bg-muted/30 rounded px-3 py-2"
                         >
-                          <code className="truncate">{source.path}</code>
+                          <div className="min-w-0">
+                            <code className="block truncate">
+                              {source.path}
+                              {source.ranges && source.ranges.length > 0 && (
+                                <span className="ml-2 opacity-70">{formatLineRanges(source.ranges)}</span>
+                              )}
+                            </code>
+                            {source.queries && source.queries.length > 0 && (
+                              <p className="truncate opacity-70" title={source.queries.join('\n')}>
+                                Found by: {source.queries.join(' · ')}
+                              </p>
+                            )}
+                          </div>
                           <span className="text-green-600 ml-2">
                             {Math.round(source.relevance * 100)}%
                           </span>
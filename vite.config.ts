@@ -17,6 +17,8 @@ export default defineConfig({
       '/wiki': 'http://localhost:3847',
       '/logs': 'http://localhost:3847',
       '/jobs': 'http://localhost:3847',
+      '/chat': 'http://localhost:3847',
+      '/config': 'http://localhost:3847',
     },
   },
 })